@@ -0,0 +1,69 @@
+/**
+ * Typed client factory over endpoint contracts (SPEC §5.5).
+ *
+ * Every call goes through ApiConnectionService, so the interceptor chain, auth,
+ * retry, cancellation and notifications behave exactly as for hand-written calls.
+ */
+import { inject } from '@angular/core';
+import { ApiResponse } from '@progalaxyelabs/stonescriptphp-client-core';
+import { ApiConnectionService } from './api-connection.service';
+import { RequestOptions } from './request-options';
+import { EndpointArgs, EndpointMap, EndpointResponse, resolvePath } from './api-contract';
+
+/** Call signature for one endpoint; the argument is optional when nothing in it is required. */
+export type EndpointCall<E> =
+    {} extends EndpointArgs<E, RequestOptions>
+        ? (args?: EndpointArgs<E, RequestOptions>) => Promise<ApiResponse<EndpointResponse<E>>>
+        : (args: EndpointArgs<E, RequestOptions>) => Promise<ApiResponse<EndpointResponse<E>>>;
+
+/** The typed client produced from an endpoint map. */
+export type ApiClient<C extends EndpointMap> = { [K in keyof C]: EndpointCall<C[K]> };
+
+interface CallArgs {
+    params?: Record<string, string | number>;
+    query?: any;
+    body?: any;
+    options?: RequestOptions;
+}
+
+/**
+ * Build a typed client from endpoint contracts.
+ *
+ * @example
+ * ```typescript
+ * const client = createApiClient(api, contracts);
+ * const project = await client.getProject({ params: { id: 42 } });
+ * await client.updateProject({ params: { id: 42 }, body: { name: 'Renamed' } });
+ * ```
+ */
+export function createApiClient<C extends EndpointMap>(api: ApiConnectionService, contracts: C): ApiClient<C> {
+    const client: Record<string, (args?: CallArgs) => Promise<ApiResponse<unknown>>> = {};
+    for (const name of Object.keys(contracts)) {
+        const { method, path } = contracts[name];
+        client[name] = (args: CallArgs = {}) => {
+            const url = resolvePath(path, args.params);
+            switch (method) {
+                case 'GET':
+                    return api.get(url, args.query, args.options);
+                case 'DELETE':
+                    return api.delete(url, args.query, args.options);
+                default: {
+                    const withQuery = url + api.buildQueryString(args.query, args.options?.querySerialization);
+                    const body = args.body ?? {};
+                    if (method === 'POST') return api.post(withQuery, body, args.options);
+                    if (method === 'PUT') return api.put(withQuery, body, args.options);
+                    return api.patch(withQuery, body, args.options);
+                }
+            }
+        };
+    }
+    return client as ApiClient<C>;
+}
+
+/**
+ * {@link createApiClient} with the injected ApiConnectionService. Call in an
+ * injection context (field initializer, constructor, provider factory).
+ */
+export function injectApiClient<C extends EndpointMap>(contracts: C): ApiClient<C> {
+    return createApiClient(inject(ApiConnectionService), contracts);
+}
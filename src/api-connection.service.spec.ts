@@ -1,6 +1,17 @@
 import { TestBed } from '@angular/core/testing';
 
 import { ApiConnectionService } from './api-connection.service';
+import { AuthService } from './auth.service';
+import { DEFAULT_CLIENT_CONFIG, resolveClientConfig } from './client-config';
+import { isCancelledResponse, isTimeoutResponse } from './api-error';
+
+/**
+ * AuthService stand-in: the given spies over the real prototype, so
+ * renewSession() runs the actual refresh → exchange sequence on the spies.
+ */
+function mockAuthService<T extends object>(spies: T): T {
+    return Object.assign(Object.create(AuthService.prototype), spies);
+}
 
 describe('ApiConnectionService', () => {
   let service: ApiConnectionService;
@@ -96,7 +107,8 @@ describe('ApiConnectionService.buildQueryString', () => {
 // refreshAndRetry — AUTH-SPEC §4a session continuity (task #2644)
 //
 // Pins the refresh → exchange → retry contract so any future regression is
-// caught at test time. Uses spies to avoid real HTTP calls.
+// caught at test time. Uses spies to avoid real HTTP calls. The flow lives in
+// the built-in AuthInterceptor, which ApiConnectionService always installs.
 // ─────────────────────────────────────────────────────────────────────────────
 
 describe('ApiConnectionService.refreshAndRetry (AUTH-SPEC §4a)', () => {
@@ -116,11 +128,11 @@ describe('ApiConnectionService.refreshAndRetry (AUTH-SPEC §4a)', () => {
             hasValidAccessToken: jasmine.createSpy('hasValidAccessToken').and.returnValue(true),
         };
 
-        const authService = {
+        const authService = mockAuthService({
             refresh: jasmine.createSpy('refresh').and.resolveTo(opts.refreshResult),
             exchangeToken: jasmine.createSpy('exchangeToken').and.resolveTo(opts.exchangeResult),
             clearSession: jasmine.createSpy('clearSession'),
-        };
+        });
 
         const environment = {
             apiServer: { host: 'http://localhost:3011' },
@@ -210,3 +222,688 @@ describe('ApiConnectionService.refreshAndRetry (AUTH-SPEC §4a)', () => {
         expect(callCount).toBe(2);
     });
 });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Single-flight refresh — concurrent 401s share one refresh → exchange cycle
+//
+// With refresh-token rotation, parallel refreshes invalidate each other and the
+// session gets cleared. Every 401 must await the same in-flight renewal and then
+// retry exactly once with the new token.
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('ApiConnectionService single-flight refresh (concurrent 401s)', () => {
+    function makeService() {
+        let current = 'expired-jwt';
+        const tokens = {
+            getAccessToken: () => current,
+            getRefreshToken: () => 'refresh-jwt',
+            hasValidAccessToken: () => true,
+        };
+
+        const authService = mockAuthService({
+            refresh: jasmine.createSpy('refresh').and.callFake(() => new Promise<boolean>(resolve => {
+                setTimeout(() => { current = 'fresh-jwt'; resolve(true); }, 10);
+            })),
+            exchangeToken: jasmine.createSpy('exchangeToken').and.resolveTo({ success: true }),
+            clearSession: jasmine.createSpy('clearSession'),
+        });
+
+        const environment = { apiServer: { host: 'http://localhost:3011' } };
+        const svc = new (ApiConnectionService as any)(tokens, environment, authService, null);
+        return { svc, authService };
+    }
+
+    it('refreshes and exchanges once for ten parallel 401s, retrying each request once', async () => {
+        const { svc, authService } = makeService();
+
+        const fetchSpy = spyOn(window, 'fetch').and.callFake((_url: any, opts: any) => {
+            const fresh = opts.headers['Authorization'] === 'Bearer fresh-jwt';
+            return Promise.resolve(fresh
+                ? new Response(JSON.stringify({ status: 'ok', data: {}, message: 'ok' }), { status: 200 })
+                : new Response(JSON.stringify({ status: 'error' }), { status: 401 }));
+        });
+
+        const results = await Promise.all(
+            Array.from({ length: 10 }, (_, i) => svc.get('/items/' + i))
+        );
+
+        expect(authService.refresh).toHaveBeenCalledTimes(1);
+        expect(authService.exchangeToken).toHaveBeenCalledTimes(1);
+        // 10 initial requests + 10 retries
+        expect(fetchSpy.calls.count()).toBe(20);
+        expect(results.every((r: any) => r.status === 'ok')).toBeTrue();
+    });
+
+    it('retries a late 401 with the already-renewed token without refreshing again', async () => {
+        const { svc, authService } = makeService();
+
+        spyOn(window, 'fetch').and.callFake((_url: any, opts: any) => {
+            const fresh = opts.headers['Authorization'] === 'Bearer fresh-jwt';
+            return Promise.resolve(fresh
+                ? new Response(JSON.stringify({ status: 'ok', data: {}, message: 'ok' }), { status: 200 })
+                : new Response(JSON.stringify({ status: 'error' }), { status: 401 }));
+        });
+
+        await svc.get('/first');
+        await svc.get('/second');
+
+        // Second request was sent with the fresh token and succeeds directly
+        expect(authService.refresh).toHaveBeenCalledTimes(1);
+    });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interceptor pipeline (SPEC §5.2)
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('ApiConnectionService interceptors', () => {
+    function makeService(interceptors: any[]) {
+        const tokens = { getAccessToken: () => 'jwt' };
+        const authService = mockAuthService({
+            refresh: jasmine.createSpy('refresh').and.resolveTo(true),
+            exchangeToken: jasmine.createSpy('exchangeToken').and.resolveTo({ success: true }),
+            clearSession: jasmine.createSpy('clearSession'),
+        });
+        const environment = { apiServer: { host: 'http://localhost:3011' } };
+        return new (ApiConnectionService as any)(tokens, environment, authService, null, interceptors);
+    }
+
+    const ok = () => new Response(JSON.stringify({ status: 'ok', data: { n: 1 }, message: 'ok' }), { status: 200 });
+
+    it('runs onRequest hooks in order before the built-in Bearer injection', async () => {
+        const seen: string[] = [];
+        const svc = makeService([
+            { onRequest: (r: any) => { seen.push('a'); r.init.headers['X-Correlation-Id'] = 'c-1'; } },
+            { onRequest: (r: any) => { seen.push('b:' + (r.init.headers['Authorization'] ?? 'none')); } },
+        ]);
+        const fetchSpy = spyOn(window, 'fetch').and.callFake(() => Promise.resolve(ok()));
+
+        await svc.get('/items');
+
+        expect(seen).toEqual(['a', 'b:none']);
+        const init = fetchSpy.calls.mostRecent().args[1] as any;
+        expect(init.headers['X-Correlation-Id']).toBe('c-1');
+        expect(init.headers['Authorization']).toBe('Bearer jwt');
+    });
+
+    it('runs onResponse hooks in reverse order and lets them replace the response', async () => {
+        const seen: string[] = [];
+        const svc = makeService([
+            { onResponse: (res: Response) => { seen.push('outer'); return res; } },
+            {
+                onResponse: async (res: Response) => {
+                    seen.push('inner');
+                    const json = await res.json();
+                    return new Response(JSON.stringify({ ...json, data: { n: 2 } }), { status: 200 });
+                }
+            },
+        ]);
+        spyOn(window, 'fetch').and.callFake(() => Promise.resolve(ok()));
+
+        const result = await svc.get('/items');
+
+        expect(seen).toEqual(['inner', 'outer']);
+        expect(result.data).toEqual({ n: 2 });
+    });
+
+    it('lets an onError hook recover from a transport failure', async () => {
+        const svc = makeService([{ onError: () => ok() }]);
+        spyOn(window, 'fetch').and.rejectWith(new TypeError('Failed to fetch'));
+
+        const result = await svc.get('/items');
+
+        expect(result.status).toBe('ok');
+    });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Retry with backoff (SPEC §5.2, §8.5)
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('ApiConnectionService retry', () => {
+    const retry = { ...DEFAULT_CLIENT_CONFIG.retry, baseDelayMs: 1, maxDelayMs: 5 };
+
+    function makeService() {
+        const tokens = { getAccessToken: () => 'jwt' };
+        const authService = mockAuthService({
+            refresh: jasmine.createSpy('refresh').and.resolveTo(true),
+            exchangeToken: jasmine.createSpy('exchangeToken').and.resolveTo({ success: true }),
+            clearSession: jasmine.createSpy('clearSession'),
+        });
+        const environment = { apiServer: { host: 'http://localhost:3011' } };
+        return new (ApiConnectionService as any)(tokens, environment, authService, null, null, { ...DEFAULT_CLIENT_CONFIG, retry });
+    }
+
+    const status = (code: number) => new Response(JSON.stringify({ status: 'ok', data: null, message: 'ok' }), { status: code });
+
+    it('retries a GET after a 503', async () => {
+        const svc = makeService();
+        const fetchSpy = spyOn(window, 'fetch').and.returnValues(Promise.resolve(status(503)), Promise.resolve(status(200)));
+
+        const result = await svc.get('/items');
+
+        expect(fetchSpy).toHaveBeenCalledTimes(2);
+        expect(result.status).toBe('ok');
+    });
+
+    it('retries a POST only when it carries an idempotency key', async () => {
+        const svc = makeService();
+        const fetchSpy = spyOn(window, 'fetch').and.callFake(() => Promise.resolve(status(503)));
+
+        await svc.post('/orders', { sku: 'a' });
+        expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+        fetchSpy.calls.reset();
+        await svc.post('/orders', { sku: 'a' }, { idempotencyKey: 'order-1' });
+        expect(fetchSpy).toHaveBeenCalledTimes(3);
+        expect((fetchSpy.calls.mostRecent().args[1] as any).headers['Idempotency-Key']).toBe('order-1');
+    });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cancellation and timeouts (SPEC §5.2, §5.3)
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('ApiConnectionService cancellation', () => {
+    let notificationHandler: jasmine.SpyObj<any>;
+
+    function makeService(requestTimeoutMs?: number) {
+        const tokens = { getAccessToken: () => null };
+        const authService = { clearSession: jasmine.createSpy('clearSession') };
+        const environment = { apiServer: { host: 'http://localhost:3011' }, requestTimeoutMs };
+        notificationHandler = jasmine.createSpyObj('NotificationHandler', ['error', 'success', 'warn']);
+        return new (ApiConnectionService as any)(tokens, environment, authService, notificationHandler);
+    }
+
+    /** fetch() that never settles on its own — only its signal can end it. */
+    function hangingFetch() {
+        return spyOn(window, 'fetch').and.callFake((_url: any, init: any) => new Promise((_resolve, reject) => {
+            init.signal.addEventListener('abort', () => reject(init.signal.reason));
+        }));
+    }
+
+    it('resolves a cancelled call as kind "cancelled" without notifying', async () => {
+        const svc = makeService();
+        hangingFetch();
+        const controller = new AbortController();
+
+        const pending = svc.get('/search', { q: 'a' }, { signal: controller.signal });
+        controller.abort();
+        const result = await pending;
+
+        expect(isCancelledResponse(result)).toBeTrue();
+        expect(result.data.isNetworkError).toBeFalse();
+        expect(notificationHandler.error).not.toHaveBeenCalled();
+    });
+
+    it('resolves a hung call as kind "timeout" using the environment default', async () => {
+        const svc = makeService(10);
+        hangingFetch();
+
+        const result = await svc.get('/slow');
+
+        expect(isTimeoutResponse(result)).toBeTrue();
+        expect(notificationHandler.error).not.toHaveBeenCalled();
+    });
+
+    it('lets timeoutMs: 0 opt a call out of the default timeout', async () => {
+        const svc = makeService(10);
+        spyOn(window, 'fetch').and.callFake(() => new Promise(resolve =>
+            setTimeout(() => resolve(new Response(JSON.stringify({ status: 'ok', data: null, message: 'ok' }))), 30)));
+
+        const result = await svc.get('/slow', undefined, { timeoutMs: 0 });
+
+        expect(result.status).toBe('ok');
+    });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Per-request options (SPEC §5.1)
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('ApiConnectionService request options', () => {
+    let notificationHandler: jasmine.SpyObj<any>;
+    let authService: any;
+
+    function makeService() {
+        const tokens = { getAccessToken: () => 'jwt' };
+        authService = mockAuthService({
+            refresh: jasmine.createSpy('refresh').and.resolveTo(true),
+            exchangeToken: jasmine.createSpy('exchangeToken').and.resolveTo({ success: true }),
+            clearSession: jasmine.createSpy('clearSession'),
+        });
+        const environment = { apiServer: { host: 'http://localhost:3011' } };
+        notificationHandler = jasmine.createSpyObj('NotificationHandler', ['error', 'success', 'warn']);
+        return new (ApiConnectionService as any)(tokens, environment, authService, notificationHandler);
+    }
+
+    const envelope = () => new Response(JSON.stringify({ status: 'ok', data: null, message: 'ok' }), { status: 200 });
+
+    it('merges headers and sets credentials', async () => {
+        const svc = makeService();
+        const fetchSpy = spyOn(window, 'fetch').and.callFake(() => Promise.resolve(envelope()));
+
+        await svc.post('/items', { a: 1 }, { headers: { 'X-Locale': 'en' }, credentials: 'include' });
+
+        const init = fetchSpy.calls.mostRecent().args[1] as any;
+        expect(init.headers['X-Locale']).toBe('en');
+        expect(init.headers['Content-Type']).toBe('application/json');
+        expect(init.credentials).toBe('include');
+    });
+
+    it('skipAuth omits the Bearer header and leaves the session alone on 401', async () => {
+        const svc = makeService();
+        const fetchSpy = spyOn(window, 'fetch').and.callFake(() => Promise.resolve(new Response('{}', { status: 401 })));
+
+        await svc.get('/public', undefined, { skipAuth: true });
+
+        const init = fetchSpy.calls.mostRecent().args[1] as any;
+        expect(init.headers['Authorization']).toBeUndefined();
+        expect(authService.refresh).not.toHaveBeenCalled();
+        expect(authService.clearSession).not.toHaveBeenCalled();
+    });
+
+    it('silent suppresses the notification but still returns the error', async () => {
+        const svc = makeService();
+        spyOn(window, 'fetch').and.callFake(() => Promise.resolve(
+            new Response(JSON.stringify({ message: 'Not found' }), { status: 404 })));
+
+        const result = await svc.get('/slugs/taken', undefined, { silent: true });
+
+        expect(result.status).toBe('error');
+        expect(result.data.httpStatus).toBe(404);
+        expect(notificationHandler.error).not.toHaveBeenCalled();
+    });
+
+    it('responseType "text" returns the raw body as data', async () => {
+        const svc = makeService();
+        spyOn(window, 'fetch').and.callFake(() => Promise.resolve(new Response('a,b\n1,2', { status: 200 })));
+
+        const result = await svc.get('/export', undefined, { responseType: 'text' });
+
+        expect(result.status).toBe('ok');
+        expect(result.data).toBe('a,b\n1,2');
+    });
+
+    it('sends FormData as-is without a JSON Content-Type', async () => {
+        const svc = makeService();
+        const fetchSpy = spyOn(window, 'fetch').and.callFake(() => Promise.resolve(envelope()));
+        const form = new FormData();
+        form.append('file', new Blob(['x']), 'x.txt');
+
+        await svc.post('/files', form);
+
+        const init = fetchSpy.calls.mostRecent().args[1] as any;
+        expect(init.body).toBe(form);
+        expect(init.headers['Content-Type']).toBeUndefined();
+    });
+
+    it('querySerialization "brackets" encodes nested params PHP-style', async () => {
+        const svc = makeService();
+        const fetchSpy = spyOn(window, 'fetch').and.callFake(() => Promise.resolve(envelope()));
+
+        await svc.get('/items', { filters: { status: 'a' } }, { querySerialization: 'brackets' });
+
+        expect(fetchSpy.calls.mostRecent().args[0]).toBe('http://localhost:3011/items?filters%5Bstatus%5D=a');
+    });
+
+    it('uses the querySerialization client option unless the call overrides it', async () => {
+        const tokens = { getAccessToken: () => 'jwt' };
+        const environment = { apiServer: { host: 'http://localhost:3011' } };
+        const config = resolveClientConfig({ querySerialization: 'repeat' });
+        const svc = new (ApiConnectionService as any)(tokens, environment, authService ?? {}, null, null, config);
+        const fetchSpy = spyOn(window, 'fetch').and.callFake(() => Promise.resolve(envelope()));
+
+        await svc.get('/items', { ids: [1, 2] });
+        expect(fetchSpy.calls.mostRecent().args[0]).toBe('http://localhost:3011/items?ids=1&ids=2');
+
+        await svc.get('/items', { ids: [1, 2] }, { querySerialization: 'comma' });
+        expect(fetchSpy.calls.mostRecent().args[0]).toBe('http://localhost:3011/items?ids=1,2');
+    });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Offline outbox (SPEC §5.8)
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('ApiConnectionService outbox', () => {
+    let notificationHandler: jasmine.SpyObj<any>;
+    let outbox: jasmine.SpyObj<any>;
+
+    function makeService(enabled: boolean) {
+        const tokens = { getAccessToken: () => 'jwt' };
+        const authService = { clearSession: jasmine.createSpy('clearSession') };
+        const environment = { apiServer: { host: 'http://localhost:3011' } };
+        const config = {
+            ...DEFAULT_CLIENT_CONFIG,
+            retry: { ...DEFAULT_CLIENT_CONFIG.retry, maxAttempts: 1 },
+            outbox: { ...DEFAULT_CLIENT_CONFIG.outbox, enabled }
+        };
+        notificationHandler = jasmine.createSpyObj('NotificationHandler', ['error', 'success', 'warn']);
+        outbox = jasmine.createSpyObj('OutboxService', ['enqueue']);
+        outbox.enqueue.and.resolveTo(7);
+        return new (ApiConnectionService as any)(tokens, environment, authService, notificationHandler, null, config, outbox);
+    }
+
+    it('queues a mutation that fails offline and warns instead of erroring', async () => {
+        const svc = makeService(true);
+        spyOn(window, 'fetch').and.rejectWith(new TypeError('Failed to fetch'));
+
+        const result = await svc.post('/notes', { text: 'hi' }, { headers: { 'X-Locale': 'en' } });
+
+        expect(result.status).toBe('error');
+        expect(result.data.kind).toBe('network');
+        expect(result.data.queued).toBe(7);
+        const entry = outbox.enqueue.calls.mostRecent().args[0];
+        expect(entry.method).toBe('POST');
+        expect(entry.url).toBe('http://localhost:3011/notes');
+        expect(entry.body).toBe(JSON.stringify({ text: 'hi' }));
+        expect(entry.headers['X-Locale']).toBe('en');
+        expect(entry.headers['Authorization']).toBeUndefined();
+        expect(entry.idempotencyKey).toBeTruthy();
+        expect(notificationHandler.warn).toHaveBeenCalled();
+        expect(notificationHandler.error).not.toHaveBeenCalled();
+    });
+
+    it('sends the generated idempotency key on the first attempt', async () => {
+        const svc = makeService(true);
+        const fetchSpy = spyOn(window, 'fetch').and.rejectWith(new TypeError('Failed to fetch'));
+
+        await svc.patch('/notes/1', { text: 'hi' });
+
+        const init = fetchSpy.calls.mostRecent().args[1] as any;
+        expect(init.headers['Idempotency-Key']).toBe(outbox.enqueue.calls.mostRecent().args[0].idempotencyKey);
+    });
+
+    it('never queues GETs, HTTP errors, or calls with outbox: false', async () => {
+        const svc = makeService(true);
+        const fetchSpy = spyOn(window, 'fetch').and.rejectWith(new TypeError('Failed to fetch'));
+
+        await svc.get('/notes');
+        await svc.post('/notes', {}, { outbox: false });
+        fetchSpy.and.resolveTo(new Response('{}', { status: 500 }));
+        await svc.post('/notes', {});
+
+        expect(outbox.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('queues per call with outbox: true when the option is off globally', async () => {
+        const svc = makeService(false);
+        spyOn(window, 'fetch').and.rejectWith(new TypeError('Failed to fetch'));
+
+        await svc.delete('/notes/1');
+        expect(outbox.enqueue).not.toHaveBeenCalled();
+
+        await svc.delete('/notes/1', undefined, { outbox: true });
+        expect(outbox.enqueue.calls.mostRecent().args[0].method).toBe('DELETE');
+    });
+
+    it('sendQueued replays silently with the stored key and is never re-queued', async () => {
+        const svc = makeService(true);
+        const fetchSpy = spyOn(window, 'fetch').and.rejectWith(new TypeError('Failed to fetch'));
+
+        const result = await svc.sendQueued({
+            method: 'PUT',
+            url: 'http://localhost:3011/notes/1',
+            body: '{"text":"hi"}',
+            headers: { 'Content-Type': 'application/json' },
+            idempotencyKey: 'k-1',
+            createdAt: 0
+        });
+
+        const init = fetchSpy.calls.mostRecent().args[1] as any;
+        expect(init.method).toBe('PUT');
+        expect(init.body).toBe('{"text":"hi"}');
+        expect(init.headers['Idempotency-Key']).toBe('k-1');
+        expect(init.headers['Authorization']).toBe('Bearer jwt');
+        expect(result.data.isNetworkError).toBeTrue();
+        expect(outbox.enqueue).not.toHaveBeenCalled();
+        expect(notificationHandler.error).not.toHaveBeenCalled();
+        expect(notificationHandler.warn).not.toHaveBeenCalled();
+    });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Upload / download (SPEC §5.4)
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('ApiConnectionService upload / download', () => {
+    let authService: any;
+
+    function makeService() {
+        let token = 'old-jwt';
+        const tokens = { getAccessToken: () => token };
+        authService = mockAuthService({
+            refresh: jasmine.createSpy('refresh').and.callFake(async () => { token = 'new-jwt'; return true; }),
+            exchangeToken: jasmine.createSpy('exchangeToken').and.resolveTo({ success: true }),
+            clearSession: jasmine.createSpy('clearSession'),
+        });
+        const environment = { apiServer: { host: 'http://localhost:3011' } };
+        return new (ApiConnectionService as any)(tokens, environment, authService, null);
+    }
+
+    it('download returns the blob, filename and content type', async () => {
+        const svc = makeService();
+        spyOn(window, 'fetch').and.resolveTo(new Response('a,b\n1,2', {
+            status: 200,
+            headers: { 'Content-Type': 'text/csv', 'Content-Disposition': 'attachment; filename="export.csv"' }
+        }));
+        const progress: number[] = [];
+
+        const result = await svc.download('/reports/export', { month: 3 }, { onProgress: (p: any) => progress.push(p.loaded) });
+
+        expect(result.status).toBe('ok');
+        expect(await result.data.blob.text()).toBe('a,b\n1,2');
+        expect(result.data.filename).toBe('export.csv');
+        expect(result.data.contentType).toBe('text/csv');
+        expect(progress[progress.length - 1]).toBe(7);
+    });
+
+    it('download refreshes and retries on 401 like the other verbs', async () => {
+        const svc = makeService();
+        const fetchSpy = spyOn(window, 'fetch').and.callFake((_url: any, init: any) => Promise.resolve(
+            init.headers['Authorization'] === 'Bearer old-jwt'
+                ? new Response('{}', { status: 401 })
+                : new Response(new Blob(['pdf']), { status: 200 })
+        ));
+
+        const result = await svc.download('/invoices/1/pdf');
+
+        expect(authService.refresh).toHaveBeenCalledTimes(1);
+        expect(fetchSpy).toHaveBeenCalledTimes(2);
+        expect(result.status).toBe('ok');
+        expect(result.data.filename).toBeNull();
+    });
+
+    it('download resolves an HTTP error as the usual error response', async () => {
+        const svc = makeService();
+        spyOn(window, 'fetch').and.resolveTo(new Response(JSON.stringify({ message: 'Not found' }), { status: 404 }));
+
+        const result = await svc.download('/files/missing');
+
+        expect(result.status).toBe('error');
+        expect(result.data.httpStatus).toBe(404);
+    });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Streams (SPEC §5.9)
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('ApiConnectionService stream', () => {
+    let authService: any;
+    let token: string;
+
+    function makeService() {
+        token = 'old-jwt';
+        const tokens = { getAccessToken: () => token };
+        authService = mockAuthService({
+            refresh: jasmine.createSpy('refresh').and.callFake(async () => { token = 'new-jwt'; return true; }),
+            exchangeToken: jasmine.createSpy('exchangeToken').and.resolveTo({ success: true }),
+            clearSession: jasmine.createSpy('clearSession'),
+        });
+        const environment = { apiServer: { host: 'http://localhost:3011' } };
+        return new (ApiConnectionService as any)(tokens, environment, authService, null);
+    }
+
+    const body = (text: string) => new Response(text, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+
+    function collect(stream: any): Promise<any[]> {
+        const events: any[] = [];
+        return new Promise((resolve, reject) => stream.subscribe({
+            next: (event: any) => events.push(event),
+            error: reject,
+            complete: () => resolve(events)
+        }));
+    }
+
+    it('parses SSE events into typed data', async () => {
+        const svc = makeService();
+        const fetchSpy = spyOn(window, 'fetch').and.resolveTo(body('id: 1\ndata: {"percent":50}\n\nid: 2\ndata: {"percent":100}\n\n'));
+
+        const events = await collect(svc.stream('/jobs/1/events', undefined, { reconnect: false }));
+
+        expect(events.map(e => e.data.percent)).toEqual([50, 100]);
+        expect(events[1].id).toBe('2');
+        expect((fetchSpy.calls.mostRecent().args[1] as any).headers['Accept']).toBe('text/event-stream');
+    });
+
+    it('refreshes the token when the stream is rejected with 401', async () => {
+        const svc = makeService();
+        spyOn(window, 'fetch').and.callFake((_url: any, init: any) => Promise.resolve(
+            init.headers['Authorization'] === 'Bearer old-jwt' ? new Response('{}', { status: 401 }) : body('data: hi\n\n')
+        ));
+
+        const events = await collect(svc.stream('/feed', undefined, { reconnect: false }));
+
+        expect(authService.refresh).toHaveBeenCalledTimes(1);
+        expect(authService.exchangeToken).toHaveBeenCalledTimes(1);
+        expect(events.map(e => e.data)).toEqual(['hi']);
+    });
+
+    it('reconnects with Last-Event-ID and stops on 204', async () => {
+        const svc = makeService();
+        const fetchSpy = spyOn(window, 'fetch').and.returnValues(
+            Promise.resolve(body('retry: 1\nid: 41\ndata: "a"\n\n')),
+            Promise.resolve(new Response(null, { status: 204 }))
+        );
+
+        const events = await collect(svc.stream('/feed'));
+
+        expect(events.map(e => e.data)).toEqual(['a']);
+        expect((fetchSpy.calls.argsFor(1)[1] as any).headers['Last-Event-ID']).toBe('41');
+    });
+
+    it('streams NDJSON values', async () => {
+        const svc = makeService();
+        spyOn(window, 'fetch').and.resolveTo(new Response('{"token":"Hel"}\n{"token":"lo"}\n', { status: 200 }));
+
+        const events = await collect(svc.stream('/chat', undefined, { format: 'ndjson', method: 'POST', body: { prompt: 'hi' } }));
+
+        expect(events.map(e => e.data.token).join('')).toBe('Hello');
+    });
+
+    it('errors with the parse exception and does not reconnect', async () => {
+        const svc = makeService();
+        const fetchSpy = spyOn(window, 'fetch').and.callFake(() => Promise.resolve(body('data: not-a-number\n\n')));
+        const parse = (data: string) => {
+            if (isNaN(Number(data))) throw new TypeError(`bad value: ${data}`);
+            return Number(data);
+        };
+
+        await expectAsync(collect(svc.stream('/feed', undefined, { parse, retryMs: 0 }))).toBeRejectedWithError(TypeError, 'bad value: not-a-number');
+
+        expect(fetchSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('errors on a malformed NDJSON line without reporting a dropped connection', async () => {
+        const svc = makeService();
+        spyOn(window, 'fetch').and.resolveTo(new Response('{"token":"a"}\nnot json\n', { status: 200 }));
+
+        await expectAsync(collect(svc.stream('/chat', undefined, { format: 'ndjson' }))).toBeRejectedWithError(SyntaxError);
+    });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Batching (SPEC §5.11)
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('ApiConnectionService batching', () => {
+    let notificationHandler: jasmine.SpyObj<any>;
+
+    function makeService() {
+        const tokens = { getAccessToken: () => 'jwt' };
+        const authService = mockAuthService({
+            refresh: jasmine.createSpy('refresh').and.resolveTo(true),
+            exchangeToken: jasmine.createSpy('exchangeToken').and.resolveTo({ success: true }),
+            clearSession: jasmine.createSpy('clearSession'),
+        });
+        const environment = { apiServer: { host: 'http://localhost:3011' } };
+        const config = resolveClientConfig({ batch: { enabled: true } });
+        notificationHandler = jasmine.createSpyObj('NotificationHandler', ['error', 'success', 'warn']);
+        return new (ApiConnectionService as any)(tokens, environment, authService, notificationHandler, null, config);
+    }
+
+    const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+    it('coalesces GETs made together into one batch POST and splits the result', async () => {
+        const svc = makeService();
+        const fetchSpy = spyOn(window, 'fetch').and.resolveTo(json({
+            status: 'ok',
+            message: '',
+            data: {
+                responses: [
+                    { id: '0', status: 200, body: { status: 'ok', data: { count: 3 }, message: '' } },
+                    { id: '1', status: 404, body: { status: 'error', data: null, message: 'No such widget' } }
+                ]
+            }
+        }));
+
+        const [stats, widget] = await Promise.all([
+            svc.get('/stats', { range: 'week' }),
+            svc.get('/widgets/9')
+        ]);
+
+        expect(fetchSpy).toHaveBeenCalledTimes(1);
+        const [url, init] = fetchSpy.calls.mostRecent().args as any[];
+        expect(url).toBe('http://localhost:3011/batch');
+        expect(JSON.parse(init.body).requests).toEqual([
+            { id: '0', method: 'GET', url: '/stats?range=week' },
+            { id: '1', method: 'GET', url: '/widgets/9' }
+        ]);
+        expect(stats.data).toEqual({ count: 3 });
+        expect(widget.status).toBe('error');
+        expect(widget.data.httpStatus).toBe(404);
+        expect(notificationHandler.error).toHaveBeenCalledOnceWith('No such widget');
+    });
+
+    it('falls back to individual requests when the batch endpoint is missing', async () => {
+        const svc = makeService();
+        const fetchSpy = spyOn(window, 'fetch').and.callFake((url: any) => Promise.resolve(
+            String(url).endsWith('/batch')
+                ? json({ message: 'Not found' }, 404)
+                : json({ status: 'ok', data: String(url), message: '' })
+        ));
+
+        const results = await Promise.all([svc.get('/a'), svc.get('/b')]);
+        expect(results.map((r: any) => r.data)).toEqual(['http://localhost:3011/a', 'http://localhost:3011/b']);
+
+        await Promise.all([svc.get('/c'), svc.get('/d')]);
+        const urls = fetchSpy.calls.allArgs().map(args => String(args[0]));
+        expect(urls.filter(u => u.endsWith('/batch')).length).toBe(1);
+        expect(notificationHandler.error).not.toHaveBeenCalled();
+    });
+
+    it('sends calls with per-call transport options on their own', async () => {
+        const svc = makeService();
+        const fetchSpy = spyOn(window, 'fetch').and.callFake(() => Promise.resolve(json({ status: 'ok', data: null, message: '' })));
+
+        await Promise.all([
+            svc.get('/a', undefined, { headers: { 'X-Trace': '1' } }),
+            svc.get('/b', undefined, { batch: false })
+        ]);
+
+        expect(fetchSpy.calls.allArgs().map(args => String(args[0])))
+            .toEqual(['http://localhost:3011/a', 'http://localhost:3011/b']);
+    });
+});
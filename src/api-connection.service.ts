@@ -1,15 +1,75 @@
-import { Injectable, Inject, Optional } from '@angular/core';
+import { Injectable, Inject, Optional, signal } from '@angular/core';
+import { Observable } from 'rxjs';
 import { TokenService } from './token.service';
 import { ApiResponse, MyEnvironmentModel } from '@progalaxyelabs/stonescriptphp-client-core';
 import { AuthService } from './auth.service';
 import { NOTIFICATION_HANDLER, NotificationHandler } from './notification-handler';
+import { API_INTERCEPTORS, ApiInterceptor, ApiRequest, runInterceptorChain } from './api-interceptor';
+import { AuthInterceptor, SKIP_AUTH } from './auth-interceptor';
+import { RetryInterceptor, RETRY_OPTIONS, RequestRetryOptions } from './retry-policy';
+import { RequestOptions, ResponseType } from './request-options';
+import { NGX_CLIENT_CONFIG, NgxClientConfig, DEFAULT_CLIENT_CONFIG } from './client-config';
+import { AbortKind, createRequestAbortScope } from './request-abort';
+import { ApiErrorMetadata } from './api-error';
+import { QuerySerialization, serializeQuery } from './query-string';
+import { OutboxEntry } from './outbox';
+import { OutboxService } from './outbox.service';
+import {
+    DownloadOptions,
+    DownloadedFile,
+    UploadBody,
+    UploadOptions,
+    TransferProgress,
+    parseContentDispositionFilename,
+    readBodyWithProgress,
+    toFormData,
+    toProgress,
+    xhrTransport
+} from './transfer';
+import { createUploadSessionStore, runChunkedUpload, uploadFingerprint } from './chunked-upload';
+import {
+    ChunkedUpload,
+    ChunkedUploadOptions,
+    ChunkedUploadStatus,
+    StoneScriptPhpUploadProtocol,
+    TusUploadProtocol
+} from './upload-protocols';
+import { StreamEvent, StreamOptions, createEventStream } from './api-stream';
+import {
+    BatchRequestItem,
+    BatchResponseItem,
+    RequestBatcher,
+    batchScheduler,
+    canJoinBatch,
+    resolveBatchResponse
+} from './batch';
+
+/** How a request reaches the wire and how its successful response is read. */
+interface Transfer {
+    transport?: (request: ApiRequest) => Promise<Response>;
+    read?: (response: Response) => Promise<ApiResponse<any>>;
+}
+
+/** A GET waiting for the next batch request. */
+interface BatchedCall {
+    /** Path relative to the API host, query string included. */
+    path: string;
+    options: RequestOptions;
+}
 
 /**
  * API connection service for making authenticated HTTP requests.
  *
  * Features:
+ * - Interceptor pipeline (API_INTERCEPTORS) with request, response and error hooks
  * - Automatic Bearer token injection
- * - Automatic 401 retry with token refresh
+ * - Automatic 401 retry with token refresh (single-flight across concurrent requests)
+ * - Retry with exponential backoff for transient failures (idempotent requests)
+ * - Per-call cancellation (AbortSignal) and timeouts
+ * - File upload / download with progress, on the same auth pipeline
+ * - Streamed responses (SSE / NDJSON) with reconnect
+ * - Optional offline outbox: mutations that fail offline are queued and replayed
+ * - Optional batching: GETs made together are sent as one batch request
  * - Standard ApiResponse<T> format handling
  * - Optional notification handler for error display
  */
@@ -20,46 +80,144 @@ export class ApiConnectionService {
 
     private host = ''; // base URL without trailing slash
 
+    /**
+     * App interceptors in registration order, then the built-ins: AuthInterceptor,
+     * and RetryInterceptor innermost (retries only re-send to the wire, never
+     * re-run the 401 refresh).
+     */
+    private readonly interceptors: ApiInterceptor[];
+
+    private readonly config: NgxClientConfig;
+    private readonly uploadSessions = createUploadSessionStore();
+    private readonly batcher: RequestBatcher<BatchedCall, ApiResponse<any>>;
+    /** The batch endpoint answered 404: send every call on its own from now on. */
+    private batchUnsupported = false;
+
     constructor(
         private tokens: TokenService,
         @Inject(MyEnvironmentModel) private environment: MyEnvironmentModel,
         private authService: AuthService,
-        @Optional() @Inject(NOTIFICATION_HANDLER) private notificationHandler: NotificationHandler | null
+        @Optional() @Inject(NOTIFICATION_HANDLER) private notificationHandler: NotificationHandler | null,
+        @Optional() @Inject(API_INTERCEPTORS) interceptors: ApiInterceptor[] | null = null,
+        @Optional() @Inject(NGX_CLIENT_CONFIG) clientConfig: NgxClientConfig | null = null,
+        private outbox: OutboxService
     ) {
         this.host = environment.apiServer.host;
+        this.config = clientConfig ?? DEFAULT_CLIENT_CONFIG;
+        this.interceptors = [
+            ...(interceptors ?? []),
+            new AuthInterceptor(tokens, authService),
+            new RetryInterceptor(this.config.retry)
+        ];
+        this.batcher = new RequestBatcher(
+            batchScheduler(this.config.batch.window),
+            this.config.batch.maxSize,
+            calls => this.dispatchBatch(calls)
+        );
     }
 
-    private async request<DataType>(url: string, options: any, data: any | null): Promise<ApiResponse<DataType>> {
+    private async request<DataType>(
+        url: string,
+        options: any,
+        data: any | null,
+        requestOptions: RequestOptions = {},
+        transfer: Transfer = {}
+    ): Promise<ApiResponse<DataType>> {
+        const method = options.method || 'GET';
+        const abort = createRequestAbortScope(
+            requestOptions.signal,
+            requestOptions.timeoutMs ?? this.environment.requestTimeoutMs
+        );
+        const silent = !!requestOptions.silent;
+        const queueable = method !== 'GET' && (requestOptions.outbox ?? this.config.outbox.enabled) &&
+            (data === null || !isRawBody(data));
+        // The replay must carry the same key as the first attempt. A generated key is
+        // only sent; unlike a caller's `idempotencyKey` it doesn't make POST / PATCH retryable.
+        const outboxKey = queueable ? requestOptions.idempotencyKey ?? newIdempotencyKey() : undefined;
+        let headers: Record<string, string> = {};
         try {
+            headers = { ...(options.headers ?? {}) };
             if (data !== null) {
-                const body = JSON.stringify(data);
-                options.body = body || {};
+                if (isRawBody(data)) {
+                    // FormData / Blob / binary: fetch sets the matching Content-Type
+                    // (multipart boundary included) unless the caller passes one.
+                    options.body = data;
+                    delete headers['Content-Type'];
+                } else {
+                    const body = JSON.stringify(data);
+                    options.body = body || {};
+                }
+            }
+            if (requestOptions.credentials) {
+                options.credentials = requestOptions.credentials;
             }
 
-            const accessTokenIncluded = this.includeAccessToken(options);
-
-            let response: Response = await fetch(url, options);
+            headers = { ...headers, ...(requestOptions.headers ?? {}) };
 
-            if (response.status === 401 && accessTokenIncluded) {
-                response = await this.refreshAndRetry(url, options, response);
-            }
+            const response = await this.send(transfer.transport ?? (req => fetch(req.url, req.init)), {
+                url,
+                method,
+                // Copied: interceptors add Authorization etc., which the outbox must not store.
+                init: { ...options, headers: { ...headers }, signal: abort.signal },
+                context: {
+                    [SKIP_AUTH]: !!requestOptions.skipAuth,
+                    [RETRY_OPTIONS]: {
+                        policy: requestOptions.retry,
+                        idempotencyKey: requestOptions.idempotencyKey,
+                        outboxKey
+                    } satisfies RequestRetryOptions
+                }
+            });
 
             if (response.ok) {
-                const json = await response.json();
-                return new ApiResponse<DataType>(json.status, json.data, json.message);
+                if (transfer.read) return await transfer.read(response);
+                return await this.readResponse<DataType>(response, requestOptions.responseType ?? 'json');
             }
 
-            if (response.status === 401) {
-                this.authService.clearSession();
+            return await this.handleError<DataType>(response, method, url, silent);
+        } catch (error) {
+            const kind = abort.abortKind();
+            if (kind) return this.abortedResponse<DataType>(kind, error, method, url);
+            if (queueable && isNetworkFailure(error)) {
+                const queued = await this.enqueue<DataType>(error, {
+                    method: method as OutboxEntry['method'],
+                    url,
+                    body: typeof options.body === 'string' ? options.body : null,
+                    headers,
+                    skipAuth: requestOptions.skipAuth,
+                    idempotencyKey: outboxKey!,
+                    createdAt: Date.now()
+                }, silent);
+                if (queued) return queued;
             }
+            return await this.handleError<DataType>(error, method, url, silent);
+        } finally {
+            abort.dispose();
+        }
+    }
 
-            return await this.handleError<DataType>(response, options.method || 'GET', url);
-        } catch (error) {
-            return await this.handleError<DataType>(error, options.method || 'GET', url);
+    /** Read a successful response: the JSON envelope, or the raw body as `data`. */
+    private async readResponse<DataType>(response: Response, responseType: ResponseType): Promise<ApiResponse<DataType>> {
+        switch (responseType) {
+            case 'text':
+                return new ApiResponse<DataType>('ok', await response.text() as DataType, '');
+            case 'blob':
+                return new ApiResponse<DataType>('ok', await response.blob() as DataType, '');
+            case 'arrayBuffer':
+                return new ApiResponse<DataType>('ok', await response.arrayBuffer() as DataType, '');
+            default: {
+                const json = await response.json();
+                return new ApiResponse<DataType>(json.status, json.data, json.message);
+            }
         }
     }
 
-    private async handleError<DataType>(error: any, method: string, requestUrl: string): Promise<ApiResponse<DataType>> {
+    /** Run a request through the interceptor chain and the transport (fetch, or XHR for uploads). */
+    private send(transport: (request: ApiRequest) => Promise<Response>, request: ApiRequest): Promise<Response> {
+        return runInterceptorChain(this.interceptors, request, transport);
+    }
+
+    private async handleError<DataType>(error: any, method: string, requestUrl: string, silent = false): Promise<ApiResponse<DataType>> {
         // Read response body for HTTP errors
         let responseBody: any = null;
         if (error instanceof Response) {
@@ -72,10 +230,12 @@ export class ApiConnectionService {
         }
 
         // Preserve error metadata for proper classification
-        const errorMetadata: any = {
+        const isNetworkError = isNetworkFailure(error);
+        const errorMetadata: ApiErrorMetadata = {
+            kind: isNetworkError ? 'network' : 'http',
             originalError: error,
             responseBody,
-            isNetworkError: !(error instanceof Response) && (error instanceof TypeError || !error.status),
+            isNetworkError,
             httpStatus: error instanceof Response ? error.status : (error.status || null),
             url: requestUrl || error.url || null,
             method: method || null
@@ -83,21 +243,90 @@ export class ApiConnectionService {
 
         const errorMessage = responseBody?.message || 'An error occurred';
 
-        // Notify via handler if provided
-        if (this.notificationHandler && errorMessage) {
+        // Notify via handler if provided (unless the caller expects this failure)
+        if (this.notificationHandler && errorMessage && !silent) {
             this.notificationHandler.error(errorMessage);
         }
 
-        return new ApiResponse<DataType>('error', errorMetadata, errorMessage);
+        return new ApiResponse<DataType>('error', errorMetadata as any, errorMessage);
+    }
+
+    /**
+     * Error response for a call aborted by its signal or timeout. The caller asked
+     * for (or configured) the abort, so no notification is shown.
+     */
+    private abortedResponse<DataType>(kind: AbortKind, error: unknown, method: string, requestUrl: string): ApiResponse<DataType> {
+        const errorMetadata: ApiErrorMetadata = {
+            kind,
+            originalError: error,
+            responseBody: null,
+            isNetworkError: false,
+            httpStatus: null,
+            url: requestUrl,
+            method
+        };
+        const message = kind === 'timeout' ? 'Request timed out' : 'Request cancelled';
+        return new ApiResponse<DataType>('error', errorMetadata as any, message);
+    }
+
+    /**
+     * Store a mutation that failed offline in the outbox (SPEC §5.8). Resolves to
+     * a `network` error response with `queued` set, or null if the outbox could
+     * not store it (the caller then reports the plain network error).
+     */
+    private async enqueue<DataType>(error: unknown, entry: OutboxEntry, silent: boolean): Promise<ApiResponse<DataType> | null> {
+        let id: number;
+        try {
+            id = await this.outbox.enqueue(entry);
+        } catch (e) {
+            console.error('[ApiConnectionService] Failed to queue the request for replay:', e);
+            return null;
+        }
+
+        const errorMetadata: ApiErrorMetadata = {
+            kind: 'network',
+            originalError: error,
+            responseBody: null,
+            isNetworkError: true,
+            httpStatus: null,
+            url: entry.url,
+            method: entry.method,
+            queued: id
+        };
+        const message = 'You are offline. The change will be sent when the connection is back.';
+        if (this.notificationHandler && !silent) {
+            this.notificationHandler.warn(message);
+        }
+        return new ApiResponse<DataType>('error', errorMetadata as any, message);
     }
 
-    async get<DataType>(endpoint: string, queryParamsObj?: any): Promise<ApiResponse<DataType>> {
-        const url = this.host + endpoint + this.buildQueryString(queryParamsObj);
+    /**
+     * Send a queued mutation again. Used by OutboxService during replay: silent,
+     * never re-queued, same idempotency key as the original attempt.
+     */
+    sendQueued<DataType>(entry: OutboxEntry): Promise<ApiResponse<DataType>> {
+        const fetchOptions: RequestInit = { method: entry.method, mode: 'cors', redirect: 'error', headers: entry.headers };
+        if (entry.body !== null) {
+            fetchOptions.body = entry.body;
+        }
+        return this.request(entry.url, fetchOptions, null, {
+            silent: true,
+            outbox: false,
+            skipAuth: entry.skipAuth,
+            idempotencyKey: entry.idempotencyKey
+        });
+    }
+
+    async get<DataType>(endpoint: string, queryParamsObj?: any, options?: RequestOptions): Promise<ApiResponse<DataType>> {
+        const path = endpoint + this.buildQueryString(queryParamsObj, options?.querySerialization);
+        if (this.isBatchable(options)) {
+            return this.batcher.add({ path, options: options ?? {} });
+        }
         const fetchOptions: RequestInit = { mode: 'cors', redirect: 'error' };
-        return this.request(url, fetchOptions, null);
+        return this.request(this.host + path, fetchOptions, null, options);
     }
 
-    async post<DataType>(pathWithQueryParams: string, data: any): Promise<ApiResponse<DataType>> {
+    async post<DataType>(pathWithQueryParams: string, data: any, options?: RequestOptions): Promise<ApiResponse<DataType>> {
         const url = this.host + pathWithQueryParams;
         const fetchOptions: RequestInit = {
             method: 'POST',
@@ -106,10 +335,10 @@ export class ApiConnectionService {
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(data)
         };
-        return this.request(url, fetchOptions, data);
+        return this.request(url, fetchOptions, data, options);
     }
 
-    async put<DataType>(pathWithQueryParams: string, data: any): Promise<ApiResponse<DataType>> {
+    async put<DataType>(pathWithQueryParams: string, data: any, options?: RequestOptions): Promise<ApiResponse<DataType>> {
         const url = this.host + pathWithQueryParams;
         const fetchOptions: RequestInit = {
             method: 'PUT',
@@ -118,10 +347,10 @@ export class ApiConnectionService {
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(data)
         };
-        return this.request(url, fetchOptions, data);
+        return this.request(url, fetchOptions, data, options);
     }
 
-    async patch<DataType>(pathWithQueryParams: string, data: any): Promise<ApiResponse<DataType>> {
+    async patch<DataType>(pathWithQueryParams: string, data: any, options?: RequestOptions): Promise<ApiResponse<DataType>> {
         const url = this.host + pathWithQueryParams;
         const fetchOptions: RequestInit = {
             method: 'PATCH',
@@ -130,47 +359,285 @@ export class ApiConnectionService {
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(data)
         };
-        return this.request(url, fetchOptions, data);
+        return this.request(url, fetchOptions, data, options);
     }
 
-    async delete<DataType>(endpoint: string, queryParamsObj?: any): Promise<ApiResponse<DataType>> {
-        const url = this.host + endpoint + this.buildQueryString(queryParamsObj);
+    async delete<DataType>(endpoint: string, queryParamsObj?: any, options?: RequestOptions): Promise<ApiResponse<DataType>> {
+        const url = this.host + endpoint + this.buildQueryString(queryParamsObj, options?.querySerialization);
         const fetchOptions: RequestInit = { method: 'DELETE', mode: 'cors', redirect: 'error' };
-        return this.request(url, fetchOptions, null);
-    }
-
-    private includeAccessToken(options: any): boolean {
-        const accessToken = this.tokens.getAccessToken();
-        if (!accessToken) return false;
-        if (!options.headers) options.headers = {};
-        options.headers['Authorization'] = 'Bearer ' + accessToken;
-        return true;
-    }
-
-    private async refreshAndRetry(url: string, fetchOptions: any, response: Response): Promise<Response> {
-        // Step 1: Refresh identity token (AUTH-SPEC §4a session continuity)
-        const refreshed = await this.authService.refresh();
-        if (!refreshed) return response;
-
-        // Step 2: Exchange fresh identity token for platform JWT.
-        // Auth-SPEC §4a: "refresh → exchange → retry".
-        // Non-fatal: if exchange fails (builtin-auth mode, no tenant yet, or
-        // exchange endpoint not configured), we fall through and retry with
-        // whatever access token is current (identity JWT). The caller's 401
-        // handler will deal with the result.
-        const exchangeResult = await this.authService.exchangeToken();
-        if (!exchangeResult.success) {
-            // Exchange failed — log at debug level; retry may still succeed in
-            // builtin-auth mode where the refreshed identity JWT IS the platform JWT.
-            if (typeof console !== 'undefined') {
-                console.debug('[ApiConnectionService] Token exchange after refresh failed:', exchangeResult.message);
+        return this.request(url, fetchOptions, null, options);
+    }
+
+    /**
+     * Upload files as multipart/form-data, with progress (SPEC §5.4). Same Bearer
+     * injection, 401 refresh-and-retry, cancellation and timeout as the other
+     * verbs; the response is read as the usual JSON envelope unless
+     * `responseType` says otherwise.
+     *
+     * @example
+     * ```typescript
+     * await api.upload<Attachment>('/attachments', { file, note: 'Invoice' }, {
+     *   onProgress: p => this.progress.set(p.fraction ?? 0),
+     *   signal: this.cancel.signal
+     * });
+     * ```
+     */
+    async upload<DataType>(pathWithQueryParams: string, body: UploadBody, options: UploadOptions = {}): Promise<ApiResponse<DataType>> {
+        const url = this.host + pathWithQueryParams;
+        const fetchOptions: RequestInit = { method: options.method ?? 'POST', mode: 'cors', redirect: 'error' };
+        return this.request(url, fetchOptions, toFormData(body, options.fieldName), options, {
+            transport: xhrTransport(options.onProgress)
+        });
+    }
+
+    /**
+     * Download a file as a Blob, with the filename from `Content-Disposition` and
+     * progress (SPEC §5.4). Same auth pipeline as `get`; errors come back as the
+     * usual error `ApiResponse`.
+     *
+     * @example
+     * ```typescript
+     * const result = await api.download(`/invoices/${id}/pdf`);
+     * if (result.status === 'ok') saveAs(result.data.blob, result.data.filename ?? 'invoice.pdf');
+     * ```
+     */
+    async download(endpoint: string, queryParamsObj?: any, options: DownloadOptions = {}): Promise<ApiResponse<DownloadedFile>> {
+        const url = this.host + endpoint + this.buildQueryString(queryParamsObj, options.querySerialization);
+        const fetchOptions: RequestInit = { mode: 'cors', redirect: 'error' };
+        return this.request(url, fetchOptions, null, options, {
+            read: async response => new ApiResponse<DownloadedFile>('ok', {
+                blob: await readBodyWithProgress(response, options.onProgress),
+                filename: parseContentDispositionFilename(response.headers.get('Content-Disposition')),
+                contentType: response.headers.get('Content-Type')
+            }, '')
+        });
+    }
+
+    /**
+     * Upload a large file in chunks that survive dropped connections, reloads and
+     * token refreshes (SPEC §5.4.1). Progress is saved after every chunk; starting
+     * the same file to the same path again resumes it. Chunks go through the
+     * usual pipeline, and a single failure is reported once at the end.
+     *
+     * @example
+     * ```typescript
+     * const upload = api.uploadChunked<Drawing>('/drawings/uploads', file, { metadata: { project_id: '42' } });
+     * // template: {{ upload.progress().fraction | percent }}
+     * const result = await upload.result;
+     * ```
+     */
+    uploadChunked<DataType>(path: string, file: Blob, options: ChunkedUploadOptions = {}): ChunkedUpload<DataType> {
+        const controller = new AbortController();
+        const external = options.signal;
+        if (external?.aborted) controller.abort(external.reason);
+        external?.addEventListener('abort', () => controller.abort(external.reason), { once: true });
+
+        const stepOptions = {
+            headers: options.headers,
+            skipAuth: options.skipAuth,
+            credentials: options.credentials,
+            signal: controller.signal
+        };
+        const protocol = typeof options.protocol === 'object'
+            ? options.protocol
+            : options.protocol === 'tus'
+                ? new TusUploadProtocol<unknown>(this, path, { ...stepOptions, commitPath: options.commitPath })
+                : new StoneScriptPhpUploadProtocol<unknown>(this, path, stepOptions);
+
+        const name = (file as File).name ?? 'blob';
+        const progress = signal<TransferProgress>(toProgress(0, file.size));
+        const status = signal<ChunkedUploadStatus>('uploading');
+
+        const result = runChunkedUpload({
+            protocol,
+            store: this.uploadSessions,
+            file,
+            info: {
+                name,
+                size: file.size,
+                type: file.type || 'application/octet-stream',
+                chunkSize: options.chunkSize ?? this.config.upload.chunkSize,
+                metadata: options.metadata ?? {}
+            },
+            fingerprint: uploadFingerprint(path, { name, size: file.size, lastModified: (file as File).lastModified }),
+            concurrency: options.concurrency ?? this.config.upload.concurrency,
+            signal: controller.signal,
+            onProgress: (loaded, total) => progress.set(toProgress(loaded, total)),
+            onCommit: () => status.set('committing')
+        }).then(
+            data => {
+                status.set('done');
+                return new ApiResponse<DataType>('ok', data as DataType, '');
+            },
+            error => {
+                if (controller.signal.aborted) {
+                    status.set('cancelled');
+                    return this.abortedResponse<DataType>('cancelled', error, 'PUT', this.host + path);
+                }
+                status.set('failed');
+                const response: ApiResponse<DataType> = error instanceof ApiResponse
+                    ? error as ApiResponse<DataType>
+                    : new ApiResponse<DataType>('error', null as any, error?.message || 'Upload failed');
+                if (this.notificationHandler && !options.silent) {
+                    this.notificationHandler.error(response.message || 'Upload failed');
+                }
+                return response;
             }
+        );
+
+        return {
+            progress: progress.asReadonly(),
+            status: status.asReadonly(),
+            result,
+            cancel: () => controller.abort()
+        };
+    }
+
+    /**
+     * Open a Server-Sent Events or NDJSON stream (SPEC §5.9). Connects on
+     * subscribe and disconnects on unsubscribe. A 401 refreshes the session and
+     * reconnects; an SSE stream that drops reconnects with `Last-Event-ID`.
+     *
+     * @example
+     * ```typescript
+     * api.stream<JobProgress>(`/jobs/${id}/events`)
+     *   .pipe(takeUntilDestroyed())
+     *   .subscribe(({ data }) => this.progress.set(data.percent));
+     * ```
+     */
+    stream<T = unknown>(endpoint: string, queryParamsObj?: any, options: StreamOptions<T> = {}): Observable<StreamEvent<T>> {
+        const path = endpoint + this.buildQueryString(queryParamsObj, options.querySerialization);
+        const format = options.format ?? 'sse';
+        const hasBody = options.method === 'POST' && options.body !== undefined;
+
+        return createEventStream<T>(
+            (lastEventId, signal) => this.requestRaw<Response | null>(
+                options.method ?? 'GET',
+                path,
+                hasBody ? JSON.stringify(options.body) : null,
+                async response => response.status === 204 ? null : response,
+                {
+                    headers: {
+                        Accept: format === 'sse' ? 'text/event-stream' : 'application/x-ndjson',
+                        ...(hasBody ? { 'Content-Type': 'application/json' } : {}),
+                        ...(options.headers ?? {}),
+                        ...(lastEventId !== null ? { 'Last-Event-ID': lastEventId } : {})
+                    },
+                    skipAuth: options.skipAuth,
+                    credentials: options.credentials,
+                    timeoutMs: options.timeoutMs,
+                    signal,
+                    // The stream reconnects itself and reports one failure at the end.
+                    retry: false,
+                    silent: true
+                }
+            ),
+            options,
+            response => {
+                if (this.notificationHandler && !options.silent) {
+                    this.notificationHandler.error(response.message || 'Stream failed');
+                }
+            }
+        );
+    }
+
+    /**
+     * Low-level call for protocols that need response headers or the raw body
+     * (chunked uploads, streams): `body` is sent as-is through the pipeline and a
+     * successful response is read with `read`. `pathOrUrl` may be absolute.
+     */
+    async requestRaw<DataType>(
+        method: string,
+        pathOrUrl: string,
+        body: BodyInit | null,
+        read: (response: Response) => Promise<DataType>,
+        options: RequestOptions & { onUploadProgress?: (progress: TransferProgress) => void } = {}
+    ): Promise<ApiResponse<DataType>> {
+        const url = /^https?:\/\//i.test(pathOrUrl) ? pathOrUrl : this.host + pathOrUrl;
+        const fetchOptions: RequestInit = { method, mode: 'cors', redirect: 'error' };
+        if (body !== null) {
+            fetchOptions.body = body;
         }
+        return this.request(url, fetchOptions, null, { ...options, outbox: false }, {
+            transport: options.onUploadProgress ? xhrTransport(options.onUploadProgress) : undefined,
+            read: async response => new ApiResponse<DataType>('ok', await read(response), '')
+        });
+    }
 
-        // Step 3: Retry with the latest token (platform JWT if exchange succeeded,
-        // identity JWT otherwise)
-        fetchOptions.headers['Authorization'] = 'Bearer ' + this.tokens.getAccessToken();
-        return fetch(url, fetchOptions);
+    // ── Batching (SPEC §5.11) ───────────────────────────────────────────────
+
+    private isBatchable(options: RequestOptions = {}): boolean {
+        if (this.batchUnsupported || !(options.batch ?? this.config.batch.enabled)) return false;
+        return canJoinBatch(options);
+    }
+
+    /**
+     * Send queued GETs as one POST to the batch endpoint and split the result.
+     * A 404 turns batching off and sends the calls individually; so are calls
+     * the response leaves out, and calls that came back 401 (so they get the
+     * refresh-and-retry).
+     */
+    private async dispatchBatch(calls: BatchedCall[]): Promise<ApiResponse<any>[]> {
+        if (calls.length === 1 || this.batchUnsupported) {
+            return Promise.all(calls.map(call => this.sendUnbatched(call)));
+        }
+
+        const { endpoint } = this.config.batch;
+        const requests: BatchRequestItem[] = calls.map((call, i) => ({ id: String(i), method: 'GET', url: call.path }));
+        const response = await this.post<unknown>(endpoint, { requests }, {
+            silent: true,
+            outbox: false,
+            // Every item is a GET, so the batch POST is safe to retry.
+            idempotencyKey: newIdempotencyKey()
+        });
+
+        const resolution = resolveBatchResponse(requests.map(request => request.id), response);
+        if (resolution.type === 'unsupported') {
+            console.warn(`[ApiConnectionService] Batch endpoint ${endpoint} not found; sending requests individually`);
+            this.batchUnsupported = true;
+            return Promise.all(calls.map(call => this.sendUnbatched(call)));
+        }
+        if (resolution.type === 'failed') {
+            // One failure for the whole batch: notify once, not per call.
+            const meta = response.data as Partial<ApiErrorMetadata> | null;
+            const reportable = meta?.kind === 'http' || meta?.kind === 'network';
+            if (this.notificationHandler && reportable && !calls.every(call => call.options.silent)) {
+                this.notificationHandler.error(response.message || 'An error occurred');
+            }
+            return calls.map(() => response);
+        }
+
+        return Promise.all(resolution.items.map((item, i) => item
+            ? this.batchItemResponse(item, calls[i])
+            : this.sendUnbatched(calls[i])));
+    }
+
+    private sendUnbatched(call: BatchedCall): Promise<ApiResponse<any>> {
+        const fetchOptions: RequestInit = { mode: 'cors', redirect: 'error' };
+        return this.request(this.host + call.path, fetchOptions, null, call.options);
+    }
+
+    /** One call's result, as if it had been sent on its own. */
+    private async batchItemResponse(item: BatchResponseItem, call: BatchedCall): Promise<ApiResponse<any>> {
+        const body = item.body ?? null;
+        if (item.status >= 200 && item.status < 300) {
+            return new ApiResponse<any>(body?.status, body?.data, body?.message);
+        }
+
+        const errorMetadata: ApiErrorMetadata = {
+            kind: 'http',
+            originalError: null,
+            responseBody: body,
+            isNetworkError: false,
+            httpStatus: item.status,
+            url: this.host + call.path,
+            method: 'GET'
+        };
+        const errorMessage = body?.message || 'An error occurred';
+        if (this.notificationHandler && !call.options.silent) {
+            this.notificationHandler.error(errorMessage);
+        }
+        return new ApiResponse<any>('error', errorMetadata as any, errorMessage);
     }
 
     /**
@@ -181,29 +648,30 @@ export class ApiConnectionService {
         return this.authService.refresh();
     }
 
-    buildQueryString(options?: any): string {
-        if (options === undefined || options === null) return '';
-        const array: string[] = [];
-        for (const key in options) {
-            if (options.hasOwnProperty(key) && options[key] !== null && options[key] !== undefined) {
-                const value = options[key];
-                if (typeof value === 'object' && !Array.isArray(value)) {
-                    // Flatten nested objects into top-level params.
-                    // e.g. { filters: { status: 'active', item_form_id: 5 } }
-                    //   → status=active&item_form_id=5
-                    // This prevents passing { filters: {...} } from producing
-                    // "filters=%5Bobject%20Object%5D" in the URL.
-                    for (const innerKey in value) {
-                        if (value.hasOwnProperty(innerKey) && value[innerKey] !== null && value[innerKey] !== undefined) {
-                            array.push(encodeURIComponent(innerKey) + '=' + encodeURIComponent(value[innerKey]));
-                        }
-                    }
-                } else {
-                    array.push(encodeURIComponent(key) + '=' + encodeURIComponent(value));
-                }
-            }
-        }
-        const str = array.join('&');
-        return str ? '?' + str : '';
+    /** Serialize query params (SPEC §5.2); `mode` defaults to the client option `querySerialization`. */
+    buildQueryString(options?: any, mode?: QuerySerialization): string {
+        return serializeQuery(options, mode ?? this.config.querySerialization);
+    }
+}
+
+/** Bodies fetch() sends as-is instead of JSON-encoding them. */
+function isRawBody(data: unknown): data is BodyInit {
+    return (typeof FormData !== 'undefined' && data instanceof FormData) ||
+        (typeof Blob !== 'undefined' && data instanceof Blob) ||
+        (typeof URLSearchParams !== 'undefined' && data instanceof URLSearchParams) ||
+        data instanceof ArrayBuffer ||
+        ArrayBuffer.isView(data);
+}
+
+/** fetch() rejected without a response: offline, DNS, CORS. */
+function isNetworkFailure(error: any): boolean {
+    return !(error instanceof Response) && (error instanceof TypeError || !error.status);
+}
+
+/** Random idempotency key for a queueable mutation. */
+function newIdempotencyKey(): string {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
     }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
 }
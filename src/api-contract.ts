@@ -0,0 +1,114 @@
+/**
+ * Typed endpoint contracts (SPEC §5.5).
+ *
+ * An endpoint is declared once — method, path template, and the query, body and
+ * response types — and `createApiClient` turns a map of them into typed call
+ * functions on top of ApiConnectionService. Path templates use the StoneScriptPHP
+ * `routes.php` syntax (`/projects/{id}`); the `{id}` segments become a required,
+ * typed `params` argument.
+ *
+ * Contracts can be hand-written or generated from the backend's route manifest
+ * with the `stonescriptphp-contracts` CLI.
+ */
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Type carrier for {@link defineEndpoint}: `typed<Project>()` records the type
+ * `Project` in the definition. The runtime value is always `undefined`.
+ */
+export function typed<T>(): T {
+    return undefined as T;
+}
+
+/**
+ * One endpoint. `query`, `body` and `response` are type carriers (see
+ * {@link typed}); omitted ones mean "none".
+ */
+export interface EndpointDefinition<
+    M extends HttpMethod = HttpMethod,
+    P extends string = string,
+    Q = undefined,
+    B = undefined,
+    R = unknown
+> {
+    method: M;
+    /** Path template relative to `apiServer.host`, e.g. `/projects/{id}`. */
+    path: P;
+    query?: Q;
+    body?: B;
+    response?: R;
+}
+
+/**
+ * Declare an endpoint, inferring every type from one object literal.
+ *
+ * @example
+ * ```typescript
+ * export const contracts = {
+ *   listProjects: defineEndpoint({
+ *     method: 'GET', path: '/projects',
+ *     query: typed<{ status?: 'active' | 'archived' }>(),
+ *     response: typed<Project[]>()
+ *   }),
+ *   updateProject: defineEndpoint({
+ *     method: 'PUT', path: '/projects/{id}',
+ *     body: typed<UpdateProjectRequest>(),
+ *     response: typed<Project>()
+ *   })
+ * };
+ * ```
+ */
+export function defineEndpoint<
+    M extends HttpMethod,
+    P extends string,
+    Q = undefined,
+    B = undefined,
+    R = unknown
+>(definition: EndpointDefinition<M, P, Q, B, R>): EndpointDefinition<M, P, Q, B, R> {
+    return definition;
+}
+
+/** `'/projects/{id}/notes/{noteId}'` → `'id' | 'noteId'`. */
+export type PathParamNames<P extends string> =
+    P extends `${string}{${infer Name}}${infer Rest}` ? Name | PathParamNames<Rest> : never;
+
+/** Values for a path template's `{param}` segments. */
+export type PathParams<P extends string> = { [K in PathParamNames<P>]: string | number };
+
+type ParamsArg<P extends string> =
+    [PathParamNames<P>] extends [never] ? { params?: undefined } : { params: PathParams<P> };
+type QueryArg<Q> = [Q] extends [undefined] ? { query?: undefined } : { query?: Q };
+type BodyArg<B> = [B] extends [undefined] ? { body?: undefined } : { body: B };
+
+/**
+ * Argument object of a contract call — `params` required when the path has
+ * `{param}` segments, `body` required when the endpoint declares one. `Options`
+ * is the per-call options type (`RequestOptions` in the client).
+ */
+export type EndpointArgs<E, Options = unknown> =
+    E extends EndpointDefinition<any, infer P, infer Q, infer B, any>
+        ? ParamsArg<P> & QueryArg<Q> & BodyArg<B> & { options?: Options }
+        : never;
+
+/** Declared response type of an endpoint. */
+export type EndpointResponse<E> = E extends EndpointDefinition<any, any, any, any, infer R> ? R : never;
+
+/** A map of named endpoint definitions, as passed to `createApiClient`. */
+export type EndpointMap = Record<string, EndpointDefinition<HttpMethod, string, any, any, any>>;
+
+/**
+ * Fill a path template's `{param}` segments (URL-encoded).
+ *
+ * @throws Error when a segment has no value — a bug in the caller, not a
+ *         request failure, so it is not turned into an ApiResponse.
+ */
+export function resolvePath(template: string, params?: Record<string, string | number> | null): string {
+    return template.replace(/\{(\w+)\}/g, (_, name: string) => {
+        const value = params?.[name];
+        if (value === undefined || value === null) {
+            throw new Error(`Missing path param "${name}" for ${template}`);
+        }
+        return encodeURIComponent(String(value));
+    });
+}
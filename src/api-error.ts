@@ -0,0 +1,51 @@
+/**
+ * Classification of failed ApiConnectionService calls (SPEC §5.3).
+ *
+ * A failed call resolves to `ApiResponse` with status `'error'` and an
+ * {@link ApiErrorMetadata} object as its `data`.
+ */
+import type { ApiResponse } from '@progalaxyelabs/stonescriptphp-client-core';
+
+/**
+ * - `http`      — the server answered with a non-2xx status (`httpStatus` set)
+ * - `network`   — fetch() rejected: offline, DNS, CORS
+ * - `cancelled` — the caller's `AbortSignal` fired; no notification is shown
+ * - `timeout`   — the call exceeded its timeout; no notification is shown
+ */
+export type ApiErrorKind = 'http' | 'network' | 'cancelled' | 'timeout';
+
+/** `data` of an error `ApiResponse` built by ApiConnectionService. */
+export interface ApiErrorMetadata {
+    kind: ApiErrorKind;
+    originalError: unknown;
+    /** Parsed JSON error body (HTTP errors only). */
+    responseBody: any;
+    /** True for `network` errors only — cancellations and timeouts are not network errors. */
+    isNetworkError: boolean;
+    httpStatus: number | null;
+    url: string | null;
+    method: string | null;
+    /** Outbox entry id when the failed mutation was queued for replay (SPEC §5.8). */
+    queued?: number;
+}
+
+/** The error kind of `response`, or null when it is not an ApiConnectionService error. */
+export function getApiErrorKind(response: ApiResponse<unknown>): ApiErrorKind | null {
+    if (response.status !== 'error') return null;
+    return (response.data as Partial<ApiErrorMetadata> | null)?.kind ?? null;
+}
+
+/** True when the call was aborted through its `signal` option. */
+export function isCancelledResponse(response: ApiResponse<unknown>): boolean {
+    return getApiErrorKind(response) === 'cancelled';
+}
+
+/** True when the call exceeded its timeout. */
+export function isTimeoutResponse(response: ApiResponse<unknown>): boolean {
+    return getApiErrorKind(response) === 'timeout';
+}
+
+/** True when the failed mutation was stored in the offline outbox for replay (SPEC §5.8). */
+export function isQueuedResponse(response: ApiResponse<unknown>): boolean {
+    return getApiErrorKind(response) === 'network' && (response.data as ApiErrorMetadata).queued != null;
+}
@@ -0,0 +1,111 @@
+/**
+ * Interceptor pipeline for ApiConnectionService (SPEC §5.2).
+ *
+ * Cross-cutting request concerns — correlation IDs, tenant / locale headers,
+ * request signing, response unwrapping — plug in here instead of wrapping
+ * ApiConnectionService. The library's own Bearer injection, 401
+ * refresh-and-retry (`AuthInterceptor`) and transient-failure retry
+ * (`RetryInterceptor`) run on the same chain, after the app interceptors.
+ *
+ * The chain is an onion: `onRequest` hooks run in registration order, the fetch
+ * happens, then `onResponse` / `onError` hooks run in reverse order.
+ */
+import { InjectionToken } from '@angular/core';
+
+/** An outgoing request as seen by the interceptors. Hooks may mutate it or return a replacement. */
+export interface ApiRequest {
+    /** Absolute URL including the query string. */
+    url: string;
+    /** Upper-case HTTP method. */
+    method: string;
+    /** fetch() init; `headers` is always a plain object so hooks can set keys directly. */
+    init: RequestInit & { headers: Record<string, string> };
+    /** Per-request scratch space shared by the interceptors (e.g. retry markers). */
+    context: Record<string, unknown>;
+}
+
+/** Passed to response / error hooks. */
+export interface ApiInterceptorChain {
+    /**
+     * Send `request` again from this interceptor inward — this interceptor's and
+     * the inner ones' hooks run again; the outer ones see only the final result.
+     * The retried response is already processed, so returning it from `onError`
+     * skips this interceptor's `onResponse`.
+     */
+    retry(request: ApiRequest): Promise<Response>;
+}
+
+/**
+ * A link in the chain. Every hook is optional.
+ *
+ * @example Correlation ID header
+ * ```typescript
+ * @Injectable()
+ * export class CorrelationIdInterceptor implements ApiInterceptor {
+ *   onRequest(request: ApiRequest) {
+ *     request.init.headers['X-Correlation-Id'] = crypto.randomUUID();
+ *   }
+ * }
+ *
+ * provideNgxStoneScriptPhpClient(environment, undefined, undefined, {
+ *   interceptors: [CorrelationIdInterceptor]
+ * });
+ * ```
+ */
+export interface ApiInterceptor {
+    /** Adjust the outgoing request (headers, URL, body). */
+    onRequest?(request: ApiRequest): ApiRequest | void | Promise<ApiRequest | void>;
+    /** Inspect or replace the response; may re-send via `chain.retry()`. */
+    onResponse?(response: Response, request: ApiRequest, chain: ApiInterceptorChain): Response | Promise<Response>;
+    /** Transport failure (fetch rejected). Return a Response to recover, or rethrow. */
+    onError?(error: unknown, request: ApiRequest, chain: ApiInterceptorChain): Response | Promise<Response>;
+}
+
+/**
+ * Multi-provider token for app interceptors. Registered in order via the
+ * `interceptors` option of `provideNgxStoneScriptPhpClient`'s 4th arg, or directly
+ * with `{ provide: API_INTERCEPTORS, useClass: X, multi: true }`.
+ */
+export const API_INTERCEPTORS = new InjectionToken<ApiInterceptor[]>('API_INTERCEPTORS');
+
+/**
+ * Run `request` through `interceptors` (outermost first) and `transport`.
+ */
+export function runInterceptorChain(
+    interceptors: readonly ApiInterceptor[],
+    request: ApiRequest,
+    transport: (request: ApiRequest) => Promise<Response>
+): Promise<Response> {
+    const handle = async (index: number, req: ApiRequest): Promise<Response> => {
+        if (index >= interceptors.length) {
+            return transport(req);
+        }
+
+        const interceptor = interceptors[index];
+        const retried = new WeakSet<Response>();
+        const chain: ApiInterceptorChain = {
+            retry: async next => {
+                const response = await handle(index, next);
+                retried.add(response);
+                return response;
+            }
+        };
+
+        if (interceptor.onRequest) {
+            req = (await interceptor.onRequest(req)) ?? req;
+        }
+
+        let response: Response;
+        try {
+            response = await handle(index + 1, req);
+        } catch (error) {
+            if (!interceptor.onError) throw error;
+            response = await interceptor.onError(error, req, chain);
+        }
+
+        if (!interceptor.onResponse || retried.has(response)) return response;
+        return interceptor.onResponse(response, req, chain);
+    };
+
+    return handle(0, request);
+}
@@ -0,0 +1,112 @@
+import { TestBed } from '@angular/core/testing';
+import { ApiResponse } from '@progalaxyelabs/stonescriptphp-client-core';
+import { createApiMutation } from './api-mutation';
+import { ApiQueryClient } from './api-query';
+import { ApiConnectionService } from './api-connection.service';
+
+// ── Mutations (SPEC §5.7) ────────────────────────────────────────────────────
+
+describe('createApiMutation', () => {
+  let api: jasmine.SpyObj<any>;
+  let queries: jasmine.SpyObj<any>;
+  let undo: jasmine.Spy;
+
+  beforeEach(() => {
+    api = jasmine.createSpyObj('ApiConnectionService', ['post', 'put', 'patch', 'delete']);
+    undo = jasmine.createSpy('undo');
+    queries = jasmine.createSpyObj('ApiQueryClient', ['patchQueryData', 'invalidate']);
+    queries.patchQueryData.and.returnValue(undo);
+    queries.invalidate.and.resolveTo();
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: ApiConnectionService, useValue: api },
+        { provide: ApiQueryClient, useValue: queries },
+      ],
+    });
+  });
+
+  function create(options: any) {
+    return TestBed.runInInjectionContext(() => createApiMutation<any, any>(options));
+  }
+
+  it('sends the variables to the built path and tracks pending / data', async () => {
+    let resolve!: (r: ApiResponse<any>) => void;
+    api.patch.and.returnValue(new Promise(r => resolve = r));
+    const mutation = create({ method: 'PATCH', path: (v: any) => `/projects/${v.id}`, body: (v: any) => ({ name: v.name }) });
+
+    const pending = mutation.mutate({ id: 7, name: 'n' });
+    expect(mutation.pending()).toBeTrue();
+    expect(api.patch).toHaveBeenCalledWith('/projects/7', { name: 'n' }, undefined);
+
+    resolve(new ApiResponse<any>('ok', { id: 7 }, ''));
+    await pending;
+
+    expect(mutation.pending()).toBeFalse();
+    expect(mutation.data()).toEqual({ id: 7 });
+  });
+
+  it('applies optimistic updates and invalidates on success', async () => {
+    api.post.and.resolveTo(new ApiResponse<any>('ok', { id: 1 }, ''));
+    const mutation = create({
+      method: 'POST',
+      path: '/projects',
+      optimistic: [{ key: ['projects'], update: (list: any[] = [], v: any) => [...list, v] }],
+      invalidate: [['projects']],
+    });
+
+    await mutation.mutate({ name: 'new' });
+
+    expect(queries.patchQueryData).toHaveBeenCalledWith(['projects'], jasmine.any(Function));
+    expect(queries.invalidate).toHaveBeenCalledWith(['projects']);
+    expect(undo).not.toHaveBeenCalled();
+  });
+
+  it('rolls back and records the error when the response is an error', async () => {
+    const failure = new ApiResponse<any>('error', { kind: 'http', httpStatus: 500 }, 'boom');
+    api.delete.and.resolveTo(failure);
+    const mutation = create({
+      method: 'DELETE',
+      path: (v: any) => `/projects/${v.id}`,
+      optimistic: [{ key: ['projects'], update: (list: any[] = []) => list }],
+      invalidate: [['projects']],
+    });
+
+    const response = await mutation.mutate({ id: 3 });
+
+    expect(response).toBe(failure);
+    expect(undo).toHaveBeenCalledTimes(1);
+    expect(queries.invalidate).not.toHaveBeenCalled();
+    expect(mutation.error()).toBe(failure);
+  });
+
+  it('keeps the optimistic patches and sets queued when the outbox queues the call', async () => {
+    const queuedResponse = new ApiResponse<any>('error', { kind: 'network', isNetworkError: true, queued: 4 }, 'offline');
+    api.post.and.resolveTo(queuedResponse);
+    const mutation = create({
+      method: 'POST',
+      path: '/projects',
+      optimistic: [{ key: ['projects'], update: (list: any[] = [], v: any) => [...list, v] }],
+    });
+
+    await mutation.mutate({ name: 'offline' });
+
+    expect(undo).not.toHaveBeenCalled();
+    expect(mutation.queued()).toBeTrue();
+    expect(mutation.error()).toBeNull();
+  });
+
+  it('rolls back when sending throws', async () => {
+    api.put.and.rejectWith(new Error('interceptor failed'));
+    const mutation = create({
+      method: 'PUT',
+      path: '/projects/3',
+      optimistic: [{ key: ['projects'], update: (list: any[] = []) => list }],
+    });
+
+    await expectAsync(mutation.mutate({ id: 3 })).toBeRejectedWithError('interceptor failed');
+
+    expect(undo).toHaveBeenCalledTimes(1);
+    expect(mutation.pending()).toBeFalse();
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Mutation helper over ApiConnectionService `post` / `put` / `patch` / `delete`
+ * (SPEC §5.7).
+ *
+ * Tracks `pending` / `queued` / `error` / `data` signals, applies optimistic
+ * updates to the query cache (§5.6) and rolls them back when the call fails, and
+ * invalidates the declared query keys on success. A call the offline outbox
+ * (§5.8) queued is not a failure: its patches stay until the replay.
+ *
+ * Error notifications are left to ApiConnectionService — the helper never calls
+ * the NotificationHandler itself, so a failure is reported once. Pass
+ * `options: { silent: true }` to report it in the form instead.
+ */
+import { Signal, computed, inject, signal } from '@angular/core';
+import { ApiResponse } from '@progalaxyelabs/stonescriptphp-client-core';
+import { ApiConnectionService } from './api-connection.service';
+import { ApiQueryClient } from './api-query';
+import { RequestOptions } from './request-options';
+import { QueryKey } from './query-key';
+import { withOptimisticPatches } from './mutation';
+
+/** Optimistic change to cached query data, applied before the request is sent. */
+export interface OptimisticUpdate<TVars, T = any> {
+    /** Entries under this key prefix (current tenant) are patched. */
+    key: QueryKey | ((variables: TVars) => QueryKey);
+    /** New cached data; `current` is undefined when nothing was fetched yet. */
+    update: (current: T | undefined, variables: TVars) => T;
+}
+
+export interface ApiMutationOptions<TData, TVars> {
+    method: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+    /** Path relative to `apiServer.host`, or built from the variables. */
+    path: string | ((variables: TVars) => string);
+    /** Request body for POST / PUT / PATCH. @default the variables */
+    body?: (variables: TVars) => any;
+    /** Query params for DELETE. */
+    params?: (variables: TVars) => Record<string, any> | undefined;
+    /** Per-call options for the request. */
+    options?: RequestOptions;
+    /** Cache patches applied immediately and rolled back if the call fails. */
+    optimistic?: OptimisticUpdate<TVars>[];
+    /** Query key prefixes invalidated (and refetched if mounted) after a success. */
+    invalidate?: QueryKey[] | ((data: TData, variables: TVars) => QueryKey[]);
+}
+
+export interface ApiMutation<TData, TVars> {
+    /** Send the request. Resolves with the ApiResponse — never rejects on API errors. */
+    mutate(variables: TVars): Promise<ApiResponse<TData>>;
+    /** True while at least one call is in flight. */
+    readonly pending: Signal<boolean>;
+    /**
+     * True when the last call was queued in the offline outbox (SPEC §5.8); it is
+     * sent again on replay. Cleared when a call starts.
+     */
+    readonly queued: Signal<boolean>;
+    /** Error response of the last failed call; cleared when a call starts. */
+    readonly error: Signal<ApiResponse<TData> | null>;
+    /** Data of the last successful call. */
+    readonly data: Signal<TData | undefined>;
+    /** Clear `error` and `data`. */
+    reset(): void;
+}
+
+/**
+ * Create a mutation. Call in an injection context (field initializer or
+ * constructor).
+ *
+ * @example
+ * ```typescript
+ * rename = createApiMutation<Project, { id: number; name: string }>({
+ *   method: 'PATCH',
+ *   path: v => `/projects/${v.id}`,
+ *   body: v => ({ name: v.name }),
+ *   optimistic: [{
+ *     key: ['projects'],
+ *     update: (list: Project[] | undefined, v) => list?.map(p => p.id === v.id ? { ...p, name: v.name } : p) ?? []
+ *   }],
+ *   invalidate: [['projects']]
+ * });
+ *
+ * await this.rename.mutate({ id: 7, name: 'Renamed' });
+ * ```
+ */
+export function createApiMutation<TData = unknown, TVars = void>(
+    options: ApiMutationOptions<TData, TVars>
+): ApiMutation<TData, TVars> {
+    const api = inject(ApiConnectionService);
+    const queries = inject(ApiQueryClient);
+
+    const inFlight = signal(0);
+    const error = signal<ApiResponse<TData> | null>(null);
+    const queued = signal(false);
+    const data = signal<TData | undefined>(undefined);
+
+    const send = (variables: TVars): Promise<ApiResponse<TData>> => {
+        const path = typeof options.path === 'function' ? options.path(variables) : options.path;
+        const body = options.body ? options.body(variables) : variables;
+        switch (options.method) {
+            case 'POST': return api.post<TData>(path, body, options.options);
+            case 'PUT': return api.put<TData>(path, body, options.options);
+            case 'PATCH': return api.patch<TData>(path, body, options.options);
+            case 'DELETE': return api.delete<TData>(path, options.params?.(variables), options.options);
+        }
+    };
+
+    const mutate = async (variables: TVars): Promise<ApiResponse<TData>> => {
+        inFlight.update(n => n + 1);
+        error.set(null);
+        queued.set(false);
+
+        const patches = (options.optimistic ?? []).map(({ key, update }) => () =>
+            queries.patchQueryData(typeof key === 'function' ? key(variables) : key, current => update(current, variables))
+        );
+
+        try {
+            const { result: response, outcome } = await withOptimisticPatches(patches, () => send(variables));
+            if (outcome === 'success') {
+                data.set(response.data ?? undefined);
+                const keys = typeof options.invalidate === 'function'
+                    ? options.invalidate(response.data as TData, variables)
+                    : options.invalidate ?? [];
+                keys.forEach(key => queries.invalidate(key));
+            } else if (outcome === 'queued') {
+                queued.set(true);
+            } else if (outcome === 'failed') {
+                error.set(response);
+            }
+            return response;
+        } finally {
+            inFlight.update(n => n - 1);
+        }
+    };
+
+    return {
+        mutate,
+        pending: computed(() => inFlight() > 0),
+        queued: queued.asReadonly(),
+        error: error.asReadonly(),
+        data: data.asReadonly(),
+        reset: () => {
+            error.set(null);
+            queued.set(false);
+            data.set(undefined);
+        }
+    };
+}
@@ -0,0 +1,123 @@
+import { signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { Subject } from 'rxjs';
+import { ApiResponse } from '@progalaxyelabs/stonescriptphp-client-core';
+import { createPaginatedResource } from './api-pagination';
+import { ApiConnectionService } from './api-connection.service';
+import { AuthService } from './auth.service';
+
+// ── Pagination (SPEC §5.12) ──────────────────────────────────────────────────
+
+describe('createPaginatedResource', () => {
+  let api: { get: jasmine.Spy };
+  let tenantId: ReturnType<typeof signal<string | null>>;
+  let authEvents: Subject<any>;
+
+  const ok = (data: unknown) => new ApiResponse<any>('ok', data, '');
+
+  beforeEach(() => {
+    // 45 rows, served in the requested style.
+    const rows = Array.from({ length: 45 }, (_, i) => i + 1);
+    api = {
+      get: jasmine.createSpy('get').and.callFake(async (_path: string, query: any) => {
+        if ('cursor' in query || !('page' in query || 'offset' in query)) {
+          const start = query.cursor ? Number(query.cursor) : 0;
+          const end = start + query.limit;
+          return ok({ items: rows.slice(start, end), next_cursor: end < rows.length ? String(end) : null });
+        }
+        const start = 'offset' in query ? query.offset : (query.page - 1) * query.size;
+        return ok({ items: rows.slice(start, start + (query.limit ?? query.size)), total: rows.length });
+      })
+    };
+    tenantId = signal<string | null>('t1');
+    authEvents = new Subject();
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: ApiConnectionService, useValue: api },
+        { provide: AuthService, useValue: { tenantId, authEvents$: authEvents } },
+      ],
+    });
+  });
+
+  function mount<T>(options: Parameters<typeof createPaginatedResource>[0]) {
+    return TestBed.runInInjectionContext(() => createPaginatedResource<T>(options));
+  }
+
+  async function settle() {
+    TestBed.tick();
+    await new Promise(resolve => setTimeout(resolve));
+  }
+
+  it('loads the first page and accumulates pages on loadMore', async () => {
+    const list = mount<number>({ path: '/rows', pageSize: 20 });
+    await settle();
+
+    expect(list.items().length).toBe(20);
+    expect(list.total()).toBe(45);
+    expect(list.hasMore()).toBeTrue();
+
+    await list.loadMore();
+    await list.loadMore();
+
+    expect(list.items().length).toBe(45);
+    expect(list.page()).toBe(3);
+    expect(list.hasMore()).toBeFalse();
+    expect(api.get.calls.allArgs().map(args => args[1])).toEqual([
+      { page: 1, size: 20 }, { page: 2, size: 20 }, { page: 3, size: 20 }
+    ]);
+
+    await list.loadMore();
+    expect(api.get).toHaveBeenCalledTimes(3);
+  });
+
+  it('follows cursors until the server stops returning one', async () => {
+    const list = mount<number>({ path: '/rows', style: 'cursor', pageSize: 30 });
+    await settle();
+    await list.loadMore();
+
+    expect(list.items().length).toBe(45);
+    expect(list.hasMore()).toBeFalse();
+    expect(api.get.calls.mostRecent().args[1]).toEqual({ cursor: '30', limit: 30 });
+  });
+
+  it('replaces items page by page in replace mode', async () => {
+    const list = mount<number>({ path: '/rows', style: 'offset', pageSize: 10, mode: 'replace' });
+    await settle();
+    await list.loadMore();
+
+    expect(list.items()).toEqual([11, 12, 13, 14, 15, 16, 17, 18, 19, 20]);
+
+    await list.goToPage(5);
+    expect(list.items()).toEqual([41, 42, 43, 44, 45]);
+    expect(list.page()).toBe(5);
+    expect(list.hasMore()).toBeFalse();
+  });
+
+  it('starts over when the params change', async () => {
+    const status = signal('open');
+    const list = mount<number>({ path: '/rows', params: () => ({ status: status() }), pageSize: 20 });
+    await settle();
+    await list.loadMore();
+    expect(list.items().length).toBe(40);
+
+    status.set('closed');
+    await settle();
+
+    expect(list.items().length).toBe(20);
+    expect(api.get.calls.mostRecent().args[1]).toEqual({ status: 'closed', page: 1, size: 20 });
+  });
+
+  it('records errors and clears the list on logout', async () => {
+    const list = mount<number>({ path: '/rows' });
+    await settle();
+    api.get.and.resolveTo(new ApiResponse<any>('error', { kind: 'http' }, 'boom'));
+
+    await list.loadMore();
+    expect(list.error()?.message).toBe('boom');
+    expect(list.items().length).toBe(20);
+
+    authEvents.next({ type: 'logout' });
+    expect(list.items()).toEqual([]);
+  });
+});
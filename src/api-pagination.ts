@@ -0,0 +1,204 @@
+/**
+ * Paginated list helper over `ApiConnectionService.get` (SPEC §5.12).
+ *
+ * `createPaginatedResource()` fetches a list endpoint page by page in the
+ * offset / limit, page / size or cursor style, reads each page out of
+ * `ApiResponse.data` through a configurable mapping, and exposes the result as
+ * signals. Pages are either accumulated (infinite scroll) or replace each other
+ * (numbered pages).
+ *
+ * Changing the path, params or tenant starts over from the first page; logout
+ * clears the list.
+ */
+import { DestroyRef, Injector, Signal, computed, effect, inject, signal, untracked } from '@angular/core';
+import { ApiResponse } from '@progalaxyelabs/stonescriptphp-client-core';
+import { ApiConnectionService } from './api-connection.service';
+import { AuthService } from './auth.service';
+import { RequestOptions } from './request-options';
+import { getApiErrorKind } from './api-error';
+import { Reactive } from './api-query';
+import {
+    DEFAULT_PAGE_MAPPING,
+    DEFAULT_PAGINATION_PARAMS,
+    EMPTY_PAGED_LIST,
+    FIRST_PAGE,
+    PageMapping,
+    PageState,
+    PagedList,
+    PaginationParamNames,
+    PaginationStyle,
+    applyPage,
+    pageQuery,
+    pageStateAt,
+    readPage
+} from './pagination';
+
+export interface PaginatedResourceOptions<T, Q = Record<string, any>> {
+    /** GET path relative to `apiServer.host`. */
+    path: Reactive<string>;
+    /** Filters and other query params; a change starts over from the first page. */
+    params?: Reactive<Q | undefined>;
+    /** @default 'page' */
+    style?: PaginationStyle;
+    /** Items per page. @default 20 */
+    pageSize?: number;
+    /**
+     * `append` accumulates pages into `items` (infinite scroll); `replace` shows
+     * one page at a time.
+     * @default 'append'
+     */
+    mode?: 'append' | 'replace';
+    /** Query param names. @default offset / limit, page / size, cursor */
+    paramNames?: Partial<PaginationParamNames>;
+    /** Number of the first page in the `page` style. @default 1 */
+    firstPage?: number;
+    /** Where items, total, next cursor and has-more live in the response data. */
+    mapping?: Partial<PageMapping<T>>;
+    /** Per-call options for the underlying GETs. */
+    options?: RequestOptions;
+    /** Fetch only while true. @default true */
+    enabled?: Reactive<boolean>;
+}
+
+export interface PaginatedResource<T> {
+    /** Loaded items: every page so far (`append`) or the current page (`replace`). */
+    readonly items: Signal<T[]>;
+    /** Total item count, when the server reports one. */
+    readonly total: Signal<number | null>;
+    /** True until a page says it is the last one. */
+    readonly hasMore: Signal<boolean>;
+    /** True while a page request is in flight. */
+    readonly loading: Signal<boolean>;
+    /** Error response of the last failed page request; cleared by the next request. */
+    readonly error: Signal<ApiResponse<unknown> | null>;
+    /** 1-based number of the last loaded page; 0 before the first. */
+    readonly page: Signal<number>;
+    /** Fetch the next page (shares a request already in flight). No-op when `hasMore` is false. */
+    loadMore(): Promise<void>;
+    /** Clear the list and fetch the first page again. */
+    reset(): Promise<void>;
+    /** Fetch the given 1-based page, replacing `items`. Offset and page styles only. */
+    goToPage(page: number): Promise<void>;
+}
+
+const read = <T>(value: Reactive<T>): T => typeof value === 'function' ? (value as () => T)() : value;
+
+/**
+ * Paginated, signal-based list. Call in an injection context (field initializer
+ * or constructor); the resource is torn down with the component.
+ *
+ * @example
+ * ```typescript
+ * export class OrdersComponent {
+ *   status = signal('open');
+ *   orders = createPaginatedResource<Order>({
+ *     path: '/orders',
+ *     params: () => ({ status: this.status() }),
+ *     style: 'cursor',
+ *     mapping: { items: 'orders', nextCursor: 'meta.next' }
+ *   });
+ *   // template: @for (o of orders.items(); ...) … <button (click)="orders.loadMore()" [disabled]="!orders.hasMore()">
+ * }
+ * ```
+ */
+export function createPaginatedResource<T, Q = Record<string, any>>(
+    options: PaginatedResourceOptions<T, Q>
+): PaginatedResource<T> {
+    const injector = inject(Injector);
+    const api = injector.get(ApiConnectionService);
+    const auth = injector.get(AuthService);
+
+    const style = options.style ?? 'page';
+    const size = options.pageSize ?? 20;
+    const replace = options.mode === 'replace';
+    const names = { ...DEFAULT_PAGINATION_PARAMS, ...(options.paramNames ?? {}) };
+    const mapping = { ...DEFAULT_PAGE_MAPPING, ...(options.mapping ?? {}) } as PageMapping<T>;
+    const firstPage = options.firstPage ?? 1;
+    const enabled = () => read(options.enabled ?? true);
+
+    const list = signal<PagedList<T>>(EMPTY_PAGED_LIST);
+    const inFlightCount = signal(0);
+    const error = signal<ApiResponse<unknown> | null>(null);
+    /** Bumped by clear(), so responses for an abandoned list are dropped. */
+    let generation = 0;
+    let inFlight: Promise<void> | null = null;
+
+    const fetchPage = (state: PageState, replaceItems: boolean): Promise<void> => {
+        const run = generation;
+        const path = untracked(() => read(options.path));
+        const params = untracked(() => read(options.params));
+        error.set(null);
+        inFlightCount.update(n => n + 1);
+
+        const request = api.get<unknown>(path, { ...(params ?? {}), ...pageQuery(style, state, size, names, firstPage) }, options.options)
+            .then(response => {
+                if (run !== generation) return;
+                if (response.status !== 'ok') {
+                    if (getApiErrorKind(response) !== 'cancelled') error.set(response);
+                    return;
+                }
+                list.set(applyPage(list(), style, state, readPage<T>(response.data, mapping), size, replaceItems));
+            })
+            .finally(() => {
+                inFlightCount.update(n => n - 1);
+                if (inFlight === request) inFlight = null;
+            });
+        inFlight = request;
+        return request;
+    };
+
+    const clear = () => {
+        generation++;
+        inFlight = null;
+        list.set(EMPTY_PAGED_LIST);
+        error.set(null);
+    };
+
+    const reset = (): Promise<void> => {
+        clear();
+        return untracked(enabled) ? fetchPage(FIRST_PAGE, true) : Promise.resolve();
+    };
+
+    // Start over whenever the path, params, tenant or enabled flag change.
+    const watcher = effect(() => {
+        read(options.path);
+        read(options.params);
+        enabled();
+        auth.tenantId();
+        untracked(() => reset());
+    }, { injector });
+
+    const subscription = auth.authEvents$.subscribe(event => {
+        if (event.type === 'logout' || event.type === 'sessionCleared') clear();
+    });
+
+    injector.get(DestroyRef).onDestroy(() => {
+        watcher.destroy();
+        subscription.unsubscribe();
+        generation++;
+    });
+
+    return {
+        items: computed(() => list().items),
+        total: computed(() => list().total),
+        hasMore: computed(() => list().hasMore),
+        loading: computed(() => inFlightCount() > 0),
+        error: error.asReadonly(),
+        page: computed(() => list().page),
+        loadMore: () => {
+            if (inFlight) return inFlight;
+            const { hasMore, next } = untracked(list);
+            if (!hasMore || !untracked(enabled)) return Promise.resolve();
+            return fetchPage(next, replace);
+        },
+        reset,
+        goToPage: (target: number) => {
+            if (style === 'cursor') {
+                return Promise.reject(new Error('goToPage() needs offset or page pagination; cursors only go forward'));
+            }
+            if (!untracked(enabled)) return Promise.resolve();
+            generation++;
+            return fetchPage(pageStateAt(Math.max(0, target - 1), size), true);
+        }
+    };
+}
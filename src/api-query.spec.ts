@@ -0,0 +1,130 @@
+import { Injector, signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { Subject } from 'rxjs';
+import { ApiResponse } from '@progalaxyelabs/stonescriptphp-client-core';
+import { ApiQueryClient, createApiQuery } from './api-query';
+import { ApiConnectionService } from './api-connection.service';
+import { AuthService } from './auth.service';
+import { NGX_CLIENT_CONFIG, resolveClientConfig } from './client-config';
+
+// ── Query cache (SPEC §5.6) ──────────────────────────────────────────────────
+
+describe('createApiQuery', () => {
+  let api: { get: jasmine.Spy };
+  let tenantId: ReturnType<typeof signal<string | null>>;
+  let authEvents: Subject<any>;
+
+  const ok = (data: unknown) => new ApiResponse<any>('ok', data, '');
+
+  beforeEach(() => {
+    api = { get: jasmine.createSpy('get').and.callFake(async (path: string) => ok(path)) };
+    tenantId = signal<string | null>('t1');
+    authEvents = new Subject();
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: ApiConnectionService, useValue: api },
+        { provide: AuthService, useValue: { tenantId, authEvents$: authEvents } },
+        { provide: NGX_CLIENT_CONFIG, useValue: resolveClientConfig({ query: { ttlMs: 60_000 } }) },
+      ],
+    });
+  });
+
+  function mount<T>(options: Parameters<typeof createApiQuery>[0]) {
+    return TestBed.runInInjectionContext(() => createApiQuery<T>(options));
+  }
+
+  async function settle() {
+    TestBed.tick();
+    await new Promise(resolve => setTimeout(resolve));
+  }
+
+  it('fetches once and exposes data / loading', async () => {
+    const query = mount<string>({ path: '/projects' });
+    TestBed.tick();
+    expect(query.loading()).toBeTrue();
+
+    await settle();
+
+    expect(query.data()).toBe('/projects');
+    expect(query.loading()).toBeFalse();
+    expect(query.error()).toBeNull();
+  });
+
+  it('de-duplicates queries with the same key', async () => {
+    mount({ path: '/projects', params: { status: 'active' } });
+    mount({ path: '/projects', params: { status: 'active' } });
+    await settle();
+
+    expect(api.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves fresh cached data without refetching, and refetches once invalidated', async () => {
+    mount({ path: '/projects', key: ['projects'] });
+    await settle();
+    const second = mount<string>({ path: '/projects', key: ['projects'] });
+    await settle();
+
+    expect(second.data()).toBe('/projects');
+    expect(api.get).toHaveBeenCalledTimes(1);
+
+    await TestBed.inject(ApiQueryClient).invalidate(['projects']);
+    expect(api.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps previous data and records the error when a fetch fails', async () => {
+    const query = mount<string>({ path: '/projects' });
+    await settle();
+    api.get.and.resolveTo(new ApiResponse<any>('error', { kind: 'http' }, 'boom'));
+
+    await query.refetch();
+
+    expect(query.data()).toBe('/projects');
+    expect(query.error()?.message).toBe('boom');
+  });
+
+  it('partitions entries by tenant', async () => {
+    const query = mount<string>({ path: '/projects' });
+    await settle();
+
+    tenantId.set('t2');
+    TestBed.tick();
+    expect(query.data()).toBeUndefined();
+    await settle();
+
+    expect(api.get).toHaveBeenCalledTimes(2);
+    expect(query.data()).toBe('/projects');
+  });
+
+  it('drops cached data on logout', async () => {
+    const query = mount<string>({ path: '/projects' });
+    await settle();
+
+    authEvents.next({ type: 'logout' });
+
+    expect(query.data()).toBeUndefined();
+  });
+
+  it('does not fetch while disabled', async () => {
+    const id = signal<number | null>(null);
+    const query = mount<string>({ path: () => `/projects/${id()}`, enabled: () => id() !== null });
+    await settle();
+    expect(api.get).not.toHaveBeenCalled();
+
+    id.set(7);
+    await settle();
+    expect(query.data()).toBe('/projects/7');
+  });
+
+  it('stops observing when its injector is destroyed', async () => {
+    const parent = TestBed.inject(Injector);
+    const child = Injector.create({ providers: [], parent });
+    TestBed.runInInjectionContext(() => child.get(ApiQueryClient).query({ path: '/projects', key: ['p'] }, child as any));
+    await settle();
+    (child as any).destroy();
+
+    await TestBed.inject(ApiQueryClient).invalidate(['p']);
+
+    expect(api.get).toHaveBeenCalledTimes(1);
+  });
+});
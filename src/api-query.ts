@@ -0,0 +1,295 @@
+/**
+ * Signal-based query cache over `ApiConnectionService.get` (SPEC §5.6).
+ *
+ * `createApiQuery()` returns `data` / `error` / `loading` signals for one GET.
+ * Queries with the same key share one cache entry and one in-flight request;
+ * cached data is served immediately and revalidated in the background once it
+ * is older than its TTL (stale-while-revalidate). Entries are partitioned by the
+ * current tenant and dropped on logout, so one tenant's or user's data is never
+ * shown to another.
+ */
+import {
+    DestroyRef,
+    Inject,
+    Injectable,
+    Injector,
+    Signal,
+    WritableSignal,
+    computed,
+    effect,
+    inject,
+    signal,
+    untracked
+} from '@angular/core';
+import { ApiResponse } from '@progalaxyelabs/stonescriptphp-client-core';
+import { ApiConnectionService } from './api-connection.service';
+import { AuthService } from './auth.service';
+import { NGX_CLIENT_CONFIG, NgxClientConfig } from './client-config';
+import { RequestOptions } from './request-options';
+import { getApiErrorKind } from './api-error';
+import { QueryKey, hashQueryKey, isQueryStale, matchesQueryKeyPrefix } from './query-key';
+
+/** A value, or a function read reactively (signals inside it re-run the query). */
+export type Reactive<T> = T | (() => T);
+
+export interface ApiQueryOptions<Q = Record<string, any>> {
+    /** GET path relative to `apiServer.host`. */
+    path: Reactive<string>;
+    /** Query params, passed to `ApiConnectionService.get`. */
+    params?: Reactive<Q | undefined>;
+    /** Cache key. @default [path, params] */
+    key?: Reactive<QueryKey>;
+    /** Per-call options for the underlying GET. */
+    options?: RequestOptions;
+    /** Fetch only while true, e.g. until a route param is known. @default true */
+    enabled?: Reactive<boolean>;
+    /** Freshness window in ms. @default client option `query.ttlMs` */
+    ttlMs?: number;
+    /** @default client option `query.refetchOnFocus` */
+    refetchOnFocus?: boolean;
+    /** @default client option `query.refetchOnReconnect` */
+    refetchOnReconnect?: boolean;
+}
+
+export interface ApiQuery<T> {
+    /** Last successful data for the current key; kept while revalidating or after an error. */
+    readonly data: Signal<T | undefined>;
+    /** Error response of the last failed fetch; cleared by the next success. */
+    readonly error: Signal<ApiResponse<T> | null>;
+    /** True while a request for the current key is in flight. */
+    readonly loading: Signal<boolean>;
+    /** Fetch now, ignoring the TTL (shares an in-flight request). */
+    refetch(): Promise<void>;
+}
+
+interface QueryEntry {
+    key: QueryKey;
+    /** Tenant the entry belongs to ('' without a tenant). */
+    partition: string;
+    data: WritableSignal<unknown>;
+    error: WritableSignal<ApiResponse<unknown> | null>;
+    loading: WritableSignal<boolean>;
+    /** When the data was fetched; 0 = never or invalidated. */
+    updatedAt: number;
+    inFlight: Promise<void> | null;
+}
+
+/** A mounted query: what it currently shows and how it refetches. */
+interface QueryObserver {
+    entry: QueryEntry | null;
+    load: () => Promise<ApiResponse<unknown>>;
+    ttlMs: number;
+    refetchOnFocus: boolean;
+    refetchOnReconnect: boolean;
+}
+
+const read = <T>(value: Reactive<T>): T => typeof value === 'function' ? (value as () => T)() : value;
+
+@Injectable({
+    providedIn: 'root'
+})
+export class ApiQueryClient {
+
+    private readonly entries = new Map<string, QueryEntry>();
+    private readonly observers = new Set<QueryObserver>();
+
+    /** Bumped by clear() so mounted queries re-resolve to fresh entries. */
+    private readonly generation = signal(0);
+
+    constructor(
+        private api: ApiConnectionService,
+        private auth: AuthService,
+        @Inject(NGX_CLIENT_CONFIG) private config: NgxClientConfig
+    ) {
+        this.auth.authEvents$.subscribe(event => {
+            if (event.type === 'logout' || event.type === 'sessionCleared') this.clear();
+        });
+
+        if (typeof window !== 'undefined') {
+            window.addEventListener('focus', () => this.revalidateObserved('focus'));
+            window.addEventListener('online', () => this.revalidateObserved('reconnect'));
+        }
+        if (typeof document !== 'undefined') {
+            document.addEventListener('visibilitychange', () => {
+                if (document.visibilityState === 'visible') this.revalidateObserved('focus');
+            });
+        }
+    }
+
+    /**
+     * Mount a query. Prefer {@link createApiQuery}, which supplies the injector.
+     * The query lives until `injector` is destroyed.
+     */
+    query<T, Q = Record<string, any>>(options: ApiQueryOptions<Q>, injector: Injector): ApiQuery<T> {
+        const path = () => read(options.path);
+        const params = () => read(options.params);
+        const keyOf = () => options.key !== undefined ? read(options.key) : [path(), params() ?? null];
+        const enabled = () => read(options.enabled ?? true);
+
+        const observer: QueryObserver = {
+            entry: null,
+            load: () => this.api.get(path(), params(), options.options),
+            ttlMs: options.ttlMs ?? this.config.query.ttlMs,
+            refetchOnFocus: options.refetchOnFocus ?? this.config.query.refetchOnFocus,
+            refetchOnReconnect: options.refetchOnReconnect ?? this.config.query.refetchOnReconnect
+        };
+
+        // Re-resolves on key, tenant or generation change.
+        const entry = computed(() => {
+            this.generation();
+            return this.entryFor(keyOf(), this.auth.tenantId() ?? '');
+        });
+
+        const watcher = effect(() => {
+            const current = entry();
+            const active = enabled();
+            untracked(() => {
+                observer.entry = active ? current : null;
+                if (active && isQueryStale(current.updatedAt, observer.ttlMs)) {
+                    this.fetch(current, observer.load);
+                }
+            });
+        }, { injector });
+
+        this.observers.add(observer);
+        injector.get(DestroyRef).onDestroy(() => {
+            watcher.destroy();
+            this.observers.delete(observer);
+        });
+
+        return {
+            data: computed(() => entry().data() as T | undefined),
+            error: computed(() => entry().error() as ApiResponse<T> | null),
+            loading: computed(() => entry().loading()),
+            refetch: () => untracked(() => enabled() ? this.fetch(entry(), observer.load) : Promise.resolve())
+        };
+    }
+
+    /**
+     * Mark every entry whose key starts with `prefix` as stale, in all tenant
+     * partitions, and refetch the mounted ones. An empty prefix invalidates all.
+     *
+     * @example
+     * ```typescript
+     * queries.invalidate(['projects']); // ['projects'], ['projects', { status }], …
+     * ```
+     */
+    invalidate(prefix: QueryKey = []): Promise<void> {
+        const matched = new Set<QueryEntry>();
+        for (const entry of this.entries.values()) {
+            if (matchesQueryKeyPrefix(entry.key, prefix)) {
+                entry.updatedAt = 0;
+                matched.add(entry);
+            }
+        }
+        const refetches: Promise<void>[] = [];
+        for (const observer of this.observers) {
+            if (observer.entry && matched.has(observer.entry)) {
+                refetches.push(this.fetch(observer.entry, observer.load));
+            }
+        }
+        return Promise.all(refetches).then(() => undefined);
+    }
+
+    /**
+     * Replace the cached data of every entry under `prefix` in the current tenant
+     * with `update(current)`, e.g. for an optimistic update. Freshness is left
+     * untouched.
+     *
+     * @returns Undo: restores the data each entry held before the patch.
+     */
+    patchQueryData<T>(prefix: QueryKey, update: (current: T | undefined) => T): () => void {
+        const partition = this.auth.tenantId() ?? '';
+        const previous = new Map<QueryEntry, unknown>();
+        for (const entry of this.entries.values()) {
+            if (entry.partition === partition && matchesQueryKeyPrefix(entry.key, prefix)) {
+                previous.set(entry, entry.data());
+                entry.data.set(update(entry.data() as T | undefined));
+            }
+        }
+        return () => previous.forEach((data, entry) => entry.data.set(data));
+    }
+
+    /** Drop every cached entry (all tenants). Runs automatically on logout. */
+    clear(): void {
+        for (const entry of this.entries.values()) {
+            entry.data.set(undefined);
+            entry.error.set(null);
+        }
+        this.entries.clear();
+        this.generation.update(n => n + 1);
+    }
+
+    private entryFor(key: QueryKey, partition: string): QueryEntry {
+        const id = hashQueryKey(key, partition);
+        let entry = this.entries.get(id);
+        if (!entry) {
+            entry = {
+                key,
+                partition,
+                data: signal<unknown>(undefined),
+                error: signal<ApiResponse<unknown> | null>(null),
+                loading: signal(false),
+                updatedAt: 0,
+                inFlight: null
+            };
+            this.entries.set(id, entry);
+        }
+        return entry;
+    }
+
+    /** Fetch into `entry`, sharing a request already in flight for it. */
+    private fetch(entry: QueryEntry, load: () => Promise<ApiResponse<unknown>>): Promise<void> {
+        if (entry.inFlight) return entry.inFlight;
+
+        entry.loading.set(true);
+        entry.inFlight = load()
+            .then(response => {
+                if (response.status === 'ok') {
+                    entry.data.set(response.data);
+                    entry.error.set(null);
+                    entry.updatedAt = Date.now();
+                } else if (getApiErrorKind(response) !== 'cancelled') {
+                    entry.error.set(response);
+                }
+            })
+            .finally(() => {
+                entry.loading.set(false);
+                entry.inFlight = null;
+            });
+        return entry.inFlight;
+    }
+
+    private revalidateObserved(trigger: 'focus' | 'reconnect'): void {
+        for (const observer of this.observers) {
+            const wanted = trigger === 'focus' ? observer.refetchOnFocus : observer.refetchOnReconnect;
+            if (wanted && observer.entry && isQueryStale(observer.entry.updatedAt, observer.ttlMs)) {
+                this.fetch(observer.entry, observer.load);
+            }
+        }
+    }
+}
+
+/**
+ * Cached, signal-based GET (SPEC §5.6). Call in an injection context (field
+ * initializer or constructor); the query is torn down with the component.
+ *
+ * @example
+ * ```typescript
+ * export class ProjectsComponent {
+ *   status = signal<'active' | 'archived'>('active');
+ *   projects = createApiQuery<Project[]>({
+ *     path: '/projects',
+ *     params: () => ({ status: this.status() }),
+ *     key: () => ['projects', { status: this.status() }]
+ *   });
+ * }
+ * ```
+ */
+export function createApiQuery<T, Q = Record<string, any>>(options: ApiQueryOptions<Q>): ApiQuery<T> {
+    const injector = inject(Injector);
+    return injector.get(ApiQueryClient).query<T, Q>(options, injector);
+}
+
+/** Alias of {@link createApiQuery}, named after Angular's `resource()`. */
+export const apiResource = createApiQuery;
@@ -0,0 +1,216 @@
+/**
+ * Streamed responses over ApiConnectionService (SPEC §5.9): Server-Sent Events
+ * and NDJSON, as an Observable of typed events.
+ *
+ * Each connection goes through the usual pipeline, so the Bearer token is
+ * attached and a 401 runs refresh → exchange and reconnects with the new token.
+ * SSE streams reconnect after a drop with `Last-Event-ID`, as EventSource does.
+ */
+import { Observable } from 'rxjs';
+import { ApiResponse } from '@progalaxyelabs/stonescriptphp-client-core';
+import { RequestOptions } from './request-options';
+import { ApiErrorMetadata } from './api-error';
+import { NdjsonParser, SseParser } from './stream-parser';
+
+export type StreamFormat = 'sse' | 'ndjson';
+
+export interface StreamOptions<T = unknown>
+    extends Pick<RequestOptions, 'headers' | 'skipAuth' | 'credentials' | 'silent' | 'querySerialization' | 'timeoutMs'> {
+    /** @default 'sse' */
+    format?: StreamFormat;
+    /** `'POST'` sends `body` as JSON, e.g. a prompt. @default 'GET' */
+    method?: 'GET' | 'POST';
+    body?: unknown;
+    /**
+     * SSE only: reconnect when the connection drops or the server closes it
+     * (a 204 ends the stream for good).
+     * @default true
+     */
+    reconnect?: boolean;
+    /** Delay before reconnecting; a `retry:` field from the server overrides it. @default 3000 */
+    retryMs?: number;
+    /** Give up after this many reconnects without receiving an event. @default 5 */
+    maxRetries?: number;
+    /** Resume from this event id on the first connection. */
+    lastEventId?: string;
+    /**
+     * Turn an event's text (an SSE `data` field or an NDJSON line) into `T`.
+     * @default JSON.parse — for SSE, falling back to the raw text
+     */
+    parse?: (data: string) => T;
+}
+
+/** One event of a stream. NDJSON values arrive as `event: 'message'` with no id. */
+export interface StreamEvent<T> {
+    event: string;
+    data: T;
+    id: string | null;
+}
+
+/** Opens one connection; resolves to the response (null for 204 No Content) or an error response. */
+export type StreamConnector = (lastEventId: string | null, signal: AbortSignal) => Promise<ApiResponse<Response | null>>;
+
+/**
+ * Build the Observable for `ApiConnectionService.stream()`. The connection opens
+ * on subscribe and closes on unsubscribe. A stream that cannot continue errors
+ * with the error `ApiResponse` of the last attempt; `onFailure` runs first. An
+ * exception from `options.parse` errors the stream with that exception, without
+ * reconnecting.
+ */
+export function createEventStream<T>(
+    connect: StreamConnector,
+    options: StreamOptions<T>,
+    onFailure: (response: ApiResponse<unknown>) => void
+): Observable<StreamEvent<T>> {
+    const format = options.format ?? 'sse';
+    const reconnect = format === 'sse' && (options.reconnect ?? true);
+    const maxRetries = options.maxRetries ?? 5;
+    const parse = options.parse ?? (format === 'sse' ? defaultParse : JSON.parse) as (data: string) => T;
+    const parseData = (text: string): T => {
+        try {
+            return parse(text);
+        } catch (error) {
+            throw new ParseFailure(error);
+        }
+    };
+
+    return new Observable<StreamEvent<T>>(subscriber => {
+        const controller = new AbortController();
+        let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+
+        const fail = (response: ApiResponse<unknown>) => {
+            onFailure(response);
+            subscriber.error(response);
+        };
+
+        const run = async () => {
+            let lastEventId = options.lastEventId ?? null;
+            let retryMs = options.retryMs ?? 3000;
+            let retries = 0;
+
+            while (!controller.signal.aborted) {
+                const response = await connect(lastEventId, controller.signal);
+                if (controller.signal.aborted) return;
+
+                if (response.status === 'ok') {
+                    const body = response.data?.body ?? null;
+                    if (!body) {
+                        subscriber.complete();
+                        return;
+                    }
+
+                    const bodyReader = body.getReader();
+                    reader = bodyReader;
+                    const decoder = new TextDecoder();
+                    const sse = new SseParser();
+                    const ndjson = new NdjsonParser(parseData);
+                    sse.lastEventId = lastEventId;
+
+                    const emit = (text: string) => {
+                        if (format === 'sse') {
+                            for (const message of sse.push(text)) {
+                                retries = 0;
+                                subscriber.next({ event: message.event, data: parseData(message.data), id: message.id });
+                            }
+                            lastEventId = sse.lastEventId;
+                            retryMs = sse.retryMs ?? retryMs;
+                        } else {
+                            for (const value of ndjson.push(text)) {
+                                subscriber.next({ event: 'message', data: value as T, id: null });
+                            }
+                        }
+                    };
+
+                    try {
+                        for (;;) {
+                            const { done, value } = await bodyReader.read();
+                            if (done) break;
+                            emit(decoder.decode(value, { stream: true }));
+                        }
+                        emit(decoder.decode());
+                        if (format === 'ndjson') {
+                            ndjson.flush().forEach(value => subscriber.next({ event: 'message', data: value as T, id: null }));
+                        }
+                    } catch (error) {
+                        if (controller.signal.aborted) return;
+                        if (error instanceof ParseFailure) {
+                            subscriber.error(error.error);
+                            return;
+                        }
+                        if (!reconnect) {
+                            fail(droppedResponse(error));
+                            return;
+                        }
+                    } finally {
+                        reader = null;
+                    }
+
+                    if (!reconnect || retries >= maxRetries) {
+                        subscriber.complete();
+                        return;
+                    }
+                } else if (!reconnect || !isTransient(response) || retries >= maxRetries) {
+                    fail(response);
+                    return;
+                }
+
+                retries++;
+                await delay(retryMs, controller.signal);
+            }
+        };
+
+        run().catch(error => {
+            if (!controller.signal.aborted) fail(droppedResponse(error));
+        });
+
+        return () => {
+            controller.abort();
+            reader?.cancel().catch(() => undefined);
+        };
+    });
+}
+
+/** Carries a `parse` exception out of the read loop, so it isn't taken for a dropped connection. */
+class ParseFailure {
+    constructor(readonly error: unknown) {}
+}
+
+function defaultParse(data: string): unknown {
+    try {
+        return JSON.parse(data);
+    } catch {
+        return data;
+    }
+}
+
+/** Worth reconnecting: no response, a timeout, or a 5xx. */
+function isTransient(response: ApiResponse<unknown>): boolean {
+    const meta = response.data as Partial<ApiErrorMetadata> | null;
+    return meta?.kind === 'network' || meta?.kind === 'timeout' || (meta?.httpStatus ?? 0) >= 500;
+}
+
+/** Error response for a stream that broke mid-body. */
+function droppedResponse(error: unknown): ApiResponse<unknown> {
+    const errorMetadata: ApiErrorMetadata = {
+        kind: 'network',
+        originalError: error,
+        responseBody: null,
+        isNetworkError: true,
+        httpStatus: null,
+        url: null,
+        method: null
+    };
+    return new ApiResponse('error', errorMetadata, (error as Error)?.message || 'Stream interrupted');
+}
+
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        const timer = setTimeout(done, ms);
+        signal.addEventListener('abort', done, { once: true });
+        function done() {
+            clearTimeout(timer);
+            signal.removeEventListener('abort', done);
+            resolve();
+        }
+    });
+}
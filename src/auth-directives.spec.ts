@@ -0,0 +1,75 @@
+import { Component, computed, signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import {
+  HasPermissionPipe,
+  IfAuthenticatedDirective,
+  IfPermissionDirective,
+  IfRoleDirective,
+  IfTenantDirective
+} from './auth-directives';
+import { AuthService } from './auth.service';
+
+// ── Permission-aware templates (SPEC §7.4) ───────────────────────────────────
+
+@Component({
+  standalone: true,
+  imports: [IfAuthenticatedDirective, IfTenantDirective, IfRoleDirective, IfPermissionDirective, HasPermissionPipe],
+  template: `
+    <span *ifAuthenticated="true; else anon">in</span>
+    <ng-template #anon><span>out</span></ng-template>
+    <span *ifTenant="'t1'">tenant</span>
+    <span *ifRole="['admin', 'owner']; else noRole">admin</span>
+    <ng-template #noRole><span>no-role</span></ng-template>
+    <span *ifPermission="['orders.read', 'orders.write']; match: 'all'">editor</span>
+    <span>{{ ('orders.read' | hasPermission) ? 'can-read' : 'cannot-read' }}</span>
+  `
+})
+class HostComponent {}
+
+describe('permission-aware directives', () => {
+  let claims: ReturnType<typeof signal<Record<string, any> | null>>;
+
+  beforeEach(() => {
+    claims = signal<Record<string, any> | null>(null);
+    TestBed.configureTestingModule({
+      imports: [HostComponent],
+      providers: [
+        {
+          provide: AuthService,
+          useValue: {
+            claims,
+            isLoggedIn: computed(() => claims() !== null),
+            tenantId: computed(() => claims()?.['tenant_id'] ?? null)
+          }
+        }
+      ]
+    });
+  });
+
+  function render() {
+    const fixture = TestBed.createComponent(HostComponent);
+    const text = () => {
+      fixture.detectChanges();
+      return (fixture.nativeElement as HTMLElement).textContent!.replace(/\s+/g, ' ').trim();
+    };
+    return text;
+  }
+
+  it('shows the else templates to anonymous users', () => {
+    expect(render()()).toBe('out no-role cannot-read');
+  });
+
+  it('renders from the token claims', () => {
+    claims.set({ tenant_id: 't1', role: 'owner', permissions: ['orders.read', 'orders.write'] });
+    expect(render()()).toBe('in tenant admin editor can-read');
+  });
+
+  it('follows claim changes (refresh, exchange, tenant switch)', () => {
+    claims.set({ tenant_id: 't1', role: 'admin', permissions: 'orders.read' });
+    const text = render();
+    expect(text()).toBe('in tenant admin can-read');
+
+    claims.set({ tenant_id: 't2', role: 'staff', permissions: [] });
+    expect(text()).toBe('in no-role cannot-read');
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Permission-aware templates (SPEC §7.4): `*ifAuthenticated`, `*ifTenant`,
+ * `*ifRole`, `*ifPermission` and the `hasPermission` pipe, plus `*ifFeature`
+ * for subscription entitlements (SPEC §7.6).
+ *
+ * All of them read `AuthService` signals — `isLoggedIn`, `tenantId` and the
+ * decoded token `claims` — so they re-render on login, logout, refresh,
+ * exchange and tenant switch without any wiring in the component. Roles and
+ * permissions come from the same JWT claims roleGuard / permissionGuard read
+ * (`roleClaim` / `permissionsClaim`, SPEC §7.2).
+ */
+import {
+    Directive,
+    Pipe,
+    PipeTransform,
+    Signal,
+    TemplateRef,
+    ViewContainerRef,
+    computed,
+    effect,
+    inject,
+    input,
+    untracked
+} from '@angular/core';
+import { AuthService } from './auth.service';
+import { NGX_GUARD_CONFIG } from './guard-config-token';
+import { isGranted, isTenantMatch, readClaimList, requirementList } from './guard-logic';
+import { SubscriptionService } from './subscription.service';
+
+/** Roles or permission strings the current token grants, from the configured claim. */
+function grantedList(claim: 'roleClaim' | 'permissionsClaim'): Signal<string[]> {
+    const auth = inject(AuthService);
+    const cfg = inject(NGX_GUARD_CONFIG);
+    return computed(() => readClaimList(auth.claims(), cfg[claim]));
+}
+
+/**
+ * Renders the host template while `condition()` holds and the `else` template
+ * (if any) otherwise, swapping views only when the choice changes.
+ */
+abstract class ConditionalViewDirective {
+
+    private readonly template = inject<TemplateRef<unknown>>(TemplateRef);
+    private readonly viewContainer = inject(ViewContainerRef);
+    private shown: TemplateRef<unknown> | null | undefined;
+
+    protected abstract condition(): boolean;
+    protected abstract elseTemplate(): TemplateRef<unknown> | null;
+
+    constructor() {
+        effect(() => {
+            const target = this.condition() ? this.template : this.elseTemplate();
+            if (target === this.shown) return;
+            this.shown = target;
+            untracked(() => {
+                this.viewContainer.clear();
+                if (target) this.viewContainer.createEmbeddedView(target);
+            });
+        });
+    }
+}
+
+/**
+ * Shows its content to signed-in users; `*ifAuthenticated="false"` inverts it.
+ *
+ * @example
+ * ```html
+ * <nav *ifAuthenticated="true; else signIn">…</nav>
+ * <ng-template #signIn><a routerLink="/login">Sign in</a></ng-template>
+ * ```
+ */
+@Directive({ selector: '[ifAuthenticated]', standalone: true })
+export class IfAuthenticatedDirective extends ConditionalViewDirective {
+
+    private readonly auth = inject(AuthService);
+
+    /** `false` shows the content to anonymous users instead. A bare `*ifAuthenticated` means true. */
+    readonly ifAuthenticated = input<boolean | ''>(true);
+    readonly ifAuthenticatedElse = input<TemplateRef<unknown> | null>(null);
+
+    protected condition(): boolean {
+        return this.auth.isLoggedIn() === (this.ifAuthenticated() !== false);
+    }
+
+    protected elseTemplate(): TemplateRef<unknown> | null {
+        return this.ifAuthenticatedElse();
+    }
+}
+
+/**
+ * Shows its content while the token is scoped to a tenant — any tenant when
+ * bare, or one of the given tenant ids.
+ *
+ * @example
+ * ```html
+ * <app-tenant-menu *ifTenant />
+ * <app-beta-panel *ifTenant="['t-1', 't-2']; else noBeta" />
+ * ```
+ */
+@Directive({ selector: '[ifTenant]', standalone: true })
+export class IfTenantDirective extends ConditionalViewDirective {
+
+    private readonly auth = inject(AuthService);
+
+    /** Tenant id(s) to match; empty means any tenant. */
+    readonly ifTenant = input<string | string[] | null | undefined>(undefined);
+    readonly ifTenantElse = input<TemplateRef<unknown> | null>(null);
+
+    protected condition(): boolean {
+        return isTenantMatch(this.auth.tenantId(), this.ifTenant());
+    }
+
+    protected elseTemplate(): TemplateRef<unknown> | null {
+        return this.ifTenantElse();
+    }
+}
+
+/**
+ * Shows its content to users holding one of the given roles (`match: 'all'`
+ * for every role), like roleGuard.
+ *
+ * @example
+ * ```html
+ * <button *ifRole="['admin', 'owner']; else readOnly">Delete</button>
+ * <section *ifRole="['admin', 'billing']; match: 'all'">…</section>
+ * ```
+ */
+@Directive({ selector: '[ifRole]', standalone: true })
+export class IfRoleDirective extends ConditionalViewDirective {
+
+    private readonly roles = grantedList('roleClaim');
+
+    readonly ifRole = input.required<string | string[]>();
+    /** @default 'any' */
+    readonly ifRoleMatch = input<'any' | 'all'>('any');
+    readonly ifRoleElse = input<TemplateRef<unknown> | null>(null);
+
+    protected condition(): boolean {
+        return isGranted(this.roles(), this.ifRole(), this.ifRoleMatch());
+    }
+
+    protected elseTemplate(): TemplateRef<unknown> | null {
+        return this.ifRoleElse();
+    }
+}
+
+/**
+ * Shows its content to users holding every given permission (`match: 'any'`
+ * for one of them), like permissionGuard.
+ *
+ * @example
+ * ```html
+ * <button *ifPermission="'orders.write'; else noAccess">Edit</button>
+ * ```
+ */
+@Directive({ selector: '[ifPermission]', standalone: true })
+export class IfPermissionDirective extends ConditionalViewDirective {
+
+    private readonly permissions = grantedList('permissionsClaim');
+
+    readonly ifPermission = input.required<string | string[]>();
+    /** @default 'all' */
+    readonly ifPermissionMatch = input<'any' | 'all'>('all');
+    readonly ifPermissionElse = input<TemplateRef<unknown> | null>(null);
+
+    protected condition(): boolean {
+        return isGranted(this.permissions(), this.ifPermission(), this.ifPermissionMatch());
+    }
+
+    protected elseTemplate(): TemplateRef<unknown> | null {
+        return this.ifPermissionElse();
+    }
+}
+
+/**
+ * Shows its content when the tenant's subscription grants every given feature
+ * (`match: 'any'` for one of them), like featureGuard. Loads the cached
+ * subscription status while signed in.
+ *
+ * @example
+ * ```html
+ * <app-report-builder *ifFeature="'advanced_reports'; else upgrade" />
+ * ```
+ */
+@Directive({ selector: '[ifFeature]', standalone: true })
+export class IfFeatureDirective extends ConditionalViewDirective {
+
+    private readonly subscriptions = inject(SubscriptionService);
+
+    readonly ifFeature = input.required<string | string[]>();
+    /** @default 'all' */
+    readonly ifFeatureMatch = input<'any' | 'all'>('all');
+    readonly ifFeatureElse = input<TemplateRef<unknown> | null>(null);
+
+    constructor() {
+        super();
+        const auth = inject(AuthService);
+        effect(() => {
+            if (auth.isLoggedIn() && !this.subscriptions.snapshot()) {
+                untracked(() => this.subscriptions.load());
+            }
+        });
+    }
+
+    protected condition(): boolean {
+        return isGranted(this.subscriptions.features(), this.ifFeature(), this.ifFeatureMatch());
+    }
+
+    protected elseTemplate(): TemplateRef<unknown> | null {
+        return this.ifFeatureElse();
+    }
+}
+
+/**
+ * `'orders.write' | hasPermission` — true when the token grants the permission
+ * (every one of a list, or any with `| hasPermission: 'any'`). Impure so it
+ * follows the claims signal.
+ *
+ * @example
+ * ```html
+ * <button [disabled]="!('orders.write' | hasPermission)">Save</button>
+ * ```
+ */
+@Pipe({ name: 'hasPermission', standalone: true, pure: false })
+export class HasPermissionPipe implements PipeTransform {
+
+    private readonly permissions = grantedList('permissionsClaim');
+
+    transform(permission: string | string[] | null | undefined, match: 'any' | 'all' = 'all'): boolean {
+        return requirementList(permission).length > 0 && isGranted(this.permissions(), permission, match);
+    }
+}
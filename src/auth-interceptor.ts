@@ -0,0 +1,70 @@
+/**
+ * Built-in interceptor: Bearer token injection and 401 refresh-and-retry
+ * (SPEC §5.2 steps 2 and 5).
+ *
+ * ApiConnectionService always places it after the app interceptors (only the
+ * RetryInterceptor sits further in), so app interceptors see the Authorization
+ * header it adds only on the wire, and see the retried response rather than the
+ * first 401.
+ */
+import { ApiInterceptor, ApiInterceptorChain, ApiRequest } from './api-interceptor';
+import { TokenService } from './token.service';
+import { AuthService } from './auth.service';
+
+/** `ApiRequest.context` markers. `SKIP_AUTH` is set by ApiConnectionService from `RequestOptions.skipAuth`. */
+export const SKIP_AUTH = 'auth.skip';
+const TOKEN_SENT = 'auth.tokenSent';
+const RETRIED = 'auth.retried';
+
+export class AuthInterceptor implements ApiInterceptor {
+
+    constructor(
+        private tokens: TokenService,
+        private authService: AuthService
+    ) {}
+
+    onRequest(request: ApiRequest): void {
+        if (request.context[SKIP_AUTH]) return;
+        const accessToken = this.tokens.getAccessToken();
+        if (!accessToken) return;
+        request.init.headers['Authorization'] = 'Bearer ' + accessToken;
+        request.context[TOKEN_SENT] = true;
+    }
+
+    async onResponse(response: Response, request: ApiRequest, chain: ApiInterceptorChain): Promise<Response> {
+        if (response.status !== 401 || request.context[SKIP_AUTH]) return response;
+
+        // First 401 for a request that carried a token: renew once and retry.
+        // The retry re-enters this interceptor, which handles its outcome.
+        if (request.context[TOKEN_SENT] && !request.context[RETRIED]) {
+            if (await this.ensureRenewed(request)) {
+                return chain.retry({
+                    ...request,
+                    init: { ...request.init, headers: { ...request.init.headers } },
+                    context: { ...request.context, [RETRIED]: true }
+                });
+            }
+        }
+
+        // Still 401 (double-401, refresh failure, or no token sent)
+        this.authService.clearSession();
+        return response;
+    }
+
+    /**
+     * Make sure the session has been renewed since `request` was sent.
+     *
+     * A concurrent request may already have renewed the session while this one
+     * was in flight — retry straight away with the newer token instead of
+     * refreshing again (a second refresh would burn the rotated token). No token
+     * at all means a concurrent renewal failed and cleared the session.
+     * Otherwise run refresh → exchange, shared with every concurrent 401
+     * (`AuthService.renewSession()`).
+     */
+    private async ensureRenewed(request: ApiRequest): Promise<boolean> {
+        const currentToken = this.tokens.getAccessToken();
+        if (!currentToken) return false;
+        if ('Bearer ' + currentToken !== request.init.headers['Authorization']) return true;
+        return this.authService.renewSession();
+    }
+}
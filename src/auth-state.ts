@@ -0,0 +1,101 @@
+/**
+ * Client-side auth state machine (SPEC §4.4).
+ *
+ * `AuthService.authState` exposes one of these states; the route guards decide on
+ * it instead of re-decoding JWT claims.
+ */
+
+/**
+ * Where the current session stands.
+ *
+ * - `anonymous`               — no access token
+ * - `identity-only`           — identity JWT, not yet exchanged for a platform JWT
+ * - `oauth-pending`           — pre-auth JWT from an OAuth sign-in awaiting promoteOAuth()/abandonOAuth()
+ * - `platform-without-tenant` — platform JWT without a tenant (`tenant_id` absent or 'none')
+ * - `platform-with-tenant`    — platform JWT scoped to a tenant
+ * - `refreshing`              — a token refresh is in flight
+ * - `expired`                 — the stored access token is past its `exp`
+ */
+export type AuthState =
+    | 'anonymous'
+    | 'identity-only'
+    | 'oauth-pending'
+    | 'platform-without-tenant'
+    | 'platform-with-tenant'
+    | 'refreshing'
+    | 'expired';
+
+/** States that hold a usable (unexpired) session token. */
+export const SESSION_STATES: readonly AuthState[] = [
+    'identity-only',
+    'oauth-pending',
+    'platform-without-tenant',
+    'platform-with-tenant'
+];
+
+/**
+ * Allowed transitions. Any state may sign in (→ a session state) or sign out
+ * (→ anonymous); only a held session can refresh or expire. `anonymous` may also
+ * become `expired`: on a reload the stored token can already be past its `exp`,
+ * and that session is still renewable. Staying in the same state is always
+ * allowed and is a no-op.
+ */
+export const AUTH_STATE_TRANSITIONS: Readonly<Record<AuthState, readonly AuthState[]>> = {
+    'anonymous': [...SESSION_STATES, 'expired'],
+    'identity-only': ['anonymous', ...SESSION_STATES, 'refreshing', 'expired'],
+    'oauth-pending': ['anonymous', ...SESSION_STATES, 'refreshing', 'expired'],
+    'platform-without-tenant': ['anonymous', ...SESSION_STATES, 'refreshing', 'expired'],
+    'platform-with-tenant': ['anonymous', ...SESSION_STATES, 'refreshing', 'expired'],
+    'refreshing': ['anonymous', ...SESSION_STATES, 'expired'],
+    'expired': ['anonymous', ...SESSION_STATES, 'refreshing']
+};
+
+/** True when `from → to` is a valid transition (or no change). */
+export function canTransition(from: AuthState, to: AuthState): boolean {
+    return from === to || AUTH_STATE_TRANSITIONS[from].includes(to);
+}
+
+/** True for states whose token has already been exchanged for a platform JWT. */
+export function isPlatformState(state: AuthState): boolean {
+    return state === 'platform-with-tenant' || state === 'platform-without-tenant';
+}
+
+/**
+ * A token is a "platform" token once it has been exchanged with the platform API
+ * (AUTH-SPEC external mode). Detected by the canonical `token_type === 'platform'`
+ * marker — NOT by any legacy integer surrogate (e.g. `local_user_id`, removed in
+ * the identity_id re-key). A platform token must NEVER be re-exchanged.
+ */
+export function isPlatformToken(payload: Record<string, any> | null): boolean {
+    return payload?.['token_type'] === 'platform';
+}
+
+/** A user "has a tenant" when the JWT `tenant_id` claim is present and not the sentinel 'none'. */
+export function hasTenant(payload: Record<string, any> | null): boolean {
+    const tenantId = payload?.['tenant_id'];
+    return !!tenantId && tenantId !== 'none';
+}
+
+/**
+ * Derive the settled state from the stored access token. Never returns
+ * `refreshing` — that one is entered and left explicitly around a refresh.
+ */
+export function deriveAuthState(input: {
+    /** Whether an access token is stored at all (it may be opaque / undecodable). */
+    hasToken: boolean;
+    /** Decoded access-token claims, or null. */
+    payload: Record<string, any> | null;
+    /** The token came from an OAuth sign-in flagged `oauthPending`. */
+    oauthPending?: boolean;
+    /** Current time in ms (defaults to Date.now()). */
+    now?: number;
+}): AuthState {
+    if (!input.hasToken) return 'anonymous';
+
+    const exp = input.payload?.['exp'];
+    if (typeof exp === 'number' && exp * 1000 <= (input.now ?? Date.now())) return 'expired';
+
+    if (input.oauthPending) return 'oauth-pending';
+    if (!isPlatformToken(input.payload)) return 'identity-only';
+    return hasTenant(input.payload) ? 'platform-with-tenant' : 'platform-without-tenant';
+}
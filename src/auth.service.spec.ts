@@ -127,6 +127,30 @@ describe('AuthService.refresh() — AUTH-SPEC §4a tenant_id preservation', () =
     // Plugin returns null when called without refresh token — treated as failure
     expect(result).toBeFalse();
   });
+
+  it('shares one in-flight plugin.refresh() between concurrent callers', async () => {
+    // Refresh-token rotation: a second parallel refresh would present an already
+    // rotated refresh_token and fail, clearing the session.
+    let calls = 0;
+    build({
+      refresh: async () => {
+        calls++;
+        await new Promise(resolve => setTimeout(resolve, 10));
+        return 'rotated-token';
+      }
+    });
+
+    tokenService.setRefreshToken('current-refresh-token');
+
+    const results = await Promise.all([service.refresh(), service.refresh(), service.refresh()]);
+
+    expect(calls).toBe(1);
+    expect(results).toEqual([true, true, true]);
+
+    // Once settled, a later refresh starts a new cycle
+    await service.refresh();
+    expect(calls).toBe(2);
+  });
 });
 
 // ── AUTH-SPEC §1b: OTP register-send displayName parameter ───────────────────
@@ -210,3 +234,85 @@ describe('AuthService.sendOtp() — AUTH-SPEC §1b displayName parameter', () =>
     expect(result.identifier_type).toBe('email');
   });
 });
+
+// ── authEvents$: typed lifecycle events ───────────────────────────────────────
+
+describe('AuthService.authEvents$', () => {
+  let service: AuthService;
+
+  function build(pluginOverrides: Partial<any> = {}) {
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: MyEnvironmentModel, useValue: ENV_STUB },
+        { provide: AUTH_PLUGIN, useValue: makePluginStub(pluginOverrides) },
+      ],
+    });
+    service = TestBed.inject(AuthService);
+  }
+
+  afterEach(() => TestBed.resetTestingModule());
+
+  it('emits refreshed on a successful refresh', async () => {
+    build({ refresh: async () => 'new-token' });
+    const types: string[] = [];
+    service.authEvents$.subscribe(e => types.push(e.type));
+
+    await service.refresh();
+
+    expect(types).toEqual(['refreshed']);
+  });
+
+  it('emits refreshFailed then sessionCleared when refresh is rejected', async () => {
+    build({ refresh: async () => null });
+    const types: string[] = [];
+    service.authEvents$.subscribe(e => types.push(e.type));
+
+    await service.refresh();
+
+    expect(types).toEqual(['refreshFailed', 'sessionCleared']);
+  });
+
+  it('emits login with the stored user after loginWithEmail succeeds', async () => {
+    const user = { user_id: 1, id: '1', email: 'a@b.c', display_name: 'A', is_email_verified: true };
+    build({ login: async () => ({ success: true, accessToken: 'jwt', user }) });
+    const events: any[] = [];
+    service.authEvents$.subscribe(e => events.push(e));
+
+    await service.loginWithEmail('a@b.c', 'pw');
+
+    expect(events.length).toBe(1);
+    expect(events[0].type).toBe('login');
+    expect(events[0].user.email).toBe('a@b.c');
+  });
+});
+
+describe('AuthService.claims', () => {
+  afterEach(() => TestBed.resetTestingModule());
+
+  const jwt = (payload: object) => `h.${btoa(JSON.stringify(payload))}.s`;
+
+  it('keeps the same claims object until the access token changes', async () => {
+    const exp = Math.floor(Date.now() / 1000) + 3600;
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: MyEnvironmentModel, useValue: ENV_STUB },
+        { provide: AUTH_PLUGIN, useValue: makePluginStub({
+          login: async () => ({ success: true, accessToken: jwt({ sub: '1', tenant_id: 't-1', exp }) }),
+        }) },
+      ],
+    });
+    const service = TestBed.inject(AuthService);
+    const tokens = TestBed.inject(TokenService);
+
+    await service.loginWithEmail('a@b.c', 'pw');
+    const first = service.claims();
+    service.currentAuthState();
+    service.currentAuthState();
+    expect(service.claims()).toBe(first);
+
+    tokens.setAccessToken(jwt({ sub: '1', tenant_id: 't-2', exp }));
+    service.currentAuthState();
+    expect(service.claims()).not.toBe(first);
+    expect(service.claims()?.['tenant_id']).toBe('t-2');
+  });
+});
@@ -1,4 +1,6 @@
 import { Injectable, Inject, signal, computed } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { Observable, Subject } from 'rxjs';
 import { TokenService } from './token.service';
 import {
     MyEnvironmentModel,
@@ -10,6 +12,10 @@ import {
     OtpVerifyResponse
 } from '@progalaxyelabs/stonescriptphp-client-core';
 import { AUTH_PLUGIN } from './auth.plugin';
+import { NGX_CLIENT_CONFIG, NgxClientConfig } from './client-config';
+import { TokenRenewalScheduler } from './token-renewal';
+import { SessionSyncChannel, SessionSyncMessage } from './session-sync';
+import { AuthState, canTransition, deriveAuthState, hasTenant } from './auth-state';
 
 // Re-export types for backward compatibility
 export type { AuthResult, TenantMembership, User, AuthPlugin };
@@ -22,6 +28,28 @@ export type BuiltInProvider = 'google' | 'linkedin' | 'apple' | 'microsoft' | 'g
  */
 export type AuthProvider = BuiltInProvider | (string & {});
 
+/**
+ * Auth lifecycle event emitted on `AuthService.authEvents$`.
+ *
+ * - `login`          — tokens + user stored after any successful sign-in flow
+ * - `oauthPending`   — OAuth sign-in stored a pre-auth JWT; promoteOAuth()/abandonOAuth() pending
+ * - `logout`         — signout() in this tab, or a logout announced by another tab
+ * - `refreshed`      — access token refreshed
+ * - `refreshFailed`  — refresh rejected; followed by `sessionCleared`
+ * - `exchanged`      — identity JWT exchanged for a platform JWT
+ * - `tenantSelected` — selectTenant() issued a tenant-scoped token
+ * - `sessionCleared` — local session dropped without a server logout
+ */
+export type AuthEvent =
+    | { type: 'login'; user: User | null }
+    | { type: 'oauthPending'; user: User | null }
+    | { type: 'logout' }
+    | { type: 'refreshed' }
+    | { type: 'refreshFailed' }
+    | { type: 'exchanged'; role?: string }
+    | { type: 'tenantSelected'; tenantId: string }
+    | { type: 'sessionCleared' };
+
 /**
  * AuthService — manages auth state and delegates all auth operations to the AuthPlugin.
  *
@@ -31,6 +59,14 @@ export type AuthProvider = BuiltInProvider | (string & {});
  * Provide a plugin via provideNgxStoneScriptPhpClient():
  * - Default: StoneScriptPHPAuth (from @progalaxyelabs/stonescriptphp-auth-client)
  * - External: any class implementing AuthPlugin
+ *
+ * Optional proactive renewal (`tokenRenewal.enabled` in the client config) runs
+ * refresh → exchange shortly before the access token's `exp`, so the first request
+ * after an idle period doesn't pay for a 401 round trip.
+ *
+ * Session changes (login, logout, refresh, tenant switch, profile update) are
+ * announced to the other open tabs (`sessionSync`, on by default) so every tab's
+ * `user` signal stays in step; only one tab at a time runs a scheduled renewal.
  */
 @Injectable({
     providedIn: 'root'
@@ -44,12 +80,78 @@ export class AuthService {
     /** Computed: true if user is authenticated */
     readonly isLoggedIn = computed(() => this.user() !== null);
 
+    private readonly state = signal<AuthState>('anonymous');
+
+    /**
+     * Client-side auth state (SPEC §4.4). Updated on every auth operation; expiry is
+     * time-based, so call {@link currentAuthState} where an up-to-date answer matters.
+     */
+    readonly authState = this.state.asReadonly();
+
+    private readonly tenant = signal<string | null>(null);
+
+    /**
+     * Tenant the current access token is scoped to (`tenant_id` claim), or null.
+     * Follows login, refresh, exchange, selectTenant and logout.
+     */
+    readonly tenantId = this.tenant.asReadonly();
+
+    private readonly tokenClaims = signal<Record<string, any> | null>(null);
+
+    /**
+     * Decoded claims of the current access token, or null. Follows the same
+     * changes as {@link tenantId}; backs the `*ifRole` / `*ifPermission` directives.
+     */
+    readonly claims = this.tokenClaims.asReadonly();
+
+    /** Access token {@link claims} was decoded from, so unchanged tokens don't re-emit. */
+    private claimsToken: string | null = null;
+
+    /** Set while the stored token is an OAuth pre-auth JWT (see loginWithProvider()). */
+    private oauthPending = false;
+
+    /** Observable view of the `user` signal, for RxJS-based consumers. */
+    readonly user$: Observable<User | null> = toObservable(this.user);
+
+    private readonly events = new Subject<AuthEvent>();
+
+    /** Typed auth lifecycle events (see {@link AuthEvent}). Hot — no replay. */
+    readonly authEvents$: Observable<AuthEvent> = this.events.asObservable();
+
+    /** In-flight refresh shared by concurrent callers (see refresh()). */
+    private refreshInFlight: Promise<boolean> | null = null;
+
+    /** In-flight refresh → exchange shared by concurrent callers (see renewSession()). */
+    private sessionRenewal: Promise<boolean> | null = null;
+
+    /** Proactive renewal scheduler; null unless `tokenRenewal.enabled`. */
+    private readonly renewal: TokenRenewalScheduler | null;
+
+    /** Cross-tab channel; null when `sessionSync.enabled` is false. */
+    private readonly sync: SessionSyncChannel<User> | null;
+
     constructor(
         @Inject(AUTH_PLUGIN) private plugin: AuthPlugin,
         private tokens: TokenService,
-        @Inject(MyEnvironmentModel) private environment: MyEnvironmentModel
+        @Inject(MyEnvironmentModel) private environment: MyEnvironmentModel,
+        @Inject(NGX_CLIENT_CONFIG) clientConfig: NgxClientConfig
     ) {
+        this.renewal = clientConfig.tokenRenewal.enabled
+            ? new TokenRenewalScheduler({
+                skewSeconds: clientConfig.tokenRenewal.skewSeconds,
+                getExpiry: () => this.tokens.decodeJwtPayload()?.exp ?? null,
+                renew: () => this.renewProactively()
+            })
+            : null;
+
+        this.sync = clientConfig.sessionSync.enabled
+            ? new SessionSyncChannel<User>(clientConfig.sessionSync.channelName)
+            : null;
+        this.sync?.onMessage(message => this.applyRemoteChange(message));
+
         this.restoreUser();
+        this.syncAuthState();
+        if (this.tokens.getAccessToken()) this.renewal?.schedule();
     }
 
     // ── State management ──────────────────────────────────────────────────────
@@ -80,7 +182,37 @@ export class AuthService {
         this.saveUser(user);
     }
 
+    /**
+     * Move to `to` if the transition table allows it; invalid transitions are
+     * logged and ignored so a bug in one flow can't corrupt the state.
+     */
+    private transition(to: AuthState): void {
+        const from = this.state();
+        if (!canTransition(from, to)) {
+            console.warn(`[AuthService] Ignoring invalid auth state transition ${from} → ${to}`);
+            return;
+        }
+        this.state.set(to);
+    }
+
+    /** Re-derive the settled auth state from the stored access token. */
+    private syncAuthState(): void {
+        const accessToken = this.tokens.getAccessToken() || null;
+        const payload = this.tokens.decodeJwtPayload();
+        this.transition(deriveAuthState({
+            hasToken: !!accessToken,
+            payload,
+            oauthPending: this.oauthPending
+        }));
+        this.tenant.set(hasTenant(payload) ? String(payload!['tenant_id']) : null);
+        if (accessToken !== this.claimsToken) {
+            this.claimsToken = accessToken;
+            this.tokenClaims.set(payload ?? null);
+        }
+    }
+
     private storeAuthResult(result: AuthResult): void {
+        this.oauthPending = !!result.oauthPending;
         if (result.accessToken) this.tokens.setAccessToken(result.accessToken);
         if (result.refreshToken) this.tokens.setRefreshToken(result.refreshToken);
         if (result.user) {
@@ -90,6 +222,54 @@ export class AuthService {
                 : this.enrichUserWithJwtRole(result.user, result.accessToken);
             this.updateUser(user);
         }
+        this.syncAuthState();
+        if (result.accessToken) this.renewal?.schedule();
+        this.sync?.post({ type: 'login', user: this.user() });
+        this.events.next({ type: result.oauthPending ? 'oauthPending' : 'login', user: this.user() });
+    }
+
+    /**
+     * Drop tokens and user state locally and stop any scheduled renewal.
+     * @param announce - tell the other tabs (false when the logout came from one)
+     */
+    private resetSession(announce = true): void {
+        this.renewal?.stop();
+        this.tokens.clear();
+        this.oauthPending = false;
+        this.updateUser(null);
+        this.transition('anonymous');
+        this.tenant.set(null);
+        this.claimsToken = null;
+        this.tokenClaims.set(null);
+        if (announce) this.sync?.post({ type: 'logout' });
+    }
+
+    /**
+     * Apply a session change announced by another tab. Tokens are shared through
+     * localStorage already; only this tab's user signal and renewal timer follow.
+     */
+    private applyRemoteChange(message: SessionSyncMessage<User>): void {
+        if (message.type === 'logout') {
+            this.resetSession(false);
+            this.events.next({ type: 'logout' });
+            return;
+        }
+        this.user.set(message.user);
+        this.syncAuthState();
+        this.renewal?.schedule();
+    }
+
+    /**
+     * Scheduled renewal via {@link renewSession}. Across tabs only the lock holder
+     * renews; the others pick up its result.
+     */
+    private async renewProactively(): Promise<void> {
+        const renew = async () => {
+            // Another tab may have renewed just before this one took the lock
+            if (!this.renewal?.isDue()) return;
+            await this.renewSession(); // a failed refresh clears the session and stops the scheduler
+        };
+        await (this.sync ? this.sync.runExclusive('renewal', renew) : renew());
     }
 
     /**
@@ -183,8 +363,8 @@ export class AuthService {
             return result ?? fallback;
         } finally {
             // Always clear local token state — the pre-auth JWT is no longer valid
-            this.tokens.clear();
-            this.updateUser(null);
+            this.resetSession();
+            this.events.next({ type: 'sessionCleared' });
         }
     }
 
@@ -202,8 +382,8 @@ export class AuthService {
     async signout(serverName?: string): Promise<void> {
         const refreshToken = this.tokens.getRefreshToken() || undefined;
         await this.plugin.logout(refreshToken);
-        this.tokens.clear();
-        this.updateUser(null);
+        this.resetSession();
+        this.events.next({ type: 'logout' });
     }
 
     /**
@@ -213,8 +393,8 @@ export class AuthService {
      * @param loginRoute - Optional route to navigate to (not used in v2 - consumer handles navigation)
      */
     clearSession(loginRoute?: string): void {
-        this.tokens.clear();
-        this.updateUser(null);
+        this.resetSession();
+        this.events.next({ type: 'sessionCleared' });
     }
 
 
@@ -232,19 +412,73 @@ export class AuthService {
      * > reintroduces the "lost tenant_id after provision" bug whenever the client
      * > omits it. The server uses refresh_token claims exclusively.
      *
+     * **Single-flight:** concurrent callers share one in-flight refresh. With
+     * refresh-token rotation the server invalidates the old refresh token on first
+     * use, so parallel refreshes would make all but one fail and clear the session.
+     *
      * @returns true if token was refreshed, false if refresh failed (session cleared)
      */
-    async refresh(): Promise<boolean> {
-        const newToken = await this.plugin.refresh(
-            this.tokens.getAccessToken(),
-            this.tokens.getRefreshToken() || undefined
-        );
+    refresh(): Promise<boolean> {
+        if (!this.refreshInFlight) {
+            this.refreshInFlight = this.performRefresh().finally(() => {
+                this.refreshInFlight = null;
+            });
+        }
+        return this.refreshInFlight;
+    }
+
+    /**
+     * Renew the session: refresh, then exchange the fresh identity token for a
+     * platform JWT (AUTH-SPEC §4a "refresh → exchange → retry"). Used by the 401
+     * path, proactive renewal, the outbox replay and the realtime connection.
+     * Concurrent callers share one run; it is cleared on settle so a later expiry
+     * starts a new one.
+     *
+     * @returns true when the refresh succeeded. Exchange failure is non-fatal:
+     *          in builtin-auth mode the refreshed identity JWT IS the platform JWT.
+     */
+    renewSession(): Promise<boolean> {
+        if (!this.sessionRenewal) {
+            this.sessionRenewal = this.refreshAndExchange().finally(() => {
+                this.sessionRenewal = null;
+            });
+        }
+        return this.sessionRenewal;
+    }
+
+    private async refreshAndExchange(): Promise<boolean> {
+        if (!(await this.refresh())) return false;
+
+        const exchangeResult = await this.exchangeToken();
+        if (!exchangeResult.success && typeof console !== 'undefined') {
+            console.debug('[AuthService] Token exchange after refresh failed:', exchangeResult.message);
+        }
+        return true;
+    }
+
+    private async performRefresh(): Promise<boolean> {
+        if (this.state() !== 'anonymous') this.transition('refreshing');
+        let newToken: string | null;
+        try {
+            newToken = await this.plugin.refresh(
+                this.tokens.getAccessToken(),
+                this.tokens.getRefreshToken() || undefined
+            );
+        } catch (error) {
+            this.syncAuthState(); // leave `refreshing`; the caller sees the rejection
+            throw error;
+        }
         if (newToken) {
             this.tokens.setAccessToken(newToken);
+            this.syncAuthState();
+            this.renewal?.schedule();
+            this.sync?.post({ type: 'refreshed', user: this.user() });
+            this.events.next({ type: 'refreshed' });
             return true;
         }
-        this.tokens.clear();
-        this.updateUser(null);
+        this.events.next({ type: 'refreshFailed' });
+        this.resetSession();
+        this.events.next({ type: 'sessionCleared' });
         return false;
     }
 
@@ -252,6 +486,15 @@ export class AuthService {
         return this.tokens.hasValidAccessToken();
     }
 
+    /**
+     * Current auth state, re-checked against the stored token's `exp` first
+     * (expiry can't be signal-driven). Used by the route guards.
+     */
+    currentAuthState(): AuthState {
+        if (this.state() !== 'refreshing') this.syncAuthState();
+        return this.state();
+    }
+
     // ── Profile management ────────────────────────────────────────────────────
 
     /**
@@ -278,6 +521,7 @@ export class AuthService {
                 if (currentUser) {
                     this.updateUser({ ...currentUser, display_name: displayName });
                 }
+                this.sync?.post({ type: 'profileUpdated', user: this.user() });
                 return { success: true };
             }
             return { success: false, message: data.message || 'Profile update failed' };
@@ -400,6 +644,11 @@ export class AuthService {
                     this.updateUser({ ...currentUser, role });
                 }
 
+                this.oauthPending = false;
+                this.syncAuthState();
+                this.renewal?.schedule();
+                this.sync?.post({ type: 'refreshed', user: this.user() });
+                this.events.next({ type: 'exchanged', role });
                 return { success: true, role };
             }
 
@@ -464,6 +713,10 @@ export class AuthService {
         const result = await this.plugin.selectTenant(tenantId, this.tokens.getAccessToken());
         if (result.success && result.accessToken) {
             this.tokens.setAccessToken(result.accessToken);
+            this.syncAuthState();
+            this.renewal?.schedule();
+            this.sync?.post({ type: 'tenantSwitched', user: this.user() });
+            this.events.next({ type: 'tenantSelected', tenantId });
         }
         return { success: result.success, message: result.message, access_token: result.accessToken };
     }
@@ -506,25 +759,7 @@ export class AuthService {
         return (this.plugin.getAvailableServers?.() ?? []).length > 0;
     }
 
-    // ── Backward compatibility (BehaviorSubject-style observable) ─────────────
-
-    /**
-     * @deprecated Use the `user` signal directly with toObservable() if needed.
-     * Example: `toObservable(authService.user)`
-     */
-    get user$() {
-        // For backward compatibility, create an observable-like getter
-        // Consumers should migrate to signals
-        return {
-            subscribe: (observer: { next: (user: User | null) => void }) => {
-                // Immediately emit current value
-                observer.next(this.user());
-                // Note: This doesn't provide reactive updates like a real Observable
-                // Consumers should migrate to signals for reactive updates
-                return { unsubscribe: () => {} };
-            }
-        };
-    }
+    // ── Backward compatibility ────────────────────────────────────────────────
 
     /** @deprecated Use getCurrentUser()?.user_id instead */
     getUserId(): number { return this.user()?.user_id || 0; }
@@ -0,0 +1,130 @@
+/**
+ * Request batching (SPEC §5.11): collect calls made within one microtask or
+ * animation frame and dispatch them together, then split the combined response
+ * back into one result per call.
+ *
+ * `ApiConnectionService` owns the batcher and the wire calls.
+ */
+import { RequestOptions } from './request-options';
+
+/** When queued calls are flushed. */
+export type BatchWindow = 'microtask' | 'frame';
+
+/** One call inside a batch request body. */
+export interface BatchRequestItem {
+    id: string;
+    method: 'GET';
+    /** Path relative to `apiServer.host`, query string included. */
+    url: string;
+}
+
+/** One call's result inside the batch response `data.responses`. */
+export interface BatchResponseItem {
+    id: string;
+    /** The HTTP status the call would have had on its own. */
+    status: number;
+    /** The call's own response body, normally the `{ status, data, message }` envelope. */
+    body: any;
+}
+
+/**
+ * What to do with the calls of a batch once the batch request answered:
+ *  - `unsupported` — the endpoint is missing (404): stop batching and send each
+ *    call on its own;
+ *  - `failed` — the batch request itself failed: every call gets that error;
+ *  - `split` — one item per call; null marks a call to send on its own (left out
+ *    of the response, or a 401 so it gets the refresh-and-retry).
+ */
+export type BatchResolution =
+    | { type: 'unsupported' }
+    | { type: 'failed' }
+    | { type: 'split'; items: Array<BatchResponseItem | null> };
+
+/**
+ * Only plain GETs join a batch: per-call transport settings (signal, timeout,
+ * headers, credentials, auth, retry, response type) can't be expressed per item.
+ */
+export function canJoinBatch(options: RequestOptions): boolean {
+    return !options.signal && options.timeoutMs === undefined && !options.headers && !options.credentials &&
+        !options.skipAuth && options.retry === undefined && (options.responseType ?? 'json') === 'json';
+}
+
+/** Schedule `flush` at the end of the given window. */
+export function batchScheduler(window: BatchWindow): (flush: () => void) => void {
+    if (window === 'frame') {
+        return flush => typeof requestAnimationFrame === 'function'
+            ? requestAnimationFrame(() => flush())
+            : setTimeout(flush, 16);
+    }
+    return flush => queueMicrotask(flush);
+}
+
+interface Pending<Item, Result> {
+    item: Item;
+    resolve: (result: Result) => void;
+    reject: (error: unknown) => void;
+}
+
+/**
+ * Queues items until the scheduled flush, then hands them to `dispatch` in
+ * groups of at most `maxSize`. `dispatch` resolves to one result per item, in
+ * order; if it rejects, every item of that group rejects.
+ */
+export class RequestBatcher<Item, Result> {
+
+    private pending: Pending<Item, Result>[] = [];
+
+    constructor(
+        private readonly schedule: (flush: () => void) => void,
+        private readonly maxSize: number,
+        private readonly dispatch: (items: Item[]) => Promise<Result[]>
+    ) {}
+
+    add(item: Item): Promise<Result> {
+        return new Promise<Result>((resolve, reject) => {
+            if (this.pending.length === 0) this.schedule(() => this.flush());
+            this.pending.push({ item, resolve, reject });
+        });
+    }
+
+    private flush(): void {
+        const pending = this.pending;
+        this.pending = [];
+        const size = Math.max(1, this.maxSize);
+        for (let start = 0; start < pending.length; start += size) {
+            const group = pending.slice(start, start + size);
+            this.dispatch(group.map(entry => entry.item)).then(
+                results => group.forEach((entry, i) => entry.resolve(results[i])),
+                error => group.forEach(entry => entry.reject(error))
+            );
+        }
+    }
+}
+
+/**
+ * Match the items of a batch response to the request ids. Items the server
+ * left out (or a malformed response) come back as null, so the caller can send
+ * those calls on their own.
+ */
+export function splitBatchResponse(ids: string[], data: unknown): Array<BatchResponseItem | null> {
+    const responses = (data as { responses?: unknown } | null)?.responses;
+    const byId = new Map<string, BatchResponseItem>();
+    if (Array.isArray(responses)) {
+        for (const item of responses) {
+            if (item && typeof item === 'object' && item.id != null && typeof item.status === 'number') {
+                byId.set(String(item.id), item as BatchResponseItem);
+            }
+        }
+    }
+    return ids.map(id => byId.get(id) ?? null);
+}
+
+/** Decide what the batch response means for the calls with these `ids` (see {@link BatchResolution}). */
+export function resolveBatchResponse(ids: string[], response: { status: string; data: unknown }): BatchResolution {
+    if (response.status !== 'ok') {
+        const httpStatus = (response.data as { httpStatus?: number | null } | null)?.httpStatus;
+        return httpStatus === 404 ? { type: 'unsupported' } : { type: 'failed' };
+    }
+    const items = splitBatchResponse(ids, response.data);
+    return { type: 'split', items: items.map(item => item && item.status !== 401 ? item : null) };
+}
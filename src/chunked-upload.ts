@@ -0,0 +1,244 @@
+/**
+ * Resumable chunked uploads — chunk planning, persisted sessions and the upload
+ * loop (SPEC §5.4.1).
+ *
+ * The wire format is a {@link ChunkedUploadProtocol}; the built-in ones (the
+ * StoneScriptPHP chunk protocol and tus 1.0) live in `upload-protocols.ts`.
+ * Progress is saved after every chunk, keyed by a fingerprint of the target
+ * path and file, so picking the same file again after a reload resumes where
+ * the previous attempt stopped.
+ */
+
+/** Byte range of one chunk; `end` is exclusive. */
+export interface ChunkRange {
+    index: number;
+    start: number;
+    end: number;
+}
+
+/** What a protocol learns about the file being uploaded. */
+export interface UploadFileInfo {
+    name: string;
+    size: number;
+    type: string;
+    chunkSize: number;
+    /** Extra fields sent when the upload is created. */
+    metadata: Record<string, string>;
+}
+
+/**
+ * Wire format of a resumable upload. Steps reject to fail the upload; the
+ * rejection reason reaches the caller unchanged.
+ */
+export interface ChunkedUploadProtocol<T> {
+    /** Upper bound on parallel chunk requests; tus needs 1. @default unbounded */
+    readonly maxConcurrency?: number;
+    /** Start an upload; resolves to the server's upload id (or URL). */
+    create(file: UploadFileInfo): Promise<string>;
+    /**
+     * Indices of the chunks the server already holds, or null when the upload
+     * is unknown or expired (it is then started over).
+     */
+    status(id: string, chunks: ChunkRange[], file: UploadFileInfo): Promise<number[] | null>;
+    /** Send one chunk. `onProgress` receives the bytes of this chunk sent so far. */
+    uploadChunk(id: string, chunk: ChunkRange, data: Blob, file: UploadFileInfo, onProgress: (loaded: number) => void, signal?: AbortSignal): Promise<void>;
+    /** Finish the upload once every chunk is stored. */
+    commit(id: string, file: UploadFileInfo): Promise<T>;
+}
+
+/** Saved state of an unfinished upload. */
+export interface UploadSession {
+    fingerprint: string;
+    /** Server upload id (or URL) from `create`. */
+    id: string;
+    size: number;
+    chunkSize: number;
+    /** Chunk indices confirmed by the server. */
+    completed: number[];
+    updatedAt: number;
+}
+
+export interface UploadSessionStore {
+    get(fingerprint: string): UploadSession | null;
+    set(session: UploadSession): void;
+    delete(fingerprint: string): void;
+}
+
+const STORAGE_PREFIX = 'progalaxyapi_upload:';
+
+/** Sessions in localStorage, so uploads resume after a reload. */
+export class LocalStorageUploadSessionStore implements UploadSessionStore {
+
+    get(fingerprint: string): UploadSession | null {
+        try {
+            const raw = localStorage.getItem(STORAGE_PREFIX + fingerprint);
+            return raw ? JSON.parse(raw) as UploadSession : null;
+        } catch {
+            return null;
+        }
+    }
+
+    set(session: UploadSession): void {
+        try {
+            localStorage.setItem(STORAGE_PREFIX + session.fingerprint, JSON.stringify(session));
+        } catch (error) {
+            // Quota or privacy mode: the upload still works, it just can't resume after a reload.
+            console.warn('[ChunkedUpload] Failed to save upload progress:', error);
+        }
+    }
+
+    delete(fingerprint: string): void {
+        try {
+            localStorage.removeItem(STORAGE_PREFIX + fingerprint);
+        } catch {
+            // Nothing saved.
+        }
+    }
+}
+
+/** In-memory sessions — used where localStorage is unavailable (SSR, tests). */
+export class MemoryUploadSessionStore implements UploadSessionStore {
+
+    private sessions = new Map<string, UploadSession>();
+
+    get(fingerprint: string): UploadSession | null {
+        const session = this.sessions.get(fingerprint);
+        return session ? { ...session, completed: [...session.completed] } : null;
+    }
+
+    set(session: UploadSession): void {
+        this.sessions.set(session.fingerprint, { ...session, completed: [...session.completed] });
+    }
+
+    delete(fingerprint: string): void {
+        this.sessions.delete(fingerprint);
+    }
+}
+
+/** localStorage when the platform has it, memory otherwise. */
+export function createUploadSessionStore(): UploadSessionStore {
+    return typeof localStorage !== 'undefined' ? new LocalStorageUploadSessionStore() : new MemoryUploadSessionStore();
+}
+
+/** Split `size` bytes into chunks of `chunkSize` (the last one may be shorter). */
+export function planChunks(size: number, chunkSize: number): ChunkRange[] {
+    if (!(chunkSize > 0)) throw new Error(`Invalid chunk size ${chunkSize}`);
+    // An empty file is still one (empty) chunk, so the server sees an upload.
+    if (size === 0) return [{ index: 0, start: 0, end: 0 }];
+    const chunks: ChunkRange[] = [];
+    for (let index = 0, start = 0; start < size; index++, start += chunkSize) {
+        chunks.push({ index, start, end: Math.min(size, start + chunkSize) });
+    }
+    return chunks;
+}
+
+/**
+ * Identifies "the same upload" across reloads: target path plus the file's
+ * name, size and modification time.
+ */
+export function uploadFingerprint(path: string, file: { name?: string; size: number; lastModified?: number }): string {
+    return [path, file.name ?? '', file.size, file.lastModified ?? ''].join('|');
+}
+
+/**
+ * Run `task` over `items` with at most `limit` in flight. Stops starting new
+ * items after the first failure and rejects with it once the running ones
+ * have settled.
+ */
+export async function runWithConcurrency<I>(items: I[], limit: number, task: (item: I) => Promise<void>): Promise<void> {
+    let next = 0;
+    let failure: { error: unknown } | null = null;
+
+    const worker = async () => {
+        while (!failure && next < items.length) {
+            const item = items[next++];
+            try {
+                await task(item);
+            } catch (error) {
+                failure ??= { error };
+            }
+        }
+    };
+
+    const workers = Math.max(1, Math.min(limit, items.length));
+    await Promise.all(Array.from({ length: workers }, worker));
+    if (failure) throw (failure as { error: unknown }).error;
+}
+
+export interface ChunkedUploadRun<T> {
+    protocol: ChunkedUploadProtocol<T>;
+    store: UploadSessionStore;
+    file: Blob;
+    info: UploadFileInfo;
+    fingerprint: string;
+    concurrency: number;
+    signal?: AbortSignal;
+    /** Total bytes stored so far, in-flight chunks included. */
+    onProgress?: (loaded: number, total: number) => void;
+    /** Every chunk is stored; the commit call starts. */
+    onCommit?: () => void;
+}
+
+/**
+ * Upload `file` in chunks, resuming a saved session for the same fingerprint
+ * when the server still has it. The saved session is removed after a
+ * successful commit and kept on failure or cancellation.
+ */
+export async function runChunkedUpload<T>(run: ChunkedUploadRun<T>): Promise<T> {
+    const { protocol, store, file, info, fingerprint, signal } = run;
+    const chunks = planChunks(info.size, info.chunkSize);
+    const done = new Set<number>();
+
+    let session = store.get(fingerprint);
+    if (session && (session.size !== info.size || session.chunkSize !== info.chunkSize)) {
+        session = null;
+    }
+    if (session) {
+        const received = await protocol.status(session.id, chunks, info);
+        if (received) {
+            received.forEach(index => done.add(index));
+        } else {
+            session = null;
+        }
+    }
+    if (!session) {
+        session = { fingerprint, id: await protocol.create(info), size: info.size, chunkSize: info.chunkSize, completed: [], updatedAt: Date.now() };
+    }
+    session.completed = [...done];
+    store.set(session);
+
+    const length = (chunk: ChunkRange) => chunk.end - chunk.start;
+    let stored = chunks.filter(chunk => done.has(chunk.index)).reduce((sum, chunk) => sum + length(chunk), 0);
+    const inFlight = new Map<number, number>();
+    const report = () => {
+        let loaded = stored;
+        inFlight.forEach(bytes => loaded += bytes);
+        run.onProgress?.(Math.min(loaded, info.size), info.size);
+    };
+    report();
+
+    const active = session;
+    const limit = Math.min(run.concurrency, protocol.maxConcurrency ?? Infinity);
+    await runWithConcurrency(chunks.filter(chunk => !done.has(chunk.index)), limit, async chunk => {
+        if (signal?.aborted) throw signal.reason;
+        inFlight.set(chunk.index, 0);
+        try {
+            await protocol.uploadChunk(active.id, chunk, file.slice(chunk.start, chunk.end), info, loaded => {
+                inFlight.set(chunk.index, Math.min(loaded, length(chunk)));
+                report();
+            }, signal);
+        } finally {
+            inFlight.delete(chunk.index);
+        }
+        done.add(chunk.index);
+        stored += length(chunk);
+        store.set({ ...active, completed: [...done], updatedAt: Date.now() });
+        report();
+    });
+
+    if (signal?.aborted) throw signal.reason;
+    run.onCommit?.();
+    const result = await protocol.commit(active.id, info);
+    store.delete(fingerprint);
+    return result;
+}
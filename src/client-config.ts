@@ -0,0 +1,222 @@
+/**
+ * Client-side behaviour options for the library's services (SPEC §8.5).
+ *
+ * Passed as the 4th argument of `provideNgxStoneScriptPhpClient`. Like the guard
+ * config (SPEC §7.2), every field is optional and falls back to
+ * {@link DEFAULT_CLIENT_CONFIG}; the resolved value is injected via
+ * {@link NGX_CLIENT_CONFIG}.
+ */
+import { InjectionToken, Type } from '@angular/core';
+import { ApiInterceptor } from './api-interceptor';
+import { RetryPolicy, DEFAULT_RETRY_POLICY } from './retry-policy';
+import { BatchWindow } from './batch';
+import { QuerySerialization } from './query-string';
+
+/** Proactive access-token renewal driven by the JWT `exp` claim. */
+export interface TokenRenewalConfig {
+    /**
+     * Run refresh → exchange in the background before the access token expires,
+     * instead of waiting for the first request to come back 401.
+     * @default false
+     */
+    enabled: boolean;
+    /**
+     * How many seconds before `exp` the renewal runs. Absorbs clock skew between
+     * client and server plus the refresh round trip.
+     * @default 60
+     */
+    skewSeconds: number;
+}
+
+/** Cross-tab propagation of login, logout, refresh, tenant switch and profile changes. */
+export interface SessionSyncConfig {
+    /**
+     * Keep every open tab's `AuthService.user` signal in step, and let only one
+     * tab at a time perform a scheduled renewal.
+     * @default true
+     */
+    enabled: boolean;
+    /**
+     * BroadcastChannel name (also the `storage`-event key in the fallback).
+     * Change it if several apps on the same origin must not share sessions.
+     * @default 'progalaxyapi_session_sync'
+     */
+    channelName: string;
+}
+
+/** Defaults for `createApiQuery` (SPEC §5.6); each query may override them. */
+export interface QueryConfig {
+    /**
+     * How long fetched data counts as fresh, in ms. Stale data is still shown
+     * while it is revalidated in the background.
+     * @default 30000
+     */
+    ttlMs: number;
+    /** Revalidate stale, mounted queries when the window regains focus. @default true */
+    refetchOnFocus: boolean;
+    /** Revalidate stale, mounted queries when the browser comes back online. @default true */
+    refetchOnReconnect: boolean;
+}
+
+/** Offline outbox for mutations (SPEC §5.8). */
+export interface OutboxConfig {
+    /**
+     * Queue POST / PUT / PATCH / DELETE calls that fail with a network error in
+     * IndexedDB and replay them in order once the browser is back online.
+     * `RequestOptions.outbox` overrides this per call.
+     * @default false
+     */
+    enabled: boolean;
+    /**
+     * IndexedDB database name. Change it if several apps on the same origin must
+     * not share a queue.
+     * @default 'progalaxyapi_outbox'
+     */
+    dbName: string;
+}
+
+/** Defaults for `ApiConnectionService.uploadChunked()` (SPEC §5.4.1); each upload may override them. */
+export interface UploadConfig {
+    /** Bytes per chunk. @default 5242880 (5 MiB) */
+    chunkSize: number;
+    /** Chunks in flight at once. @default 3 */
+    concurrency: number;
+}
+
+/** Reconnect backoff of `RealtimeService` (SPEC §5.10). */
+export interface RealtimeConfig {
+    /** Delay before the first reconnect in ms; doubles per attempt, with jitter. @default 1000 */
+    baseDelayMs: number;
+    /** Upper bound for a single reconnect delay in ms. @default 30000 */
+    maxDelayMs: number;
+}
+
+/** Coalescing of GET calls into one batch request (SPEC §5.11). */
+export interface BatchConfig {
+    /**
+     * Send GETs made within the same `window` as one POST to `endpoint`.
+     * `RequestOptions.batch` overrides this per call.
+     * @default false
+     */
+    enabled: boolean;
+    /** Batch endpoint path on `apiServer.host`. @default '/batch' */
+    endpoint: string;
+    /** Collect calls until the end of the current microtask or animation frame. @default 'microtask' */
+    window: BatchWindow;
+    /** Most calls in one batch request; more are split into several. @default 20 */
+    maxSize: number;
+}
+
+/** Caching of the subscription status by `SubscriptionService` (SPEC §7.6). */
+export interface SubscriptionConfig {
+    /**
+     * How long a tenant's subscription status is reused before subscriptionGuard,
+     * featureGuard or `*ifFeature` fetch it again, in ms.
+     * @default 300000
+     */
+    ttlMs: number;
+}
+
+/** Full client configuration (SPEC §8.5). */
+export interface NgxClientConfig {
+    tokenRenewal: TokenRenewalConfig;
+    sessionSync: SessionSyncConfig;
+    /** ApiConnectionService retry policy for transient failures (see `retry-policy.ts`). */
+    retry: RetryPolicy;
+    /** Default encoding of nested query params (see `query-string.ts`); `RequestOptions.querySerialization` overrides it. */
+    querySerialization: QuerySerialization;
+    query: QueryConfig;
+    outbox: OutboxConfig;
+    upload: UploadConfig;
+    realtime: RealtimeConfig;
+    batch: BatchConfig;
+    subscription: SubscriptionConfig;
+}
+
+/**
+ * Shape accepted by `provideNgxStoneScriptPhpClient`'s 4th arg. Every section is
+ * optional and may be partially overridden.
+ */
+export interface NgxClientConfigInput {
+    tokenRenewal?: Partial<TokenRenewalConfig>;
+    sessionSync?: Partial<SessionSyncConfig>;
+    retry?: Partial<RetryPolicy>;
+    querySerialization?: QuerySerialization;
+    query?: Partial<QueryConfig>;
+    outbox?: Partial<OutboxConfig>;
+    upload?: Partial<UploadConfig>;
+    realtime?: Partial<RealtimeConfig>;
+    batch?: Partial<BatchConfig>;
+    subscription?: Partial<SubscriptionConfig>;
+    /**
+     * ApiConnectionService interceptors, outermost first. Classes are instantiated
+     * by DI (so they can inject services); instances are used as-is. Registered as
+     * `API_INTERCEPTORS` multi-providers — not part of the resolved config.
+     */
+    interceptors?: Array<Type<ApiInterceptor> | ApiInterceptor>;
+}
+
+/** Defaults; consuming apps override via `provideNgxStoneScriptPhpClient`'s 4th arg. */
+export const DEFAULT_CLIENT_CONFIG: NgxClientConfig = {
+    tokenRenewal: {
+        enabled: false,
+        skewSeconds: 60
+    },
+    sessionSync: {
+        enabled: true,
+        channelName: 'progalaxyapi_session_sync'
+    },
+    retry: DEFAULT_RETRY_POLICY,
+    querySerialization: 'flatten',
+    query: {
+        ttlMs: 30_000,
+        refetchOnFocus: true,
+        refetchOnReconnect: true
+    },
+    outbox: {
+        enabled: false,
+        dbName: 'progalaxyapi_outbox'
+    },
+    upload: {
+        chunkSize: 5 * 1024 * 1024,
+        concurrency: 3
+    },
+    realtime: {
+        baseDelayMs: 1000,
+        maxDelayMs: 30_000
+    },
+    batch: {
+        enabled: false,
+        endpoint: '/batch',
+        window: 'microtask',
+        maxSize: 20
+    },
+    subscription: {
+        ttlMs: 300_000
+    }
+};
+
+/** Merge a partial client config over the defaults, section by section. */
+export function resolveClientConfig(input?: NgxClientConfigInput): NgxClientConfig {
+    return {
+        tokenRenewal: { ...DEFAULT_CLIENT_CONFIG.tokenRenewal, ...(input?.tokenRenewal ?? {}) },
+        sessionSync: { ...DEFAULT_CLIENT_CONFIG.sessionSync, ...(input?.sessionSync ?? {}) },
+        retry: { ...DEFAULT_CLIENT_CONFIG.retry, ...(input?.retry ?? {}) },
+        querySerialization: input?.querySerialization ?? DEFAULT_CLIENT_CONFIG.querySerialization,
+        query: { ...DEFAULT_CLIENT_CONFIG.query, ...(input?.query ?? {}) },
+        outbox: { ...DEFAULT_CLIENT_CONFIG.outbox, ...(input?.outbox ?? {}) },
+        upload: { ...DEFAULT_CLIENT_CONFIG.upload, ...(input?.upload ?? {}) },
+        realtime: { ...DEFAULT_CLIENT_CONFIG.realtime, ...(input?.realtime ?? {}) },
+        batch: { ...DEFAULT_CLIENT_CONFIG.batch, ...(input?.batch ?? {}) },
+        subscription: { ...DEFAULT_CLIENT_CONFIG.subscription, ...(input?.subscription ?? {}) }
+    };
+}
+
+/**
+ * DI token carrying the resolved client configuration. Always provided by
+ * `provideNgxStoneScriptPhpClient`; the root factory is a safety net.
+ */
+export const NGX_CLIENT_CONFIG = new InjectionToken<NgxClientConfig>('NGX_CLIENT_CONFIG', {
+    providedIn: 'root',
+    factory: () => DEFAULT_CLIENT_CONFIG
+});
@@ -0,0 +1,12 @@
+import { InjectionToken } from '@angular/core';
+import { NgxGuardConfig, DEFAULT_GUARD_CONFIG } from './guard-config';
+
+/**
+ * DI token carrying the resolved guard configuration. `provideNgxStoneScriptPhpClient`
+ * always provides it (merging the consuming app's 3rd-arg config over the defaults);
+ * the root factory below is a safety net if the provider is somehow absent.
+ */
+export const NGX_GUARD_CONFIG = new InjectionToken<NgxGuardConfig>('NGX_GUARD_CONFIG', {
+    providedIn: 'root',
+    factory: () => DEFAULT_GUARD_CONFIG
+});
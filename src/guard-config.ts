@@ -7,20 +7,35 @@
  * on these stays framework-free and unit-testable.
  */
 
+/**
+ * A route the guards exempt from a check (SPEC §7.2). Matched against the URL
+ * path, without query string or fragment:
+ *  - a path without `*` is a segment-aware prefix — `'/billing'` matches
+ *    `/billing` and `/billing/invoices` but not `/billing-faq`;
+ *  - a path with `*` is a glob — `*` matches within one segment, `**` across
+ *    segments, and a trailing `/**` also matches the path itself
+ *    (`'/invites/*'`, `'/settings/**'`);
+ *  - a function receives the path and the full URL.
+ */
+export type RouteMatcher = string | ((path: string, url: string) => boolean);
+
 /** Redirect targets the guards navigate to (SPEC §7.2). */
 export interface NgxGuardRoutes {
     /** Where authGuard sends unauthenticated users, and where exchange-failures land. */
     login: string;
-    /** Where loginGuard sends already-authenticated-with-tenant users. */
+    /** Where loginGuard sends already-authenticated-with-tenant users without a return URL. */
     dashboard: string;
     /**
      * Onboarding path prefix. authGuard redirects tenant-less users here, and
-     * both authGuard and subscriptionGuard treat URLs under this prefix as
-     * "onboarding in progress" and skip their tenant / subscription checks.
+     * both authGuard and subscriptionGuard treat URLs under this prefix
+     * (segment-aware, like a {@link RouteMatcher}) as "onboarding in progress"
+     * and skip their tenant / subscription checks.
      */
     onboarding: string;
     /** Where subscriptionGuard sends users whose subscription check returns 4xx. */
     subscriptionError: string;
+    /** Where roleGuard / permissionGuard send signed-in users who lack the route's roles or permissions. */
+    forbidden: string;
 }
 
 /** Full guard configuration (SPEC §7.2). */
@@ -47,6 +62,41 @@ export interface NgxGuardConfig {
      * @default true
      */
     requireTenant: boolean;
+    /**
+     * JWT claim roleGuard reads the user's roles from: a string, a space- or
+     * comma-separated list, or an array. Dot paths reach nested claims
+     * (`'realm_access.roles'`).
+     * @default 'role'
+     */
+    roleClaim: string;
+    /**
+     * JWT claim permissionGuard reads the user's permission strings from, in the
+     * same forms as {@link roleClaim}.
+     * @default 'permissions'
+     */
+    permissionsClaim: string;
+    /**
+     * Query param authGuard (and roleGuard / permissionGuard) attach to their
+     * login and onboarding redirects, holding the URL that was denied; loginGuard
+     * and `ReturnUrlService` send the user back there (SPEC §7.5). Empty string
+     * turns return URLs off.
+     * @default 'returnUrl'
+     */
+    returnUrlParam: string;
+    /**
+     * Routes authGuard lets tenant-less users reach without bouncing them to
+     * onboarding (profile, invite acceptance, …). Authentication is still
+     * required. The onboarding route is always exempt.
+     * @default []
+     */
+    tenantExemptRoutes: RouteMatcher[];
+    /**
+     * Routes subscriptionGuard and featureGuard let through without checking the
+     * subscription (billing, plan selection, …). The onboarding route is always
+     * exempt.
+     * @default []
+     */
+    subscriptionExemptRoutes: RouteMatcher[];
 }
 
 /**
@@ -60,6 +110,16 @@ export interface NgxGuardConfigInput {
     subscriptionStatusEndpoint?: string;
     /** See {@link NgxGuardConfig.requireTenant}. @default true */
     requireTenant?: boolean;
+    /** See {@link NgxGuardConfig.roleClaim}. @default 'role' */
+    roleClaim?: string;
+    /** See {@link NgxGuardConfig.permissionsClaim}. @default 'permissions' */
+    permissionsClaim?: string;
+    /** See {@link NgxGuardConfig.returnUrlParam}. @default 'returnUrl' */
+    returnUrlParam?: string;
+    /** See {@link NgxGuardConfig.tenantExemptRoutes}. @default [] */
+    tenantExemptRoutes?: RouteMatcher[];
+    /** See {@link NgxGuardConfig.subscriptionExemptRoutes}. @default [] */
+    subscriptionExemptRoutes?: RouteMatcher[];
 }
 
 /** Sensible defaults; consuming apps override via `provideNgxStoneScriptPhpClient`'s 3rd arg. */
@@ -68,9 +128,15 @@ export const DEFAULT_GUARD_CONFIG: NgxGuardConfig = {
         login: '/login',
         dashboard: '/dashboard',
         onboarding: '/onboarding',
-        subscriptionError: '/subscription-error'
+        subscriptionError: '/subscription-error',
+        forbidden: '/forbidden'
     },
     exchangeEndpoint: 'api/auth/exchange',
     subscriptionStatusEndpoint: 'subscription/status',
-    requireTenant: true
+    requireTenant: true,
+    roleClaim: 'role',
+    permissionsClaim: 'permissions',
+    returnUrlParam: 'returnUrl',
+    tenantExemptRoutes: [],
+    subscriptionExemptRoutes: []
 };
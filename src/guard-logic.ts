@@ -4,8 +4,16 @@
  * The exported Angular `CanActivateFn`s in `guards.ts` are thin adapters that
  * inject the real services and delegate here. Keeping the decisions pure makes
  * the full §7.1 decision matrix unit-testable without an Angular test harness.
+ *
+ * Guards decide on the client-side auth state (SPEC §4.4, `auth-state.ts`) rather
+ * than on raw JWT claims; only the role / permission checks read claims, and
+ * only once the session decision has allowed the route.
  */
-import { NgxGuardRoutes } from './guard-config';
+import { NgxGuardRoutes, RouteMatcher } from './guard-config';
+import { AuthState, SESSION_STATES, isPlatformState } from './auth-state';
+import { safeReturnUrl, withReturnUrl } from './return-url';
+
+export { isPlatformToken, hasTenant } from './auth-state';
 
 /** A guard decision: allow navigation, or redirect to a path. */
 export type GuardDecision = { allow: true } | { allow: false; redirectTo: string };
@@ -13,63 +21,102 @@ export type GuardDecision = { allow: true } | { allow: false; redirectTo: string
 const ALLOW: GuardDecision = { allow: true };
 const deny = (redirectTo: string): GuardDecision => ({ allow: false, redirectTo });
 
-/**
- * A token is a "platform" token once it has been exchanged with the platform API
- * (AUTH-SPEC external mode). Detected by the canonical `token_type === 'platform'`
- * marker — NOT by any legacy integer surrogate (e.g. `local_user_id`, removed in
- * the identity_id re-key). A platform token must NEVER be re-exchanged.
- */
-export function isPlatformToken(payload: Record<string, any> | null): boolean {
-    return payload?.['token_type'] === 'platform';
+/** The path part of a router URL: no query string or fragment, no trailing slash (except the root). */
+export function routePath(url: string): string {
+    const path = url.split(/[?#]/)[0] || '/';
+    return path.length > 1 ? path.replace(/\/+$/, '') || '/' : path;
 }
 
-/** A user "has a tenant" when the JWT `tenant_id` claim is present and not the sentinel 'none'. */
-export function hasTenant(payload: Record<string, any> | null): boolean {
-    const tenantId = payload?.['tenant_id'];
-    return !!tenantId && tenantId !== 'none';
+/** True when the URL's path matches `matcher` (see {@link RouteMatcher}). */
+export function matchesRoute(url: string, matcher: RouteMatcher): boolean {
+    const path = routePath(url);
+    if (typeof matcher === 'function') {
+        return matcher(path, url);
+    }
+    const pattern = routePath(matcher);
+    if (!pattern.includes('*')) {
+        return pattern === '/' || path === pattern || path.startsWith(`${pattern}/`);
+    }
+    return globPattern(pattern).test(path);
+}
+
+/** True when the URL's path matches any of `matchers`. */
+export function matchesAnyRoute(url: string, matchers: readonly RouteMatcher[] | undefined): boolean {
+    return (matchers ?? []).some(matcher => matchesRoute(url, matcher));
 }
 
-/** True when the URL is under the onboarding path prefix. */
+/** True when the URL is the onboarding route or below it (segment-aware). */
 export function isOnboardingPath(url: string, routes: NgxGuardRoutes): boolean {
-    return url.startsWith(routes.onboarding);
+    return matchesRoute(url, routes.onboarding);
+}
+
+/** `*` → within one segment, `**` → across segments; a trailing `/**` also matches the bare path. */
+function globPattern(glob: string): RegExp {
+    const anyBelow = glob.endsWith('/**');
+    const source = (anyBelow ? glob.slice(0, -3) : glob)
+        .split(/(\*\*|\*)/)
+        .map(part => part === '**' ? '.*' : part === '*' ? '[^/]*' : part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('');
+    return new RegExp(`^${source}${anyBelow ? '(?:/.*)?' : ''}$`);
 }
 
 /**
  * authGuard decision (SPEC §7.1 + AUTH-SPEC exchange-before-API):
- *  1. not authenticated            → redirect login
- *  2. token is not yet a platform  → exchange identity→platform; on failure → login
- *     token                          (a platform token is NOT re-exchanged — #2811 seam)
- *  3. tenant-aware mode only: no tenant & not onboarding → redirect onboarding
- *  4. otherwise                    → allow
+ *  1. refreshing / expired         → await the session renewal; on failure → login
+ *  2. anonymous                    → redirect login
+ *  3. not yet a platform state     → exchange identity→platform; on failure → login
+ *                                    (a platform token is NOT re-exchanged — #2811 seam)
+ *  4. tenant-aware mode only: not platform-with-tenant & not onboarding or
+ *     tenant-exempt → redirect onboarding
+ *  5. otherwise                    → allow
  *
- * The exchange-before-API step (1–2) is tenant-independent and always runs.
- * The tenant gate (3) applies only when `requireTenant` is true (default);
+ * The exchange-before-API step (1–3) is tenant-independent and always runs.
+ * The tenant gate (4) applies only when `requireTenant` is true (default);
  * tenant-less single-plan B2C consumers set it false and skip the gate.
+ *
+ * With `returnUrlParam` set, the login and onboarding redirects carry the
+ * denied URL in that query param (SPEC §7.5).
  */
 export async function evaluateAuthGuard(ctx: {
-    isAuthenticated: boolean;
     url: string;
     routes: NgxGuardRoutes;
     requireTenant?: boolean;
-    getPayload: () => Record<string, any> | null;
+    getState: () => AuthState;
     exchange: () => Promise<{ success: boolean }>;
+    /** Join / start a token refresh. Without it, refreshing and expired sessions go to login. */
+    renew?: () => Promise<boolean>;
+    /** Query param for the denied URL on login / onboarding redirects; unset attaches none. */
+    returnUrlParam?: string;
+    /** Routes that skip the tenant gate (step 4), besides onboarding. */
+    tenantExempt?: readonly RouteMatcher[];
 }): Promise<GuardDecision> {
-    if (!ctx.isAuthenticated) {
-        return deny(ctx.routes.login);
+    let state = ctx.getState();
+    const login = withReturnUrl(ctx.routes.login, ctx.url, ctx.returnUrlParam, ctx.routes.login);
+
+    if (state === 'refreshing' || state === 'expired') {
+        const renewed = ctx.renew ? await ctx.renew() : false;
+        if (!renewed) {
+            return deny(login);
+        }
+        state = ctx.getState();
     }
 
-    let payload = ctx.getPayload();
-    if (!isPlatformToken(payload)) {
+    if (state === 'anonymous') {
+        return deny(login);
+    }
+
+    if (!isPlatformState(state)) {
         const result = await ctx.exchange();
         if (!result.success) {
-            return deny(ctx.routes.login);
+            return deny(login);
         }
-        payload = ctx.getPayload();
+        state = ctx.getState();
     }
 
     const requireTenant = ctx.requireTenant !== false; // default true
-    if (requireTenant && !hasTenant(payload) && !isOnboardingPath(ctx.url, ctx.routes)) {
-        return deny(ctx.routes.onboarding);
+    if (requireTenant && state !== 'platform-with-tenant'
+        && !isOnboardingPath(ctx.url, ctx.routes) && !matchesAnyRoute(ctx.url, ctx.tenantExempt)) {
+        return deny(withReturnUrl(ctx.routes.onboarding, ctx.url, ctx.returnUrlParam, ctx.routes.login));
     }
 
     return ALLOW;
@@ -77,23 +124,136 @@ export async function evaluateAuthGuard(ctx: {
 
 /**
  * loginGuard decision (SPEC §7.1):
- *  - tenant-aware (default): authenticated WITH tenant → dashboard; otherwise allow
- *    (a tenant-less authenticated user stays on login to select a tenant).
- *  - tenant-less (`requireTenant` false): any authenticated user → dashboard
- *    (never sit a logged-in user on the login page; there is no tenant to pick).
+ *  - tenant-aware (default): platform-with-tenant → dashboard; otherwise allow
+ *    (a tenant-less or not-yet-exchanged user stays on login to finish sign-in).
+ *  - tenant-less (`requireTenant` false): any user with a live session →
+ *    dashboard (never sit a logged-in user on the login page; there is no
+ *    tenant to pick). Expired and refreshing sessions stay on login.
+ *
+ * A safe `returnUrl` (SPEC §7.5) replaces the dashboard as the redirect target.
  */
 export function evaluateLoginGuard(ctx: {
-    isAuthenticated: boolean;
     routes: NgxGuardRoutes;
     requireTenant?: boolean;
-    getPayload: () => Record<string, any> | null;
+    getState: () => AuthState;
+    /** Where the user was headed before being sent to login; validated here. */
+    returnUrl?: string | null;
 }): GuardDecision {
     const requireTenant = ctx.requireTenant !== false; // default true
-    const redirectToDashboard = ctx.isAuthenticated &&
-        (requireTenant ? hasTenant(ctx.getPayload()) : true);
+    const state = ctx.getState();
+    const redirectToDashboard = requireTenant
+        ? state === 'platform-with-tenant'
+        : SESSION_STATES.includes(state);
     if (redirectToDashboard) {
-        return deny(ctx.routes.dashboard);
+        return deny(safeReturnUrl(ctx.returnUrl, ctx.routes.login) ?? ctx.routes.dashboard);
+    }
+    return ALLOW;
+}
+
+/**
+ * Authorization requirements read from a route's `data` by roleGuard and
+ * permissionGuard (SPEC §7.1).
+ */
+export interface RoleGuardData {
+    /** Roles the route accepts. */
+    roles?: string[];
+    /** `any` — one of `roles` is enough; `all` — every role is needed. @default 'any' */
+    roleMatch?: 'any' | 'all';
+    /** Permission strings the route needs. */
+    permissions?: string[];
+    /** `all` — every permission is needed; `any` — one is enough. @default 'all' */
+    permissionMatch?: 'any' | 'all';
+}
+
+/**
+ * Read a claim as a list of strings. Accepts an array, or a string holding one
+ * value or a space- / comma-separated list; `claim` may be a dot path into
+ * nested claims. Anything else reads as an empty list.
+ */
+export function readClaimList(claims: Record<string, any> | null | undefined, claim: string): string[] {
+    const value = claim.split('.').reduce<any>((node, key) => node == null ? undefined : node[key], claims);
+    if (Array.isArray(value)) {
+        return value.filter(item => typeof item === 'string' || typeof item === 'number').map(String);
+    }
+    if (typeof value === 'string') {
+        return value.split(/[\s,]+/).filter(Boolean);
+    }
+    return [];
+}
+
+/**
+ * Whether `granted` satisfies `required` under `match`. An empty or absent
+ * requirement is always met.
+ */
+export function meetsRequirement(granted: string[], required: string[] | undefined, match: 'any' | 'all'): boolean {
+    if (!required || required.length === 0) {
+        return true;
+    }
+    return match === 'all'
+        ? required.every(item => granted.includes(item))
+        : required.some(item => granted.includes(item));
+}
+
+/** A directive input (SPEC §7.4) as a list: one value, several, or none. */
+export function requirementList(value: string | string[] | null | undefined): string[] {
+    return value == null || value === '' ? [] : Array.isArray(value) ? value : [value];
+}
+
+/**
+ * `*ifRole` / `*ifPermission` / `*ifFeature` (SPEC §7.4): `required` is met and
+ * something is granted at all — a user without roles never sees role content.
+ */
+export function isGranted(
+    granted: string[],
+    required: string | string[] | null | undefined,
+    match: 'any' | 'all'
+): boolean {
+    return granted.length > 0 && meetsRequirement(granted, requirementList(required), match);
+}
+
+/**
+ * `*ifTenant` (SPEC §7.4): the token is scoped to a tenant, and to one of
+ * `wanted` when any are given.
+ */
+export function isTenantMatch(tenantId: string | null, wanted: string | string[] | null | undefined): boolean {
+    const list = requirementList(wanted);
+    return tenantId !== null && (list.length === 0 || list.includes(tenantId));
+}
+
+/**
+ * roleGuard / permissionGuard decision (SPEC §7.1):
+ *  1. the authGuard decision (renew, exchange, tenant gate) — a redirect there wins
+ *  2. roles not met (any-of by default)       → redirect forbidden
+ *  3. permissions not met (all-of by default) → redirect forbidden
+ *  4. otherwise                               → allow
+ *
+ * Claims are read after step 1, so they come from the exchanged platform token
+ * rather than the identity token the session may have started with.
+ */
+export async function evaluateRoleGuard(ctx: Parameters<typeof evaluateAuthGuard>[0] & {
+    requirement: RoleGuardData;
+    /** Decoded claims of the current access token. */
+    getClaims: () => Record<string, any> | null;
+    roleClaim: string;
+    permissionsClaim: string;
+}): Promise<GuardDecision> {
+    const session = await evaluateAuthGuard(ctx);
+    if (!session.allow) {
+        return session;
+    }
+
+    const { requirement } = ctx;
+    const claims = ctx.getClaims();
+    const rolesMet = meetsRequirement(readClaimList(claims, ctx.roleClaim), requirement.roles, requirement.roleMatch ?? 'any');
+    const permissionsMet = meetsRequirement(
+        readClaimList(claims, ctx.permissionsClaim),
+        requirement.permissions,
+        requirement.permissionMatch ?? 'all'
+    );
+    if (!rolesMet || !permissionsMet) {
+        return deny(ctx.routes.forbidden);
     }
+
     return ALLOW;
 }
 
@@ -109,7 +269,7 @@ export interface SubscriptionProbe {
 
 /**
  * subscriptionGuard decision (SPEC §7.1):
- *  - onboarding path     → allow (no subscription check)
+ *  - onboarding or exempt path → allow (no subscription check)
  *  - 2xx                 → allow
  *  - 4xx                 → redirect subscriptionError
  *  - 5xx / network error → allow (fail-open)
@@ -118,8 +278,10 @@ export function evaluateSubscriptionGuard(ctx: {
     url: string;
     routes: NgxGuardRoutes;
     probe: SubscriptionProbe;
+    /** Routes that skip the subscription check, besides onboarding. */
+    exempt?: readonly RouteMatcher[];
 }): GuardDecision {
-    if (isOnboardingPath(ctx.url, ctx.routes)) {
+    if (isSubscriptionExempt(ctx)) {
         return ALLOW;
     }
     if (ctx.probe.ok) {
@@ -132,3 +294,43 @@ export function evaluateSubscriptionGuard(ctx: {
     // 5xx or network/transport error → fail-open
     return ALLOW;
 }
+
+function isSubscriptionExempt(ctx: { url: string; routes: NgxGuardRoutes; exempt?: readonly RouteMatcher[] }): boolean {
+    return isOnboardingPath(ctx.url, ctx.routes) || matchesAnyRoute(ctx.url, ctx.exempt);
+}
+
+/** Entitlements read from a route's `data` by featureGuard (SPEC §7.6). */
+export interface FeatureGuardData {
+    /** Feature keys the route needs. */
+    features?: string[];
+    /** `all` — every feature is needed; `any` — one is enough. @default 'all' */
+    featureMatch?: 'any' | 'all';
+}
+
+/**
+ * featureGuard decision (SPEC §7.6):
+ *  1. the subscriptionGuard decision — onboarding / exempt allows, 4xx redirects subscriptionError
+ *  2. status unknown (5xx / network) → allow (fail-open, entitlements can't be checked)
+ *  3. features not met (all-of by default) → redirect subscriptionError
+ *  4. otherwise → allow
+ */
+export function evaluateFeatureGuard(ctx: {
+    url: string;
+    routes: NgxGuardRoutes;
+    probe: SubscriptionProbe;
+    /** Routes that skip the subscription and feature checks, besides onboarding. */
+    exempt?: readonly RouteMatcher[];
+    /** Feature keys the current subscription grants. */
+    features: string[];
+    requirement: FeatureGuardData;
+}): GuardDecision {
+    const subscription = evaluateSubscriptionGuard(ctx);
+    if (!subscription.allow || !ctx.probe.ok || isSubscriptionExempt(ctx)) {
+        return subscription;
+    }
+    const { requirement } = ctx;
+    if (!meetsRequirement(ctx.features, requirement.features, requirement.featureMatch ?? 'all')) {
+        return deny(ctx.routes.subscriptionError);
+    }
+    return ALLOW;
+}
@@ -1,7 +1,8 @@
 /**
  * Library-provided route guards (SPEC §7.1).
  *
- * `authGuard`, `loginGuard`, and `subscriptionGuard` are `CanActivateFn`s that
+ * `authGuard`, `loginGuard`, `subscriptionGuard`, `roleGuard`,
+ * `permissionGuard` and `featureGuard` are `CanActivateFn`s that
  * consuming apps apply to their route definitions. Redirect targets and the
  * exchange/subscription endpoints come from `NGX_GUARD_CONFIG` (SPEC §7.2),
  * configured via `provideNgxStoneScriptPhpClient`'s 3rd argument.
@@ -9,29 +10,24 @@
  * Decision logic lives in `guard-logic.ts` (framework-free, unit-tested); these
  * adapters only wire Angular DI to it and translate decisions into `UrlTree`s.
  */
-import { inject, InjectionToken } from '@angular/core';
-import { CanActivateFn, Router, UrlTree } from '@angular/router';
+import { inject } from '@angular/core';
+import { ActivatedRouteSnapshot, CanActivateFn, Router, RouterStateSnapshot, UrlTree } from '@angular/router';
 import { AuthService } from './auth.service';
 import { TokenService } from './token.service';
-import { ApiConnectionService } from './api-connection.service';
-import { NgxGuardConfig, DEFAULT_GUARD_CONFIG } from './guard-config';
+import { SubscriptionService } from './subscription.service';
+import { NgxGuardConfig } from './guard-config';
+import { NGX_GUARD_CONFIG } from './guard-config-token';
 import {
     evaluateAuthGuard,
+    evaluateFeatureGuard,
     evaluateLoginGuard,
+    evaluateRoleGuard,
     evaluateSubscriptionGuard,
+    FeatureGuardData,
     GuardDecision,
-    SubscriptionProbe
+    RoleGuardData
 } from './guard-logic';
-
-/**
- * DI token carrying the resolved guard configuration. `provideNgxStoneScriptPhpClient`
- * always provides it (merging the consuming app's 3rd-arg config over the defaults);
- * the root factory below is a safety net if the provider is somehow absent.
- */
-export const NGX_GUARD_CONFIG = new InjectionToken<NgxGuardConfig>('NGX_GUARD_CONFIG', {
-    providedIn: 'root',
-    factory: () => DEFAULT_GUARD_CONFIG
-});
+import { forgetReturnUrl, recallReturnUrl, rememberReturnUrl } from './return-url';
 
 /** Translate a pure GuardDecision into the Angular guard return type. */
 function toResult(decision: GuardDecision, router: Router): boolean | UrlTree {
@@ -41,69 +37,185 @@ function toResult(decision: GuardDecision, router: Router): boolean | UrlTree {
     return true;
 }
 
+/**
+ * Keep the denied URL for this tab when the decision sends the user off to sign
+ * in or onboard with it attached (SPEC §7.5), so it survives hops that drop the
+ * query param.
+ */
+function rememberDenied(decision: GuardDecision, url: string, cfg: NgxGuardConfig): void {
+    if ('redirectTo' in decision && cfg.returnUrlParam
+        && decision.redirectTo.includes(`${encodeURIComponent(cfg.returnUrlParam)}=`)) {
+        rememberReturnUrl(url);
+    }
+}
+
+/**
+ * Exchanges started by a guard, per AuthService. Angular runs a route's guards
+ * concurrently, so authGuard and roleGuard on the same route join one exchange
+ * instead of each posting their own.
+ */
+const exchangesInFlight = new WeakMap<AuthService, Promise<{ success: boolean }>>();
+
+function sharedExchange(auth: AuthService, endpoint: string): Promise<{ success: boolean }> {
+    let exchange = exchangesInFlight.get(auth);
+    if (!exchange) {
+        exchange = auth.exchangeToken(endpoint).finally(() => exchangesInFlight.delete(auth));
+        exchangesInFlight.set(auth, exchange);
+    }
+    return exchange;
+}
+
 /**
  * authGuard — protects routes that require authentication (SPEC §7.1).
  * Folds in the AUTH-SPEC identity→platform exchange-before-API step: a stored
  * identity JWT is exchanged once before the route loads; an already-exchanged
- * platform token (`token_type === 'platform'`) is never re-exchanged.
+ * platform token (`token_type === 'platform'`) is never re-exchanged. An expired
+ * token is refreshed first (joining any refresh already in flight).
  */
 export const authGuard: CanActivateFn = async (_route, state): Promise<boolean | UrlTree> => {
     const router = inject(Router);
     const auth = inject(AuthService);
-    const tokens = inject(TokenService);
     const cfg = inject(NGX_GUARD_CONFIG);
 
     const decision = await evaluateAuthGuard({
-        isAuthenticated: auth.isAuthenticated(),
         url: state.url,
         routes: cfg.routes,
         requireTenant: cfg.requireTenant,
-        getPayload: () => tokens.decodeJwtPayload(),
-        exchange: () => auth.exchangeToken(cfg.exchangeEndpoint)
+        getState: () => auth.currentAuthState(),
+        exchange: () => sharedExchange(auth, cfg.exchangeEndpoint),
+        renew: () => auth.refresh(),
+        returnUrlParam: cfg.returnUrlParam,
+        tenantExempt: cfg.tenantExemptRoutes
     });
+    rememberDenied(decision, state.url, cfg);
     return toResult(decision, router);
 };
 
+/** Shared body of roleGuard / permissionGuard for the requirement picked out of the route data. */
+async function authorize(
+    requirement: RoleGuardData,
+    state: RouterStateSnapshot
+): Promise<boolean | UrlTree> {
+    const router = inject(Router);
+    const auth = inject(AuthService);
+    const tokens = inject(TokenService);
+    const cfg = inject(NGX_GUARD_CONFIG);
+
+    const decision = await evaluateRoleGuard({
+        url: state.url,
+        routes: cfg.routes,
+        requireTenant: cfg.requireTenant,
+        getState: () => auth.currentAuthState(),
+        exchange: () => sharedExchange(auth, cfg.exchangeEndpoint),
+        renew: () => auth.refresh(),
+        returnUrlParam: cfg.returnUrlParam,
+        tenantExempt: cfg.tenantExemptRoutes,
+        requirement,
+        getClaims: () => tokens.decodeJwtPayload(),
+        roleClaim: cfg.roleClaim,
+        permissionsClaim: cfg.permissionsClaim
+    });
+    rememberDenied(decision, state.url, cfg);
+    return toResult(decision, router);
+}
+
 /**
- * loginGuard — keeps authenticated-with-tenant users off the login page (SPEC §7.1).
+ * roleGuard — admits users holding the route's `data.roles` (any-of, or all-of
+ * with `roleMatch: 'all'`), read from the `roleClaim` JWT claim (SPEC §7.1).
+ * Runs the authGuard checks first, so it can replace authGuard on a route.
+ *
+ * @example
+ * ```typescript
+ * { path: 'admin', canActivate: [roleGuard], data: { roles: ['admin', 'owner'] } }
+ * ```
  */
-export const loginGuard: CanActivateFn = (): boolean | UrlTree => {
+export const roleGuard: CanActivateFn = (route: ActivatedRouteSnapshot, state) => {
+    const data = route.data as RoleGuardData;
+    return authorize({ roles: data.roles, roleMatch: data.roleMatch }, state);
+};
+
+/**
+ * permissionGuard — admits users holding the route's `data.permissions` (all-of,
+ * or any-of with `permissionMatch: 'any'`), read from the `permissionsClaim` JWT
+ * claim (SPEC §7.1). Runs the authGuard checks first, like roleGuard.
+ *
+ * @example
+ * ```typescript
+ * { path: 'billing', canActivate: [permissionGuard], data: { permissions: ['billing.read'] } }
+ * ```
+ */
+export const permissionGuard: CanActivateFn = (route: ActivatedRouteSnapshot, state) => {
+    const data = route.data as RoleGuardData;
+    return authorize({ permissions: data.permissions, permissionMatch: data.permissionMatch }, state);
+};
+
+/**
+ * loginGuard — keeps authenticated-with-tenant users off the login page (SPEC §7.1),
+ * sending them to the return URL (query param, else the one kept for this tab)
+ * when there is a safe one, and to the dashboard otherwise.
+ */
+export const loginGuard: CanActivateFn = (route): boolean | UrlTree => {
     const router = inject(Router);
     const auth = inject(AuthService);
-    const tokens = inject(TokenService);
     const cfg = inject(NGX_GUARD_CONFIG);
 
+    const returnUrl = cfg.returnUrlParam
+        ? route.queryParamMap.get(cfg.returnUrlParam) ?? recallReturnUrl()
+        : null;
     const decision = evaluateLoginGuard({
-        isAuthenticated: auth.isAuthenticated(),
         routes: cfg.routes,
         requireTenant: cfg.requireTenant,
-        getPayload: () => tokens.decodeJwtPayload()
+        getState: () => auth.currentAuthState(),
+        returnUrl
     });
+    if (!decision.allow) forgetReturnUrl();
     return toResult(decision, router);
 };
 
 /**
  * subscriptionGuard — gates routes requiring an active subscription (SPEC §7.1).
  * Fails open on 5xx/network errors so a subscription-service blip never locks users out.
+ * The status comes from `SubscriptionService`, cached per tenant (SPEC §7.6).
  */
 export const subscriptionGuard: CanActivateFn = async (_route, state): Promise<boolean | UrlTree> => {
     const router = inject(Router);
-    const api = inject(ApiConnectionService);
+    const subscriptions = inject(SubscriptionService);
     const cfg = inject(NGX_GUARD_CONFIG);
 
-    let probe: SubscriptionProbe;
-    const res = await api.get(cfg.subscriptionStatusEndpoint);
-    if (res.status === 'ok') {
-        probe = { ok: true, httpStatus: 200, isNetworkError: false };
-    } else {
-        const meta: any = res.data ?? {};
-        probe = {
-            ok: false,
-            httpStatus: typeof meta.httpStatus === 'number' ? meta.httpStatus : null,
-            isNetworkError: !!meta.isNetworkError
-        };
-    }
+    const { probe } = await subscriptions.load();
+    const decision = evaluateSubscriptionGuard({
+        url: state.url,
+        routes: cfg.routes,
+        probe,
+        exempt: cfg.subscriptionExemptRoutes
+    });
+    return toResult(decision, router);
+};
 
-    const decision = evaluateSubscriptionGuard({ url: state.url, routes: cfg.routes, probe });
+/**
+ * featureGuard — admits tenants whose subscription grants the route's
+ * `data.features` (all-of, or any-of with `featureMatch: 'any'`), after the
+ * subscriptionGuard checks (SPEC §7.6). Fails open like subscriptionGuard.
+ *
+ * @example
+ * ```typescript
+ * { path: 'reports', canActivate: [authGuard, featureGuard], data: { features: ['advanced_reports'] } }
+ * ```
+ */
+export const featureGuard: CanActivateFn = async (route, state): Promise<boolean | UrlTree> => {
+    const router = inject(Router);
+    const subscriptions = inject(SubscriptionService);
+    const cfg = inject(NGX_GUARD_CONFIG);
+
+    const data = route.data as FeatureGuardData;
+    const { probe, info } = await subscriptions.load();
+    const decision = evaluateFeatureGuard({
+        url: state.url,
+        routes: cfg.routes,
+        probe,
+        exempt: cfg.subscriptionExemptRoutes,
+        features: info.features,
+        requirement: { features: data.features, featureMatch: data.featureMatch }
+    });
     return toResult(decision, router);
 };
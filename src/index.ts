@@ -20,17 +20,134 @@ export { provideNgxStoneScriptPhpClient } from './provide';
 export { AUTH_PLUGIN } from './auth.plugin';
 
 // ── Route guards (SPEC §7) ──────────────────────────────────────────────────
-export { authGuard, loginGuard, subscriptionGuard, NGX_GUARD_CONFIG } from './guards';
+export {
+    authGuard,
+    loginGuard,
+    subscriptionGuard,
+    roleGuard,
+    permissionGuard,
+    featureGuard
+} from './guards';
+export { NGX_GUARD_CONFIG } from './guard-config-token';
 export {
     NgxGuardConfig,
     NgxGuardConfigInput,
     NgxGuardRoutes,
+    RouteMatcher,
     DEFAULT_GUARD_CONFIG
 } from './guard-config';
+export { RoleGuardData, FeatureGuardData } from './guard-logic';
+export {
+    IfAuthenticatedDirective,
+    IfTenantDirective,
+    IfRoleDirective,
+    IfPermissionDirective,
+    IfFeatureDirective,
+    HasPermissionPipe
+} from './auth-directives';
+export { SubscriptionService } from './subscription.service';
+export { SubscriptionInfo, SubscriptionSnapshot, SubscriptionStatus } from './subscription';
+export { ReturnUrlService } from './return-url.service';
+export { safeReturnUrl } from './return-url';
+
+// ── Client options (SPEC §8.5) ───────────────────────────────────────────────
+export {
+    NgxClientConfig,
+    NgxClientConfigInput,
+    TokenRenewalConfig,
+    SessionSyncConfig,
+    QueryConfig,
+    OutboxConfig,
+    UploadConfig,
+    RealtimeConfig,
+    BatchConfig,
+    SubscriptionConfig,
+    DEFAULT_CLIENT_CONFIG,
+    NGX_CLIENT_CONFIG
+} from './client-config';
+
+// ── HTTP interceptors (SPEC §5.2) ────────────────────────────────────────────
+export {
+    API_INTERCEPTORS,
+    ApiInterceptor,
+    ApiInterceptorChain,
+    ApiRequest
+} from './api-interceptor';
+export { RetryPolicy, DEFAULT_RETRY_POLICY } from './retry-policy';
+export { RequestOptions, ResponseType } from './request-options';
+export { QuerySerialization, QuerySerializationOptions } from './query-string';
+export {
+    UploadBody,
+    UploadOptions,
+    DownloadOptions,
+    DownloadedFile,
+    TransferProgress,
+    parseContentDispositionFilename
+} from './transfer';
+export {
+    ChunkedUpload,
+    ChunkedUploadOptions,
+    ChunkedUploadStatus,
+    StoneScriptPhpUploadProtocol,
+    TusUploadProtocol
+} from './upload-protocols';
+export { ChunkedUploadProtocol, ChunkRange, UploadFileInfo } from './chunked-upload';
+export { StreamEvent, StreamFormat, StreamOptions } from './api-stream';
+export { BatchWindow, BatchRequestItem, BatchResponseItem } from './batch';
+
+// ── Typed endpoint contracts (SPEC §5.5) ─────────────────────────────────────
+export {
+    HttpMethod,
+    EndpointDefinition,
+    EndpointArgs,
+    EndpointResponse,
+    EndpointMap,
+    PathParams,
+    defineEndpoint,
+    typed,
+    resolvePath
+} from './api-contract';
+export { ApiClient, EndpointCall, createApiClient, injectApiClient } from './api-client';
+
+// ── Query cache (SPEC §5.6) ──────────────────────────────────────────────────
+export {
+    ApiQuery,
+    ApiQueryOptions,
+    ApiQueryClient,
+    Reactive,
+    createApiQuery,
+    apiResource
+} from './api-query';
+export { QueryKey } from './query-key';
+export {
+    ApiMutation,
+    ApiMutationOptions,
+    OptimisticUpdate,
+    createApiMutation
+} from './api-mutation';
+export { PaginatedResource, PaginatedResourceOptions, createPaginatedResource } from './api-pagination';
+export { PaginationStyle, PaginationParamNames, PageMapping, PageField } from './pagination';
+
+// ── Offline outbox (SPEC §5.8) ───────────────────────────────────────────────
+export { OutboxService, OutboxConflictHandler } from './outbox.service';
+export { OutboxEntry } from './outbox';
+
+// ── Realtime (SPEC §5.10) ────────────────────────────────────────────────────
+export { RealtimeService } from './realtime.service';
+export { RealtimeState, RealtimeClientMessage, RealtimeServerMessage } from './realtime';
+export {
+    ApiErrorKind,
+    ApiErrorMetadata,
+    getApiErrorKind,
+    isCancelledResponse,
+    isTimeoutResponse,
+    isQueuedResponse
+} from './api-error';
 
 // ── Services ──────────────────────────────────────────────────────────────────
 export { ApiConnectionService } from './api-connection.service';
-export { AuthService, BuiltInProvider, AuthProvider } from './auth.service';
+export { AuthService, AuthEvent, BuiltInProvider, AuthProvider } from './auth.service';
+export { AuthState, AUTH_STATE_TRANSITIONS, canTransition } from './auth-state';
 export { TokenService } from './token.service';
 export { CsrfService } from './csrf.service';
 export { LogService } from './log.service';
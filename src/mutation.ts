@@ -0,0 +1,46 @@
+/**
+ * Optimistic-update rules for `createApiMutation` (SPEC §5.7): how a call ended,
+ * and when its cache patches are rolled back.
+ */
+
+/**
+ * How a mutation call ended: `queued` when the offline outbox (SPEC §5.8)
+ * stored it for replay, `cancelled` when it was aborted through its signal.
+ */
+export type MutationOutcome = 'success' | 'queued' | 'cancelled' | 'failed';
+
+/** The parts of an `ApiResponse` the outcome is read from. */
+export interface MutationResult {
+    status: string;
+    data: unknown;
+}
+
+export function classifyMutationResult(result: MutationResult): MutationOutcome {
+    if (result.status === 'ok') return 'success';
+    const meta = result.data as { kind?: string; queued?: number } | null;
+    if (meta?.kind === 'cancelled') return 'cancelled';
+    if (meta?.kind === 'network' && meta.queued != null) return 'queued';
+    return 'failed';
+}
+
+/**
+ * Apply `patches` (each returns its undo), then run `send`. The patches stay when
+ * the call succeeded or was queued; otherwise — and when `send` throws — they are
+ * undone newest first, so overlapping patches restore the original data.
+ */
+export async function withOptimisticPatches<R extends MutationResult>(
+    patches: Array<() => () => void>,
+    send: () => Promise<R>
+): Promise<{ result: R; outcome: MutationOutcome }> {
+    const undo = patches.map(apply => apply());
+    let outcome: MutationOutcome | null = null;
+    try {
+        const result = await send();
+        outcome = classifyMutationResult(result);
+        return { result, outcome };
+    } finally {
+        if (outcome !== 'success' && outcome !== 'queued') {
+            undo.reverse().forEach(restore => restore());
+        }
+    }
+}
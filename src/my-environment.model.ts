@@ -9,3 +9,22 @@ export {
     AuthResponseMap,
     OAuthProviderConfig
 } from '@progalaxyelabs/stonescriptphp-client-core';
+
+/**
+ * Settings read only by this Angular client, merged into the core model
+ * (SPEC §8.2).
+ */
+declare module '@progalaxyelabs/stonescriptphp-client-core' {
+    interface MyEnvironmentModel {
+        /**
+         * Default ApiConnectionService timeout in ms, overridable per call via
+         * `RequestOptions.timeoutMs`. Unset or `0` → no timeout.
+         */
+        requestTimeoutMs?: number;
+        /**
+         * WebSocket server of `RealtimeService` (`wss://…`; http(s) URLs are
+         * mapped to ws(s)). Falls back to `chatServer.host`.
+         */
+        realtimeServer?: { host: string };
+    }
+}
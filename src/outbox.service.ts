@@ -0,0 +1,163 @@
+import { Inject, Injectable, Injector, Optional, signal } from '@angular/core';
+import { ApiResponse } from '@progalaxyelabs/stonescriptphp-client-core';
+import { AuthService } from './auth.service';
+import { NGX_CLIENT_CONFIG, NgxClientConfig } from './client-config';
+import { NOTIFICATION_HANDLER, NotificationHandler } from './notification-handler';
+import { OutboxEntry, OutboxStore, ReplayOutcome, classifyReplay, createOutboxStore, replayOutbox } from './outbox';
+import { ApiConnectionService } from './api-connection.service';
+
+/** Called when a replayed mutation comes back 409 Conflict. */
+export type OutboxConflictHandler = (entry: OutboxEntry, response: ApiResponse<unknown>) => void;
+
+/**
+ * Offline outbox for ApiConnectionService mutations (SPEC §5.8).
+ *
+ * Opt-in via the `outbox` client option (or `RequestOptions.outbox` per call).
+ * Mutations that fail with a network error are persisted in IndexedDB and
+ * replayed in order when the browser comes back online, after login, and on app
+ * start. A replay runs refresh → exchange first if the access token has expired;
+ * each request then goes through the normal pipeline with the current token.
+ *
+ * The queue is cleared on signout() and whenever the session is dropped (failed
+ * refresh, cleared session): queued writes belong to the user who made them.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class OutboxService {
+
+    private readonly count = signal(0);
+
+    /** Number of mutations waiting to be replayed. */
+    readonly pendingCount = this.count.asReadonly();
+
+    /** Opened on first use, so apps without the outbox never touch IndexedDB. */
+    private storeInstance: OutboxStore | null = null;
+    private readonly conflictHandlers = new Set<OutboxConflictHandler>();
+    private replaying: Promise<void> | null = null;
+    private listening = false;
+
+    constructor(
+        private injector: Injector,
+        private auth: AuthService,
+        @Inject(NGX_CLIENT_CONFIG) private config: NgxClientConfig,
+        @Optional() @Inject(NOTIFICATION_HANDLER) private notificationHandler: NotificationHandler | null
+    ) {
+        // Replay what an earlier session left behind. With only per-call `outbox`
+        // options, the queue is opened (and replayed) on the first enqueue instead.
+        if (config.outbox.enabled) {
+            this.listen();
+            this.refreshCount().then(() => this.replayInBackground());
+        }
+    }
+
+    /** Store a mutation for later replay. Called by ApiConnectionService. */
+    async enqueue(entry: OutboxEntry): Promise<number> {
+        this.listen();
+        const id = await this.store.add(entry);
+        this.count.update(n => n + 1);
+        return id;
+    }
+
+    /**
+     * Register a handler for replayed mutations rejected with 409 Conflict. The
+     * entry is removed from the queue either way.
+     *
+     * @returns Unregister function
+     */
+    onConflict(handler: OutboxConflictHandler): () => void {
+        this.conflictHandlers.add(handler);
+        return () => this.conflictHandlers.delete(handler);
+    }
+
+    /**
+     * Replay queued mutations oldest-first. Stops at the first one that hits a
+     * network error, a 5xx or an unrecoverable 401, and keeps it and the rest for
+     * the next attempt. Concurrent calls share one run.
+     */
+    replay(): Promise<void> {
+        if (!this.replaying) {
+            this.replaying = this.runReplay().finally(() => {
+                this.replaying = null;
+            });
+        }
+        return this.replaying;
+    }
+
+    /** Drop every queued mutation. */
+    async clear(): Promise<void> {
+        if (!this.storeInstance && !this.config.outbox.enabled) return;
+        await this.store.clear();
+        this.count.set(0);
+    }
+
+    /**
+     * Replay on login, refresh and reconnect, and clear when the session ends. Wired only once
+     * the outbox is in use, so apps without it get no listeners.
+     */
+    private listen(): void {
+        if (this.listening) return;
+        this.listening = true;
+        this.auth.authEvents$.subscribe(event => {
+            if (event.type === 'logout' || event.type === 'sessionCleared') {
+                this.clear().catch(error => console.error('[OutboxService] Failed to clear the outbox:', error));
+            }
+            if (event.type === 'login' || event.type === 'refreshed') this.replayInBackground();
+        });
+        if (typeof window !== 'undefined') {
+            window.addEventListener('online', () => this.replayInBackground());
+        }
+    }
+
+    private replayInBackground(): void {
+        this.replay().catch(error => console.error('[OutboxService] Failed to replay the outbox:', error));
+    }
+
+    private get store(): OutboxStore {
+        return this.storeInstance ??= createOutboxStore(this.config.outbox.dbName);
+    }
+
+    private async runReplay(): Promise<void> {
+        if (this.count() === 0) return;
+        if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+        if (this.auth.currentAuthState() === 'expired' && !(await this.auth.renewSession())) return;
+
+        // Resolved lazily: ApiConnectionService depends on this service.
+        const api = this.injector.get(ApiConnectionService);
+
+        await replayOutbox(
+            this.store,
+            async entry => {
+                const response = await api.sendQueued(entry);
+                const meta = response.status === 'error' ? (response.data as any) : null;
+                const outcome: ReplayOutcome = meta
+                    ? classifyReplay(meta.httpStatus ?? null, !!meta.isNetworkError)
+                    : 'done';
+                return { outcome, result: response as ApiResponse<unknown> };
+            },
+            (entry, outcome, response) => {
+                this.count.update(n => Math.max(0, n - 1));
+                if (outcome === 'conflict') this.reportConflict(entry, response);
+                if (outcome === 'failed') {
+                    this.notificationHandler?.error(response.message || 'A change saved offline could not be applied');
+                }
+            }
+        );
+        await this.refreshCount();
+    }
+
+    private reportConflict(entry: OutboxEntry, response: ApiResponse<unknown>): void {
+        if (this.conflictHandlers.size === 0) {
+            console.warn(`[OutboxService] Replayed ${entry.method} ${entry.url} was rejected with 409 Conflict`);
+        }
+        this.conflictHandlers.forEach(handler => handler(entry, response));
+    }
+
+    private async refreshCount(): Promise<void> {
+        try {
+            this.count.set((await this.store.list()).length);
+        } catch (error) {
+            console.error('[OutboxService] Failed to read the outbox:', error);
+        }
+    }
+}
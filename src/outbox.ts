@@ -0,0 +1,160 @@
+/**
+ * Offline mutation outbox — storage and ordered replay (SPEC §5.8).
+ *
+ * Mutations that fail with a network error are stored here with their
+ * idempotency key and replayed oldest-first once connectivity returns. Entries
+ * hold no tokens: the replay is sent through the normal pipeline, which attaches
+ * the then-current token and runs refresh → exchange on a 401.
+ */
+
+/** A queued mutation. */
+export interface OutboxEntry {
+    /** Store-assigned, increasing — replay order. */
+    id?: number;
+    method: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+    /** Absolute URL including the query string. */
+    url: string;
+    /** Serialized body (JSON text), or null. */
+    body: string | null;
+    /** Request headers, without Authorization. */
+    headers: Record<string, string>;
+    /** Replay without the Bearer token (`RequestOptions.skipAuth`). */
+    skipAuth?: boolean;
+    /** Sent on every attempt so the server applies the mutation at most once. */
+    idempotencyKey: string;
+    /** When the mutation was first attempted (ms). */
+    createdAt: number;
+}
+
+export interface OutboxStore {
+    add(entry: OutboxEntry): Promise<number>;
+    /** All entries, oldest first. */
+    list(): Promise<OutboxEntry[]>;
+    delete(id: number): Promise<void>;
+    clear(): Promise<void>;
+}
+
+const STORE_NAME = 'mutations';
+
+/** Promise wrapper for an IDBRequest. */
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/** IndexedDB-backed store: one object store with an auto-increment key. */
+export class IndexedDbOutboxStore implements OutboxStore {
+
+    private db: Promise<IDBDatabase> | null = null;
+
+    constructor(private dbName: string) {}
+
+    async add(entry: OutboxEntry): Promise<number> {
+        const { id, ...record } = entry;
+        return Number(await settle((await this.objectStore('readwrite')).add(record)));
+    }
+
+    async list(): Promise<OutboxEntry[]> {
+        const store = await this.objectStore('readonly');
+        const [values, keys] = await Promise.all([settle(store.getAll()), settle(store.getAllKeys())]);
+        return values.map((value, i) => ({ ...value, id: Number(keys[i]) }));
+    }
+
+    async delete(id: number): Promise<void> {
+        await settle((await this.objectStore('readwrite')).delete(id));
+    }
+
+    async clear(): Promise<void> {
+        await settle((await this.objectStore('readwrite')).clear());
+    }
+
+    private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+        return (await this.open()).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            const request = indexedDB.open(this.dbName, 1);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(STORE_NAME, { autoIncrement: true });
+            };
+            this.db = settle(request);
+        }
+        return this.db;
+    }
+}
+
+/** In-memory store — used where IndexedDB is unavailable (SSR, tests); not persistent. */
+export class MemoryOutboxStore implements OutboxStore {
+
+    private entries = new Map<number, OutboxEntry>();
+    private nextId = 1;
+
+    async add(entry: OutboxEntry): Promise<number> {
+        const id = this.nextId++;
+        this.entries.set(id, { ...entry, id });
+        return id;
+    }
+
+    async list(): Promise<OutboxEntry[]> {
+        return [...this.entries.values()];
+    }
+
+    async delete(id: number): Promise<void> {
+        this.entries.delete(id);
+    }
+
+    async clear(): Promise<void> {
+        this.entries.clear();
+    }
+}
+
+/** IndexedDB when the platform has it, memory otherwise. */
+export function createOutboxStore(dbName: string): OutboxStore {
+    return typeof indexedDB !== 'undefined' ? new IndexedDbOutboxStore(dbName) : new MemoryOutboxStore();
+}
+
+/**
+ * What to do with a replayed entry:
+ * - `done`     — applied (2xx); remove it
+ * - `conflict` — 409, the server state moved on; remove it and report the conflict
+ * - `failed`   — rejected for good (other 4xx); remove it and report the failure
+ * - `retry`    — network error, 5xx, or 401 (session could not be renewed); keep
+ *                it and stop, preserving order
+ */
+export type ReplayOutcome = 'done' | 'conflict' | 'failed' | 'retry';
+
+/** Classify a replay result from its HTTP status (null = no response). */
+export function classifyReplay(httpStatus: number | null, isNetworkError: boolean): ReplayOutcome {
+    if (isNetworkError || httpStatus === null) return 'retry';
+    if (httpStatus < 400) return 'done';
+    if (httpStatus === 401) return 'retry';
+    if (httpStatus === 409) return 'conflict';
+    if (httpStatus >= 500) return 'retry';
+    return 'failed';
+}
+
+/**
+ * Send queued entries oldest-first until one has to be retried later.
+ *
+ * @param send      Sends one entry and classifies the result
+ * @param onSettled Called for every entry removed from the queue
+ * @returns How many entries were removed, and whether the queue was drained
+ */
+export async function replayOutbox<R>(
+    store: OutboxStore,
+    send: (entry: OutboxEntry) => Promise<{ outcome: ReplayOutcome; result: R }>,
+    onSettled?: (entry: OutboxEntry, outcome: ReplayOutcome, result: R) => void
+): Promise<{ settled: number; drained: boolean }> {
+    let settled = 0;
+    for (const entry of await store.list()) {
+        const { outcome, result } = await send(entry);
+        if (outcome === 'retry') return { settled, drained: false };
+        await store.delete(entry.id!);
+        settled++;
+        onSettled?.(entry, outcome, result);
+    }
+    return { settled, drained: true };
+}
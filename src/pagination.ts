@@ -0,0 +1,179 @@
+/**
+ * Pagination rules for `createPaginatedResource` (SPEC §5.12): the query params
+ * of each style, reading a page out of `ApiResponse.data`, and deciding whether
+ * another page exists.
+ */
+
+/**
+ * - `offset` — `?offset=40&limit=20`
+ * - `page`   — `?page=3&size=20`
+ * - `cursor` — `?cursor=<next_cursor of the previous page>&limit=20`
+ */
+export type PaginationStyle = 'offset' | 'page' | 'cursor';
+
+/** Query param names sent for each style. */
+export interface PaginationParamNames {
+    /** @default 'offset' */
+    offset: string;
+    /** Page size for `offset` and `cursor`. @default 'limit' */
+    limit: string;
+    /** @default 'page' */
+    page: string;
+    /** Page size for `page`. @default 'size' */
+    size: string;
+    /** @default 'cursor' */
+    cursor: string;
+}
+
+export const DEFAULT_PAGINATION_PARAMS: PaginationParamNames = {
+    offset: 'offset',
+    limit: 'limit',
+    page: 'page',
+    size: 'size',
+    cursor: 'cursor'
+};
+
+/** A dot path into `ApiResponse.data` (`'meta.total'`), or a function reading it. */
+export type PageField<V> = string | ((data: any) => V);
+
+/**
+ * Where a page's parts live in `ApiResponse.data`. A field that resolves to
+ * `undefined` counts as absent. When `data` itself is an array, it is the item
+ * list.
+ */
+export interface PageMapping<T> {
+    /** @default 'items' */
+    items: PageField<T[]>;
+    /** Total item count across all pages. @default 'total' */
+    total: PageField<number | null | undefined>;
+    /** Cursor of the next page; null / absent on the last page. @default 'next_cursor' */
+    nextCursor: PageField<string | null | undefined>;
+    /** Explicit "more pages" flag; wins over the other rules when present. @default 'has_more' */
+    hasMore: PageField<boolean | null | undefined>;
+}
+
+export const DEFAULT_PAGE_MAPPING: PageMapping<any> = {
+    items: 'items',
+    total: 'total',
+    nextCursor: 'next_cursor',
+    hasMore: 'has_more'
+};
+
+/** Position of the page about to be fetched. */
+export interface PageState {
+    /** 0-based page index. */
+    index: number;
+    /** Items before this page. */
+    offset: number;
+    /** Cursor for this page; null for the first page. */
+    cursor: string | null;
+}
+
+export const FIRST_PAGE: PageState = { index: 0, offset: 0, cursor: null };
+
+/** One page read out of a response. */
+export interface PageResult<T> {
+    items: T[];
+    total: number | null;
+    nextCursor: string | null;
+    hasMore: boolean | null;
+}
+
+/**
+ * Query params selecting `state` in the given style. `firstPage` is the number
+ * the server gives the first page in the `page` style (usually 1).
+ */
+export function pageQuery(
+    style: PaginationStyle,
+    state: PageState,
+    size: number,
+    names: PaginationParamNames = DEFAULT_PAGINATION_PARAMS,
+    firstPage = 1
+): Record<string, string | number> {
+    switch (style) {
+        case 'offset':
+            return { [names.offset]: state.offset, [names.limit]: size };
+        case 'page':
+            return { [names.page]: firstPage + state.index, [names.size]: size };
+        case 'cursor':
+            return state.cursor !== null
+                ? { [names.cursor]: state.cursor, [names.limit]: size }
+                : { [names.limit]: size };
+    }
+}
+
+/** Read a page out of `ApiResponse.data`. */
+export function readPage<T>(data: unknown, mapping: PageMapping<T> = DEFAULT_PAGE_MAPPING): PageResult<T> {
+    const items = Array.isArray(data) ? data : readField(data, mapping.items);
+    const total = readField(data, mapping.total);
+    const nextCursor = readField(data, mapping.nextCursor);
+    const hasMore = readField(data, mapping.hasMore);
+    return {
+        items: Array.isArray(items) ? items as T[] : [],
+        total: typeof total === 'number' ? total : total != null && total !== '' && !isNaN(Number(total)) ? Number(total) : null,
+        nextCursor: nextCursor != null && nextCursor !== '' ? String(nextCursor) : null,
+        hasMore: typeof hasMore === 'boolean' ? hasMore : null
+    };
+}
+
+/**
+ * Whether a page follows `page` (fetched at `state`): the explicit flag if the
+ * server sent one; for cursors, a next cursor; otherwise the total if known,
+ * else whether the page came back full.
+ */
+export function pageHasMore(style: PaginationStyle, state: PageState, page: PageResult<unknown>, size: number): boolean {
+    if (page.hasMore !== null) return page.hasMore;
+    if (style === 'cursor') return page.nextCursor !== null;
+    if (page.total !== null) return state.offset + page.items.length < page.total;
+    return page.items.length >= size;
+}
+
+/** Position of the page after `page`. */
+export function nextPageState(state: PageState, page: PageResult<unknown>): PageState {
+    return { index: state.index + 1, offset: state.offset + page.items.length, cursor: page.nextCursor };
+}
+
+/** What a paginated list holds after the pages loaded so far. */
+export interface PagedList<T> {
+    items: T[];
+    total: number | null;
+    /** True until a page says it is the last one. */
+    hasMore: boolean;
+    /** 1-based number of the last loaded page; 0 before the first. */
+    page: number;
+    /** Position of the page to fetch next. */
+    next: PageState;
+}
+
+export const EMPTY_PAGED_LIST: PagedList<never> = { items: [], total: null, hasMore: true, page: 0, next: FIRST_PAGE };
+
+/**
+ * The list once `page`, fetched at `state`, has arrived: its items are appended
+ * to the list's, or replace them with `replace` (numbered pages, a first page).
+ */
+export function applyPage<T>(
+    list: PagedList<T>,
+    style: PaginationStyle,
+    state: PageState,
+    page: PageResult<T>,
+    size: number,
+    replace: boolean
+): PagedList<T> {
+    return {
+        items: replace ? page.items : [...list.items, ...page.items],
+        total: page.total,
+        hasMore: pageHasMore(style, state, page, size),
+        page: state.index + 1,
+        next: nextPageState(state, page)
+    };
+}
+
+/** Position of a page by its 0-based index (offset / page styles only). */
+export function pageStateAt(index: number, size: number): PageState {
+    return { index, offset: index * size, cursor: null };
+}
+
+function readField<V>(data: unknown, field: PageField<V>): unknown {
+    if (typeof field === 'function') return field(data);
+    return field.split('.').reduce<any>((value, key) => value == null ? undefined : value[key], data);
+}
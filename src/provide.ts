@@ -2,8 +2,10 @@ import { EnvironmentProviders, makeEnvironmentProviders } from '@angular/core';
 import { MyEnvironmentModel, AuthPlugin } from '@progalaxyelabs/stonescriptphp-client-core';
 import { StoneScriptPHPAuth } from '@progalaxyelabs/stonescriptphp-auth-client';
 import { AUTH_PLUGIN } from './auth.plugin';
-import { NGX_GUARD_CONFIG } from './guards';
+import { NGX_GUARD_CONFIG } from './guard-config-token';
 import { NgxGuardConfig, NgxGuardConfigInput, DEFAULT_GUARD_CONFIG } from './guard-config';
+import { NGX_CLIENT_CONFIG, NgxClientConfigInput, resolveClientConfig } from './client-config';
+import { API_INTERCEPTORS } from './api-interceptor';
 
 /**
  * Configure the ngx-stonescriptphp-client library.
@@ -11,6 +13,9 @@ import { NgxGuardConfig, NgxGuardConfigInput, DEFAULT_GUARD_CONFIG } from './gua
  * @param environment - Library configuration (API server, auth settings, etc.)
  * @param plugin - Optional auth plugin override. Defaults to StoneScriptPHPAuth.
  *   Provide your own plugin to use Firebase, progalaxyelabs-auth, Okta, or any other auth backend.
+ * @param guardConfig - Optional route guard configuration (SPEC §7.2).
+ * @param clientConfig - Optional client behaviour options, e.g. proactive token renewal or
+ *   ApiConnectionService interceptors (SPEC §8.5).
  *
  * @example Default (StoneScriptPHP backend)
  * ```typescript
@@ -30,11 +35,21 @@ import { NgxGuardConfig, NgxGuardConfigInput, DEFAULT_GUARD_CONFIG } from './gua
  *   provideNgxStoneScriptPhpClient(environment, new ProgalaxyElabsAuth({ host: '...', platformCode: '...' }))
  * ]
  * ```
+ *
+ * @example Proactive token renewal
+ * ```typescript
+ * providers: [
+ *   provideNgxStoneScriptPhpClient(environment, undefined, undefined, {
+ *     tokenRenewal: { enabled: true, skewSeconds: 60 }
+ *   })
+ * ]
+ * ```
  */
 export function provideNgxStoneScriptPhpClient(
     environment: MyEnvironmentModel,
     plugin?: AuthPlugin,
-    guardConfig?: NgxGuardConfigInput
+    guardConfig?: NgxGuardConfigInput,
+    clientConfig?: NgxClientConfigInput
 ): EnvironmentProviders {
     const resolvedPlugin = plugin ?? new StoneScriptPHPAuth({
         // Resolve auth host: auth.host → apiServer.host
@@ -56,9 +71,18 @@ export function provideNgxStoneScriptPhpClient(
         }
     };
 
+    // Interceptors keep their order: multi-providers resolve in registration order.
+    const interceptorProviders = (clientConfig?.interceptors ?? []).map(interceptor =>
+        typeof interceptor === 'function'
+            ? { provide: API_INTERCEPTORS, useClass: interceptor, multi: true }
+            : { provide: API_INTERCEPTORS, useValue: interceptor, multi: true }
+    );
+
     return makeEnvironmentProviders([
         { provide: MyEnvironmentModel, useValue: environment },
         { provide: AUTH_PLUGIN, useValue: resolvedPlugin },
-        { provide: NGX_GUARD_CONFIG, useValue: resolvedGuardConfig }
+        { provide: NGX_GUARD_CONFIG, useValue: resolvedGuardConfig },
+        { provide: NGX_CLIENT_CONFIG, useValue: resolveClientConfig(clientConfig) },
+        ...interceptorProviders
     ]);
 }
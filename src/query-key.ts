@@ -0,0 +1,38 @@
+/**
+ * Query keys for the API query cache (SPEC §5.6).
+ *
+ * A key is an array — `['projects']`, `['projects', { status: 'active' }]` — so
+ * related queries can be invalidated together by prefix.
+ */
+
+export type QueryKey = readonly unknown[];
+
+/**
+ * Stable string form of one key element: JSON with object keys sorted, so
+ * `{ a: 1, b: 2 }` and `{ b: 2, a: 1 }` identify the same query.
+ */
+function stableStringify(value: unknown): string {
+    if (value === undefined) return 'null';
+    if (value === null || typeof value !== 'object') return JSON.stringify(value);
+    if (value instanceof Date) return JSON.stringify(value.toISOString());
+    if (Array.isArray(value)) return '[' + value.map(stableStringify).join(',') + ']';
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record).filter(k => record[k] !== undefined).sort();
+    return '{' + keys.map(k => JSON.stringify(k) + ':' + stableStringify(record[k])).join(',') + '}';
+}
+
+/** Cache id for `key` within a tenant partition. */
+export function hashQueryKey(key: QueryKey, partition = ''): string {
+    return partition + '|' + stableStringify(key);
+}
+
+/** True when `key` starts with every element of `prefix` (an empty prefix matches all). */
+export function matchesQueryKeyPrefix(key: QueryKey, prefix: QueryKey): boolean {
+    if (prefix.length > key.length) return false;
+    return prefix.every((element, i) => stableStringify(element) === stableStringify(key[i]));
+}
+
+/** True when data fetched at `updatedAt` (0 = never / invalidated) is older than `ttlMs`. */
+export function isQueryStale(updatedAt: number, ttlMs: number, now: number = Date.now()): boolean {
+    return updatedAt === 0 || now - updatedAt >= ttlMs;
+}
@@ -0,0 +1,116 @@
+/**
+ * Query-string serialization for ApiConnectionService (SPEC §5.2).
+ */
+
+/**
+ * Encoding of nested objects, arrays and dates, chosen piece by piece.
+ * Dates are always sent as ISO 8601 strings (`toISOString()`).
+ */
+export interface QuerySerializationOptions {
+    /**
+     * - `brackets` — `filters[status]=a`, as PHP's `$_GET` parses it
+     * - `flatten`  — leaf keys lifted to the top level (`status=a`); keys that
+     *                repeat across nested objects collide
+     * @default 'brackets'
+     */
+    objects?: 'brackets' | 'flatten';
+    /**
+     * - `brackets` — `ids[]=1&ids[]=2` (PHP)
+     * - `repeat`   — `ids=1&ids=2`
+     * - `comma`    — `ids=1,2`
+     * @default 'brackets'
+     */
+    arrays?: 'brackets' | 'repeat' | 'comma';
+}
+
+/**
+ * How nested objects, arrays and dates in query params are encoded.
+ *
+ * - `flatten`  — nested object keys are lifted to the top level
+ *                (`{ filters: { status: 'a' } }` → `status=a`); arrays are sent as
+ *                one comma-joined value; `Date` values inside objects are dropped.
+ *                The default, and the historical behaviour.
+ * - `brackets` — PHP-style keys, as `$_GET` parses them natively
+ *                (`filters[status]=a`, `ids[]=1&ids[]=2`).
+ * - `repeat`   — bracketed objects, repeated keys for arrays (`ids=1&ids=2`).
+ * - `comma`    — bracketed objects, comma-joined arrays (`ids=1,2`).
+ * - an object  — pick the object and array encodings separately.
+ *
+ * Every mode except `flatten` sends dates as ISO 8601 strings.
+ */
+export type QuerySerialization = 'flatten' | 'brackets' | 'repeat' | 'comma' | QuerySerializationOptions;
+
+const PRESETS: Record<Exclude<QuerySerialization, 'flatten' | QuerySerializationOptions>, Required<QuerySerializationOptions>> = {
+    brackets: { objects: 'brackets', arrays: 'brackets' },
+    repeat: { objects: 'brackets', arrays: 'repeat' },
+    comma: { objects: 'brackets', arrays: 'comma' }
+};
+
+const isPresent = (value: unknown) => value !== null && value !== undefined;
+
+/** Serialize `params` into `?a=1&b=2`, or `''` when there is nothing to send. */
+export function serializeQuery(params?: Record<string, any> | null, mode: QuerySerialization = 'flatten'): string {
+    if (params === undefined || params === null) return '';
+    const pairs = mode === 'flatten'
+        ? flattenPairs(params)
+        : structuredPairs(params, '', {
+            ...PRESETS.brackets,
+            ...(typeof mode === 'string' ? PRESETS[mode] : mode)
+        });
+    const str = pairs.join('&');
+    return str ? '?' + str : '';
+}
+
+function flattenPairs(params: Record<string, any>): string[] {
+    const array: string[] = [];
+    for (const key in params) {
+        if (params.hasOwnProperty(key) && isPresent(params[key])) {
+            const value: any = params[key];
+            if (typeof value === 'object' && !Array.isArray(value)) {
+                // Flatten nested objects into top-level params.
+                // e.g. { filters: { status: 'active', item_form_id: 5 } }
+                //   → status=active&item_form_id=5
+                // This prevents passing { filters: {...} } from producing
+                // "filters=%5Bobject%20Object%5D" in the URL.
+                for (const innerKey in value) {
+                    if (value.hasOwnProperty(innerKey) && isPresent(value[innerKey])) {
+                        array.push(encodeURIComponent(innerKey) + '=' + encodeURIComponent(String(value[innerKey])));
+                    }
+                }
+            } else {
+                array.push(encodeURIComponent(key) + '=' + encodeURIComponent(value));
+            }
+        }
+    }
+    return array;
+}
+
+/** Every mode but `flatten`: walk nested objects and arrays, naming keys as `options` say. */
+function structuredPairs(value: any, name: string, options: Required<QuerySerializationOptions>): string[] {
+    if (Array.isArray(value)) {
+        const items = value.filter(isPresent);
+        switch (options.arrays) {
+            case 'comma':
+                return items.length ? [encodeURIComponent(name) + '=' + items.map(item => encodeURIComponent(scalar(item))).join(',')] : [];
+            case 'repeat':
+                return items.flatMap(item => structuredPairs(item, name, options));
+            default:
+                return items.flatMap(item => structuredPairs(item, name + '[]', options));
+        }
+    }
+    if (typeof value === 'object' && !(value instanceof Date)) {
+        const array: string[] = [];
+        for (const key in value) {
+            if (value.hasOwnProperty(key) && isPresent(value[key])) {
+                const child = !name || options.objects === 'flatten' ? key : `${name}[${key}]`;
+                array.push(...structuredPairs(value[key], child, options));
+            }
+        }
+        return array;
+    }
+    return [encodeURIComponent(name) + '=' + encodeURIComponent(scalar(value))];
+}
+
+function scalar(value: unknown): string {
+    return value instanceof Date ? value.toISOString() : String(value);
+}
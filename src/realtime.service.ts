@@ -0,0 +1,144 @@
+import { Inject, Injectable, computed, signal } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+import { MyEnvironmentModel } from '@progalaxyelabs/stonescriptphp-client-core';
+import { AuthService } from './auth.service';
+import { TokenService } from './token.service';
+import { NGX_CLIENT_CONFIG, NgxClientConfig } from './client-config';
+import { RealtimeConnection, RealtimeState } from './realtime';
+
+/**
+ * Authenticated WebSocket channel (SPEC §5.10).
+ *
+ * Connects to `realtimeServer.host` (falling back to `chatServer.host`) on
+ * {@link connect} or the first {@link topic} subscription, and authenticates
+ * with the current access token. Whenever the token rotates — refresh(),
+ * exchangeToken(), selectTenant() — the new one is sent on the open socket. A
+ * dropped connection is retried with backoff, and topics are re-subscribed
+ * after every reconnect.
+ *
+ * signout() and a cleared session close the socket and complete every topic
+ * stream: messages for one user never reach the next.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class RealtimeService {
+
+    private readonly stateSignal = signal<RealtimeState>('disconnected');
+
+    /** Connection state; `open` once the server accepted the token. */
+    readonly state = this.stateSignal.asReadonly();
+
+    readonly isConnected = computed(() => this.stateSignal() === 'open');
+
+    private readonly errors = new Subject<{ message: string; topic: string | null }>();
+
+    /** `error` messages sent by the server, e.g. a refused subscription. */
+    readonly errors$ = this.errors.asObservable();
+
+    /** One stream per topic, shared by its subscribers. */
+    private readonly topics = new Map<string, { subject: Subject<unknown>; subscribers: number }>();
+
+    /** Null when no realtime server is configured. */
+    private readonly connection: RealtimeConnection | null;
+
+    constructor(
+        private auth: AuthService,
+        private tokens: TokenService,
+        @Inject(MyEnvironmentModel) environment: MyEnvironmentModel,
+        @Inject(NGX_CLIENT_CONFIG) config: NgxClientConfig
+    ) {
+        const url = realtimeUrl(environment);
+        this.connection = url && typeof WebSocket !== 'undefined'
+            ? new RealtimeConnection({
+                url,
+                createSocket: socketUrl => new WebSocket(socketUrl),
+                getToken: () => this.tokens.getAccessToken() || null,
+                baseDelayMs: config.realtime.baseDelayMs,
+                maxDelayMs: config.realtime.maxDelayMs,
+                onStateChange: state => this.stateSignal.set(state),
+                onMessage: (topic, data) => this.topics.get(topic)?.subject.next(data),
+                onError: (message, topic) => this.errors.next({ message, topic }),
+                renewToken: () => this.auth.renewSession()
+            })
+            : null;
+
+        this.auth.authEvents$.subscribe(event => {
+            switch (event.type) {
+                case 'login':
+                case 'refreshed':
+                case 'exchanged':
+                case 'tenantSelected':
+                    this.connection?.reauthenticate();
+                    break;
+                case 'logout':
+                case 'sessionCleared':
+                    this.disconnect();
+                    break;
+            }
+        });
+        if (typeof window !== 'undefined') {
+            window.addEventListener('online', () => this.connection?.reconnectNow());
+        }
+    }
+
+    /**
+     * Open the connection. Without a token it waits and connects after login.
+     * Subscribing to a {@link topic} connects too.
+     */
+    connect(): void {
+        if (!this.connection) {
+            console.warn('[RealtimeService] No realtime server configured (realtimeServer.host)');
+            return;
+        }
+        this.connection.open();
+    }
+
+    /** Close the connection and complete every topic stream. */
+    disconnect(): void {
+        const topics = [...this.topics.entries()];
+        this.topics.clear();
+        topics.forEach(([name]) => this.connection?.unsubscribe(name));
+        this.connection?.close();
+        topics.forEach(([, { subject }]) => subject.complete());
+    }
+
+    /**
+     * Messages published to `name`. The topic is subscribed on the server while
+     * at least one subscriber is listening, across reconnects; the last
+     * unsubscribe leaves it.
+     */
+    topic<T = unknown>(name: string): Observable<T> {
+        return new Observable<T>(subscriber => {
+            let entry = this.topics.get(name);
+            if (!entry) {
+                entry = { subject: new Subject<unknown>(), subscribers: 0 };
+                this.topics.set(name, entry);
+                this.connection?.subscribe(name);
+            }
+            const current = entry;
+            current.subscribers++;
+            const subscription = (current.subject as Subject<T>).subscribe(subscriber);
+            this.connect();
+
+            return () => {
+                subscription.unsubscribe();
+                if (--current.subscribers === 0 && this.topics.get(name) === current) {
+                    this.topics.delete(name);
+                    this.connection?.unsubscribe(name);
+                }
+            };
+        });
+    }
+
+    /** Send `data` to a topic. Returns false (nothing sent) unless {@link state} is `open`. */
+    publish(topic: string, data: unknown): boolean {
+        return this.connection?.publish(topic, data) ?? false;
+    }
+}
+
+/** WebSocket URL from the environment; http(s) hosts are mapped to ws(s). */
+function realtimeUrl(environment: MyEnvironmentModel): string | null {
+    const host = environment.realtimeServer?.host || environment.chatServer?.host;
+    return host ? host.replace(/^http(s?):\/\//, 'ws$1://') : null;
+}
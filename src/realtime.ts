@@ -0,0 +1,277 @@
+/**
+ * Authenticated WebSocket connection (SPEC §5.10): auth handshake, topic
+ * subscriptions and reconnect with backoff.
+ *
+ * The socket authenticates with a message rather than a query parameter, so the
+ * token never lands in server or proxy logs, and so a rotated token can be sent
+ * on the open connection. Subscribed topics are kept here and re-sent after
+ * every successful auth, so they survive reconnects.
+ *
+ * `RealtimeService` owns the instance and wires it to `AuthService`.
+ */
+import { DEFAULT_RETRY_POLICY, computeBackoffDelay } from './retry-policy';
+
+/**
+ * - `disconnected` — not connected, and not trying to (no token, or closed)
+ * - `connecting`   — socket opening or waiting for `auth_ok`
+ * - `open`         — authenticated; topic messages flow
+ * - `reconnecting` — connection lost; waiting for the next attempt
+ */
+export type RealtimeState = 'disconnected' | 'connecting' | 'open' | 'reconnecting';
+
+/** Messages sent by the client. */
+export type RealtimeClientMessage =
+    | { type: 'auth'; token: string }
+    | { type: 'subscribe'; topic: string }
+    | { type: 'unsubscribe'; topic: string }
+    | { type: 'publish'; topic: string; data: unknown };
+
+/** Messages understood from the server; anything else is ignored. */
+export type RealtimeServerMessage =
+    | { type: 'auth_ok' }
+    | { type: 'auth_error'; message?: string }
+    | { type: 'message'; topic: string; data: unknown }
+    | { type: 'error'; message?: string; topic?: string };
+
+/** The part of `WebSocket` the connection uses (`any` events, so `WebSocket` itself fits). */
+export interface RealtimeSocket {
+    readonly readyState: number;
+    onopen: ((event: any) => void) | null;
+    onmessage: ((event: any) => void) | null;
+    onclose: ((event: any) => void) | null;
+    onerror: ((event: any) => void) | null;
+    send(data: string): void;
+    close(code?: number, reason?: string): void;
+}
+
+const SOCKET_OPEN = 1;
+
+export interface RealtimeConnectionOptions {
+    url: string;
+    createSocket: (url: string) => RealtimeSocket;
+    /** Current access token; null means "not signed in" and keeps the socket closed. */
+    getToken: () => string | null;
+    /** Reconnect delay before the first retry; doubles per attempt, with jitter. */
+    baseDelayMs: number;
+    /** Upper bound for a single reconnect delay. */
+    maxDelayMs: number;
+    onStateChange: (state: RealtimeState) => void;
+    onMessage: (topic: string, data: unknown) => void;
+    /** A server `error` message. */
+    onError?: (message: string, topic: string | null) => void;
+    /**
+     * The server rejected the token. Resolve true once a new token is stored
+     * (it is then sent), false to give up and close.
+     */
+    renewToken: () => Promise<boolean>;
+    random?: () => number;
+}
+
+export class RealtimeConnection {
+
+    private socket: RealtimeSocket | null = null;
+    private current: RealtimeState = 'disconnected';
+    /** open() was called and close() wasn't: reconnect when the socket drops. */
+    private wanted = false;
+    private authenticated = false;
+    /** A renewal is running; re-auth requests wait for its token. */
+    private renewing = false;
+    /** The server rejected a renewed token too: don't renew in a loop. */
+    private renewed = false;
+    private attempt = 0;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private readonly topics = new Set<string>();
+
+    constructor(private readonly options: RealtimeConnectionOptions) {}
+
+    get state(): RealtimeState {
+        return this.current;
+    }
+
+    /** Connect now, or as soon as a token is available (see {@link reauthenticate}). */
+    open(): void {
+        this.wanted = true;
+        if (!this.socket && !this.timer) this.connect();
+    }
+
+    /** Close for good; topics are kept for a later open(). */
+    close(): void {
+        this.wanted = false;
+        this.drop();
+    }
+
+    /**
+     * The stored token changed: send it on the open socket, connect if the
+     * socket was waiting for one, or close if the token is gone.
+     */
+    reauthenticate(): void {
+        if (!this.wanted || this.renewing) return;
+        if (!this.options.getToken()) {
+            this.drop();
+            return;
+        }
+        if (this.socket?.readyState === SOCKET_OPEN) {
+            this.renewed = false;
+            this.sendAuth();
+        } else if (!this.socket) {
+            this.reconnectNow();
+        }
+    }
+
+    /** Skip the backoff wait, e.g. when the browser comes back online. */
+    reconnectNow(): void {
+        if (!this.wanted || this.socket) return;
+        this.clearTimer();
+        this.connect();
+    }
+
+    subscribe(topic: string): void {
+        if (this.topics.has(topic)) return;
+        this.topics.add(topic);
+        if (this.authenticated) this.send({ type: 'subscribe', topic });
+    }
+
+    unsubscribe(topic: string): void {
+        if (!this.topics.delete(topic)) return;
+        if (this.authenticated) this.send({ type: 'unsubscribe', topic });
+    }
+
+    /** Send to a topic. Returns false (nothing sent) unless the connection is open. */
+    publish(topic: string, data: unknown): boolean {
+        if (!this.authenticated) return false;
+        this.send({ type: 'publish', topic, data });
+        return true;
+    }
+
+    private connect(): void {
+        this.timer = null;
+        if (!this.options.getToken()) {
+            this.attempt = 0;
+            this.setState('disconnected');
+            return;
+        }
+        this.setState(this.attempt > 0 ? 'reconnecting' : 'connecting');
+
+        let socket: RealtimeSocket;
+        try {
+            socket = this.options.createSocket(this.options.url);
+        } catch (error) {
+            console.error('[Realtime] Failed to open the WebSocket:', error);
+            this.scheduleReconnect();
+            return;
+        }
+        this.socket = socket;
+        socket.onopen = () => this.sendAuth();
+        socket.onmessage = (event: MessageEvent) => this.receive(event.data);
+        socket.onerror = () => undefined; // followed by `close`
+        socket.onclose = () => {
+            if (this.socket !== socket) return;
+            this.detach();
+            if (this.wanted) this.scheduleReconnect();
+            else this.setState('disconnected');
+        };
+    }
+
+    private receive(raw: unknown): void {
+        let message: RealtimeServerMessage;
+        try {
+            message = JSON.parse(String(raw));
+        } catch {
+            console.warn('[Realtime] Ignoring a message that is not JSON');
+            return;
+        }
+
+        switch (message?.type) {
+            case 'auth_ok':
+                this.authenticated = true;
+                this.renewed = false;
+                this.attempt = 0;
+                this.topics.forEach(topic => this.send({ type: 'subscribe', topic }));
+                this.setState('open');
+                break;
+            case 'auth_error':
+                this.authenticated = false;
+                this.renew();
+                break;
+            case 'message':
+                this.options.onMessage(message.topic, message.data);
+                break;
+            case 'error':
+                this.options.onError?.(message.message ?? 'Realtime error', message.topic ?? null);
+                break;
+        }
+    }
+
+    /** Token rejected: renew it once, then send the new one. */
+    private async renew(): Promise<void> {
+        if (this.renewing) return;
+        if (this.renewed) {
+            this.close();
+            return;
+        }
+        this.renewing = true;
+        this.renewed = true;
+        let renewed = false;
+        try {
+            renewed = await this.options.renewToken();
+        } catch (error) {
+            console.error('[Realtime] Token renewal failed:', error);
+        } finally {
+            this.renewing = false;
+        }
+        if (!renewed) {
+            this.close();
+        } else if (this.socket?.readyState === SOCKET_OPEN) {
+            this.sendAuth();
+        }
+    }
+
+    private sendAuth(): void {
+        const token = this.options.getToken();
+        if (token) this.send({ type: 'auth', token });
+    }
+
+    private send(message: RealtimeClientMessage): void {
+        if (this.socket?.readyState === SOCKET_OPEN) this.socket.send(JSON.stringify(message));
+    }
+
+    private scheduleReconnect(): void {
+        this.attempt++;
+        this.setState('reconnecting');
+        const delay = computeBackoffDelay(this.attempt, {
+            ...DEFAULT_RETRY_POLICY,
+            baseDelayMs: this.options.baseDelayMs,
+            maxDelayMs: this.options.maxDelayMs
+        }, this.options.random);
+        this.timer = setTimeout(() => this.connect(), delay);
+    }
+
+    /** Close the socket and stop retrying; open() or a new token starts over. */
+    private drop(): void {
+        this.clearTimer();
+        this.attempt = 0;
+        const socket = this.socket;
+        this.detach();
+        socket?.close(1000, 'Client closed');
+        this.setState('disconnected');
+    }
+
+    private detach(): void {
+        if (this.socket) {
+            this.socket.onopen = this.socket.onmessage = this.socket.onerror = this.socket.onclose = null;
+        }
+        this.socket = null;
+        this.authenticated = false;
+    }
+
+    private clearTimer(): void {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+    }
+
+    private setState(state: RealtimeState): void {
+        if (state === this.current) return;
+        this.current = state;
+        this.options.onStateChange(state);
+    }
+}
@@ -0,0 +1,54 @@
+/**
+ * Cancellation and timeout for a single ApiConnectionService call (SPEC §5.2).
+ *
+ * Combines the caller's `AbortSignal` and the call's timeout into the one signal
+ * handed to fetch(), and remembers which of the two fired so the call can be
+ * classified as `cancelled` or `timeout`.
+ */
+
+/** Why a call was aborted. */
+export type AbortKind = 'cancelled' | 'timeout';
+
+export interface RequestAbortScope {
+    /** Signal for fetch() and the interceptors; aborts on cancel or timeout. */
+    readonly signal: AbortSignal;
+    /** Which trigger aborted the call, or null while it is still live. */
+    abortKind(): AbortKind | null;
+    /** Clear the timer and detach from the caller's signal. Call once the call settles. */
+    dispose(): void;
+}
+
+/**
+ * @param external  Caller's signal (e.g. tied to a component or route lifetime)
+ * @param timeoutMs Abort after this many ms; `0` / undefined → no timeout
+ */
+export function createRequestAbortScope(external?: AbortSignal, timeoutMs?: number): RequestAbortScope {
+    const controller = new AbortController();
+    let kind: AbortKind | null = null;
+
+    const abort = (reason: AbortKind, cause: unknown) => {
+        if (kind) return;
+        kind = reason;
+        controller.abort(cause);
+    };
+
+    const onExternalAbort = () => abort('cancelled', external?.reason);
+    if (external?.aborted) {
+        onExternalAbort();
+    } else {
+        external?.addEventListener('abort', onExternalAbort, { once: true });
+    }
+
+    const timer = timeoutMs && timeoutMs > 0 && !kind
+        ? setTimeout(() => abort('timeout', new DOMException(`Request timed out after ${timeoutMs}ms`, 'TimeoutError')), timeoutMs)
+        : null;
+
+    return {
+        signal: controller.signal,
+        abortKind: () => kind,
+        dispose: () => {
+            if (timer !== null) clearTimeout(timer);
+            external?.removeEventListener('abort', onExternalAbort);
+        }
+    };
+}
@@ -0,0 +1,75 @@
+/**
+ * Per-call options accepted by every ApiConnectionService verb.
+ *
+ * All fields are optional; a call without options behaves exactly as before.
+ */
+import { RetryPolicy } from './retry-policy';
+import { QuerySerialization } from './query-string';
+
+/** How a successful response body is read into `ApiResponse.data`. */
+export type ResponseType = 'json' | 'text' | 'blob' | 'arrayBuffer';
+
+export interface RequestOptions {
+    /** Extra headers, merged over the defaults (`Content-Type` included). */
+    headers?: Record<string, string>;
+    /**
+     * Send without the Bearer token, and leave the session alone on a 401 — for
+     * public endpoints and calls to third-party hosts.
+     * @default false
+     */
+    skipAuth?: boolean;
+    /**
+     * Don't report a failure to the `NotificationHandler` — for expected errors
+     * such as a 404 on an existence check. The error `ApiResponse` is unchanged.
+     * @default false
+     */
+    silent?: boolean;
+    /** fetch() `credentials` mode, e.g. `'include'` for cookie-authenticated endpoints. */
+    credentials?: RequestCredentials;
+    /**
+     * `json` expects the StoneScriptPHP envelope (`{ status, data, message }`).
+     * The others put the raw body in `data` of an `'ok'` response.
+     * @default 'json'
+     */
+    responseType?: ResponseType;
+    /**
+     * Encoding of nested objects, arrays and dates in `get` / `delete` query
+     * params. @default client option `querySerialization` (`'flatten'`)
+     */
+    querySerialization?: QuerySerialization;
+    /**
+     * Override the global retry policy (SPEC §8.5) for this call, or `false` to
+     * disable retries.
+     */
+    retry?: Partial<RetryPolicy> | false;
+    /**
+     * Idempotency key. Makes POST / PATCH eligible for automatic retry and is sent
+     * as the policy's `idempotencyKeyHeader` so the server can de-duplicate.
+     */
+    idempotencyKey?: string;
+    /**
+     * Abort the call (including pending retries and the 401 refresh-and-retry).
+     * The call resolves to an error response of kind `cancelled`, without a
+     * notification.
+     */
+    signal?: AbortSignal;
+    /**
+     * Abort the call after this many ms, retries included. Defaults to
+     * `MyEnvironmentModel.requestTimeoutMs`; `0` disables the timeout. A timed-out
+     * call resolves to an error response of kind `timeout`, without a notification.
+     */
+    timeoutMs?: number;
+    /**
+     * Queue this mutation for replay if it fails with a network error (SPEC §5.8).
+     * Overrides the client option `outbox.enabled`; ignored for GET. A queued call
+     * resolves to an error response of kind `network` with `queued` set.
+     */
+    outbox?: boolean;
+    /**
+     * Send this GET inside a batch request (SPEC §5.11). Overrides the client
+     * option `batch.enabled`. Calls with a `signal`, `timeoutMs`, `headers`,
+     * `credentials`, `skipAuth`, `retry` or a non-JSON `responseType` are always
+     * sent on their own.
+     */
+    batch?: boolean;
+}
@@ -0,0 +1,165 @@
+/**
+ * Automatic retry with exponential backoff for transient failures.
+ *
+ * The built-in `RetryInterceptor` sits innermost on the ApiConnectionService chain
+ * — inside `AuthInterceptor` — so it only ever re-sends to the wire: transport
+ * failures and the statuses in `retryOnStatus` (502/503/504 by default). A 401 is
+ * never retried here, so the single refresh-and-retry cycle can't multiply; and
+ * the auth retry itself gets the same transient-failure protection.
+ *
+ * GET / PUT / DELETE are retried by default (idempotent by HTTP semantics).
+ * POST / PATCH are retried only when the call carries an idempotency key, which is
+ * sent as a header so the server can de-duplicate.
+ */
+import type { ApiInterceptor, ApiInterceptorChain, ApiRequest } from './api-interceptor';
+
+/** Retry behaviour; set globally via the `retry` client option, overridable per request. */
+export interface RetryPolicy {
+    /** Total attempts including the first. `1` disables retries. @default 3 */
+    maxAttempts: number;
+    /** Delay before the first retry in ms; doubles on every further attempt. @default 300 */
+    baseDelayMs: number;
+    /**
+     * Upper bound for a single delay in ms. A `Retry-After` asking for longer
+     * than this gives up instead of waiting. @default 10000
+     */
+    maxDelayMs: number;
+    /** HTTP statuses treated as transient. @default [502, 503, 504] */
+    retryOnStatus: number[];
+    /** Retry when fetch() itself rejects (network blip, DNS, CORS preflight). @default true */
+    retryOnNetworkError: boolean;
+    /** Header carrying the idempotency key for POST / PATCH. @default 'Idempotency-Key' */
+    idempotencyKeyHeader: string;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 300,
+    maxDelayMs: 10_000,
+    retryOnStatus: [502, 503, 504],
+    retryOnNetworkError: true,
+    idempotencyKeyHeader: 'Idempotency-Key'
+};
+
+/** Per-request retry settings, carried in `ApiRequest.context`. */
+export interface RequestRetryOptions {
+    /** Override parts of the global policy, or `false` to disable retries for this call. */
+    policy?: Partial<RetryPolicy> | false;
+    /** Makes POST / PATCH retryable; sent as the idempotency-key header. */
+    idempotencyKey?: string;
+    /**
+     * Key the outbox generated so a replay can be de-duplicated (SPEC §5.8). Sent
+     * as the idempotency-key header when there is no `idempotencyKey`, but does
+     * not make the call retryable.
+     */
+    outboxKey?: string;
+}
+
+/** `ApiRequest.context` keys. */
+export const RETRY_OPTIONS = 'retry.options';
+const ATTEMPT = 'retry.attempt';
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/** True when a request with this method may be re-sent. */
+export function isRetryableMethod(method: string, idempotencyKey?: string): boolean {
+    return IDEMPOTENT_METHODS.includes(method.toUpperCase()) || !!idempotencyKey;
+}
+
+/**
+ * Backoff before retry number `attempt` (1-based): exponential, capped, with
+ * "equal jitter" — half fixed, half random — so synchronized clients spread out.
+ */
+export function computeBackoffDelay(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP-date) into milliseconds.
+ * Returns null when absent or unparseable.
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+    if (!value) return null;
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10) * 1000;
+    const date = Date.parse(trimmed);
+    return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+export class RetryInterceptor implements ApiInterceptor {
+
+    constructor(private policy: RetryPolicy = DEFAULT_RETRY_POLICY) {}
+
+    onRequest(request: ApiRequest): void {
+        const options = request.context[RETRY_OPTIONS] as RequestRetryOptions | undefined;
+        const key = options?.idempotencyKey ?? options?.outboxKey;
+        if (key) {
+            request.init.headers[this.resolve(request).idempotencyKeyHeader] = key;
+        }
+    }
+
+    async onResponse(response: Response, request: ApiRequest, chain: ApiInterceptorChain): Promise<Response> {
+        const policy = this.resolve(request);
+        if (!policy.retryOnStatus.includes(response.status) || !this.canRetry(request, policy)) {
+            return response;
+        }
+
+        const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+        if (retryAfter !== null && retryAfter > policy.maxDelayMs) return response;
+
+        await this.wait(retryAfter ?? computeBackoffDelay(this.attempt(request), policy), request.init.signal);
+        return chain.retry(this.nextAttempt(request));
+    }
+
+    async onError(error: unknown, request: ApiRequest, chain: ApiInterceptorChain): Promise<Response> {
+        const policy = this.resolve(request);
+        if (!policy.retryOnNetworkError || !this.canRetry(request, policy)) throw error;
+
+        await this.wait(computeBackoffDelay(this.attempt(request), policy), request.init.signal);
+        return chain.retry(this.nextAttempt(request));
+    }
+
+    /** Global policy merged with the per-request override; `false` → single attempt. */
+    private resolve(request: ApiRequest): RetryPolicy {
+        const override = (request.context[RETRY_OPTIONS] as RequestRetryOptions | undefined)?.policy;
+        if (override === false) return { ...this.policy, maxAttempts: 1 };
+        return { ...this.policy, ...(override ?? {}) };
+    }
+
+    /** An aborted call (cancelled / timed out) is never retried. */
+    private canRetry(request: ApiRequest, policy: RetryPolicy): boolean {
+        const options = request.context[RETRY_OPTIONS] as RequestRetryOptions | undefined;
+        return !request.init.signal?.aborted &&
+            this.attempt(request) < policy.maxAttempts &&
+            isRetryableMethod(request.method, options?.idempotencyKey);
+    }
+
+    /** 1-based number of the attempt that produced the current result. */
+    private attempt(request: ApiRequest): number {
+        return (request.context[ATTEMPT] as number | undefined) ?? 1;
+    }
+
+    private nextAttempt(request: ApiRequest): ApiRequest {
+        return {
+            ...request,
+            init: { ...request.init, headers: { ...request.init.headers } },
+            context: { ...request.context, [ATTEMPT]: this.attempt(request) + 1 }
+        };
+    }
+
+    /** Sleep for `ms`, rejecting early with the abort reason if `signal` fires. */
+    private wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(signal!.reason);
+            };
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            }, ms);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+}
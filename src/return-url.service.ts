@@ -0,0 +1,59 @@
+import { Inject, Injectable } from '@angular/core';
+import { Router } from '@angular/router';
+import { NgxGuardConfig } from './guard-config';
+import { NGX_GUARD_CONFIG } from './guard-config-token';
+import { forgetReturnUrl, recallReturnUrl, safeReturnUrl } from './return-url';
+
+/**
+ * Sends the user back to where the guards stopped them (SPEC §7.5).
+ *
+ * authGuard attaches the denied URL to its login / onboarding redirects as the
+ * `returnUrl` query param and keeps a per-tab copy in sessionStorage. Call
+ * {@link navigateBack} once sign-in completes — after a login, `promoteOAuth()`
+ * or `selectTenant()` — instead of navigating to a fixed dashboard route.
+ * Targets are checked to be same-origin internal paths, so a crafted
+ * `?returnUrl=https://evil.example` can't turn the login page into an open
+ * redirect.
+ *
+ * @example
+ * ```typescript
+ * const result = await this.auth.loginWithEmail(email, password);
+ * if (result.success) await this.returnUrl.navigateBack();
+ * ```
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class ReturnUrlService {
+
+    constructor(
+        private router: Router,
+        @Inject(NGX_GUARD_CONFIG) private config: NgxGuardConfig
+    ) {}
+
+    /**
+     * The pending return URL: the query param of the current URL, else the copy
+     * kept for this tab. Null when there is none or it fails validation.
+     */
+    current(): string | null {
+        const param = this.config.returnUrlParam;
+        if (!param) return null;
+        const fromQuery = this.router.parseUrl(this.router.url).queryParamMap.get(param);
+        return safeReturnUrl(fromQuery ?? recallReturnUrl(), this.config.routes.login);
+    }
+
+    /**
+     * Navigate to the pending return URL, or to `fallback` (default
+     * `routes.dashboard`) when there is none, and forget it.
+     */
+    navigateBack(fallback: string = this.config.routes.dashboard): Promise<boolean> {
+        const target = this.current() ?? fallback;
+        forgetReturnUrl();
+        return this.router.navigateByUrl(target);
+    }
+
+    /** Forget the pending return URL kept for this tab. */
+    clear(): void {
+        forgetReturnUrl();
+    }
+}
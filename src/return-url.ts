@@ -0,0 +1,78 @@
+/**
+ * Return-URL rules (SPEC §7.5): which URLs may be returned to after sign-in,
+ * how the guards attach one to their login / onboarding redirects, and the
+ * per-tab sessionStorage copy that survives hops which drop the query param.
+ *
+ * `ReturnUrlService` and the guards wire them to the router.
+ */
+
+const STORAGE_KEY = 'progalaxyapi_return_url';
+
+/** Origin used only to resolve candidates; never navigated to. */
+const PROBE_ORIGIN = 'http://return-url.invalid';
+
+/**
+ * `candidate` if it is an internal path safe to navigate to, else null.
+ *
+ * Only same-origin absolute paths pass: no scheme, no protocol-relative
+ * `//host`, no backslashes (browsers treat them as `/`), no control
+ * characters. Paths under `loginRoute` are refused too, so a login page can
+ * never be sent back to itself.
+ */
+export function safeReturnUrl(candidate: unknown, loginRoute?: string): string | null {
+    if (typeof candidate !== 'string' || !candidate.startsWith('/') || candidate.startsWith('//')) {
+        return null;
+    }
+    if (/[\\\u0000-\u001f\u007f]/.test(candidate)) {
+        return null;
+    }
+    try {
+        if (new URL(candidate, PROBE_ORIGIN).origin !== PROBE_ORIGIN) return null;
+    } catch {
+        return null;
+    }
+    if (loginRoute) {
+        const path = candidate.split(/[?#]/)[0];
+        if (path === loginRoute || path.startsWith(`${loginRoute}/`)) return null;
+    }
+    return candidate;
+}
+
+/**
+ * `target` with `url` attached as the `param` query param. Returns `target`
+ * unchanged when `param` is empty or `url` is not a safe return URL.
+ */
+export function withReturnUrl(target: string, url: string, param: string | undefined, loginRoute?: string): string {
+    if (!param || safeReturnUrl(url, loginRoute) === null) {
+        return target;
+    }
+    const separator = target.includes('?') ? '&' : '?';
+    return `${target}${separator}${encodeURIComponent(param)}=${encodeURIComponent(url)}`;
+}
+
+/** Keep `url` for this tab, for flows that leave the page carrying the query param. */
+export function rememberReturnUrl(url: string): void {
+    try {
+        sessionStorage.setItem(STORAGE_KEY, url);
+    } catch {
+        // sessionStorage unavailable (SSR, private mode restrictions)
+    }
+}
+
+/** The URL kept by {@link rememberReturnUrl}, or null. Not validated. */
+export function recallReturnUrl(): string | null {
+    try {
+        return sessionStorage.getItem(STORAGE_KEY);
+    } catch {
+        return null;
+    }
+}
+
+/** Drop the URL kept by {@link rememberReturnUrl}. */
+export function forgetReturnUrl(): void {
+    try {
+        sessionStorage.removeItem(STORAGE_KEY);
+    } catch {
+        // sessionStorage unavailable
+    }
+}
@@ -0,0 +1,127 @@
+/**
+ * Cross-tab session synchronization.
+ *
+ * Tokens already live in `localStorage` (SPEC §3.1) and are shared by every tab,
+ * but each tab's `AuthService.user` signal and renewal timer are not. This channel
+ * tells the other tabs when the session changed so they can update in place
+ * instead of discovering it through a 401.
+ *
+ * Transport: `BroadcastChannel` where available, otherwise a `storage` event
+ * fallback (write + immediate remove of a message key — `storage` events only
+ * fire in the *other* tabs). Messages never carry tokens.
+ *
+ * `AuthService` owns the instance.
+ */
+
+/** A session change announced to the other tabs, carrying the `TUser` shape. */
+export type SessionSyncMessage<TUser = unknown> =
+    | { type: 'login'; user: TUser | null }
+    | { type: 'logout' }
+    | { type: 'refreshed'; user: TUser | null }
+    | { type: 'tenantSwitched'; user: TUser | null }
+    | { type: 'profileUpdated'; user: TUser | null };
+
+/** Lease held in localStorage when the Web Locks API is unavailable. */
+interface StorageLease {
+    owner: string;
+    expires: number;
+}
+
+const LEASE_TTL_MS = 30_000;
+
+export class SessionSyncChannel<TUser = unknown> {
+
+    private readonly tabId = Math.random().toString(36).slice(2);
+    private channel: BroadcastChannel | null = null;
+    private handler: ((message: SessionSyncMessage<TUser>) => void) | null = null;
+
+    private readonly onStorage = (event: StorageEvent) => {
+        if (event.key !== this.name || !event.newValue) return;
+        try {
+            const { message } = JSON.parse(event.newValue);
+            this.handler?.(message);
+        } catch {
+            // Malformed payload from another library version — ignore
+        }
+    };
+
+    constructor(private readonly name: string) {
+        if (typeof BroadcastChannel !== 'undefined') {
+            this.channel = new BroadcastChannel(name);
+            this.channel.onmessage = (event: MessageEvent<SessionSyncMessage<TUser>>) => this.handler?.(event.data);
+        } else if (typeof window !== 'undefined') {
+            window.addEventListener('storage', this.onStorage);
+        }
+    }
+
+    /** Register the receiver for messages posted by other tabs. */
+    onMessage(handler: (message: SessionSyncMessage<TUser>) => void): void {
+        this.handler = handler;
+    }
+
+    /** Announce a session change to the other tabs. Never delivered to this tab. */
+    post(message: SessionSyncMessage<TUser>): void {
+        try {
+            if (this.channel) {
+                this.channel.postMessage(message);
+            } else if (typeof localStorage !== 'undefined') {
+                // Unique payload so consecutive identical messages still fire `storage`
+                localStorage.setItem(this.name, JSON.stringify({ message, from: this.tabId, at: Date.now() }));
+                localStorage.removeItem(this.name);
+            }
+        } catch (error) {
+            console.debug('[SessionSyncChannel] Failed to post message:', error);
+        }
+    }
+
+    /**
+     * Run `task` only if no other tab is currently running a task under `lockName`.
+     * When the lock is held elsewhere the task is skipped — the holder will announce
+     * its result. Uses the Web Locks API, or a short localStorage lease as fallback.
+     */
+    async runExclusive(lockName: string, task: () => Promise<void>): Promise<void> {
+        const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+        if (locks) {
+            await locks.request(`${this.name}:${lockName}`, { ifAvailable: true }, async lock => {
+                if (lock) await task();
+            });
+            return;
+        }
+
+        const key = `${this.name}:${lockName}`;
+        if (!this.acquireLease(key)) return;
+        try {
+            await task();
+        } finally {
+            this.releaseLease(key);
+        }
+    }
+
+    close(): void {
+        this.channel?.close();
+        this.channel = null;
+        if (typeof window !== 'undefined') window.removeEventListener('storage', this.onStorage);
+        this.handler = null;
+    }
+
+    private acquireLease(key: string): boolean {
+        try {
+            const raw = localStorage.getItem(key);
+            const lease: StorageLease | null = raw ? JSON.parse(raw) : null;
+            if (lease && lease.owner !== this.tabId && lease.expires > Date.now()) return false;
+            localStorage.setItem(key, JSON.stringify({ owner: this.tabId, expires: Date.now() + LEASE_TTL_MS }));
+            return true;
+        } catch {
+            return true; // storage unavailable — nothing to coordinate with
+        }
+    }
+
+    private releaseLease(key: string): void {
+        try {
+            const raw = localStorage.getItem(key);
+            if (raw && JSON.parse(raw).owner === this.tabId) localStorage.removeItem(key);
+        } catch {
+            // ignore
+        }
+    }
+}
@@ -0,0 +1,122 @@
+/**
+ * Incremental parsers for streamed responses (SPEC §5.9): Server-Sent Events
+ * and newline-delimited JSON.
+ *
+ * Both accept text in arbitrary pieces — network chunks split lines and events
+ * anywhere — and return whatever became complete.
+ */
+
+/** One dispatched SSE event. */
+export interface SseMessage {
+    /** `event:` field; `'message'` when absent. */
+    event: string;
+    /** `data:` lines joined with `\n`. */
+    data: string;
+    /** Last event id seen so far (ids persist across events, as in EventSource). */
+    id: string | null;
+}
+
+/**
+ * Server-Sent Events parser following the HTML event-stream rules: `data`,
+ * `event`, `id` and `retry` fields, `:` comments, blank-line dispatch, and
+ * CRLF / LF / CR line endings.
+ */
+export class SseParser {
+
+    /** Last event id, for the `Last-Event-ID` header on reconnect. */
+    lastEventId: string | null = null;
+    /** Reconnection delay requested by the server (`retry:`), in ms. */
+    retryMs: number | null = null;
+
+    private buffer = '';
+    private data: string[] = [];
+    private event = '';
+
+    /** Feed decoded text; returns the events it completed. */
+    push(text: string): SseMessage[] {
+        this.buffer += text;
+        const messages: SseMessage[] = [];
+
+        // A trailing CR may be the first half of a CRLF split across chunks.
+        let end = this.buffer.length;
+        if (this.buffer.endsWith('\r')) end--;
+
+        let start = 0;
+        const pattern = /\r\n|\r|\n/g;
+        pattern.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(this.buffer)) !== null && match.index < end) {
+            const message = this.line(this.buffer.slice(start, match.index));
+            if (message) messages.push(message);
+            start = match.index + match[0].length;
+        }
+        this.buffer = this.buffer.slice(start);
+        return messages;
+    }
+
+    private line(line: string): SseMessage | null {
+        if (line === '') return this.dispatch();
+        if (line.startsWith(':')) return null;
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let value = colon === -1 ? '' : line.slice(colon + 1);
+        if (value.startsWith(' ')) value = value.slice(1);
+
+        switch (field) {
+            case 'data':
+                this.data.push(value);
+                break;
+            case 'event':
+                this.event = value;
+                break;
+            case 'id':
+                if (!value.includes('\0')) this.lastEventId = value;
+                break;
+            case 'retry':
+                if (/^\d+$/.test(value)) this.retryMs = parseInt(value, 10);
+                break;
+        }
+        return null;
+    }
+
+    private dispatch(): SseMessage | null {
+        const data = this.data;
+        const event = this.event;
+        this.data = [];
+        this.event = '';
+        if (data.length === 0) return null;
+        return { event: event || 'message', data: data.join('\n'), id: this.lastEventId };
+    }
+}
+
+/** Newline-delimited JSON parser: one value per non-blank line. */
+export class NdjsonParser {
+
+    private buffer = '';
+
+    /** @param parse - turns one line into a value; @default JSON.parse */
+    constructor(private readonly parse: (line: string) => unknown = JSON.parse) {}
+
+    /** Feed decoded text; returns the values of the lines it completed. Throws when `parse` does. */
+    push(text: string): unknown[] {
+        this.buffer += text;
+        const lines = this.buffer.split('\n');
+        this.buffer = lines.pop()!;
+        return this.parseLines(lines);
+    }
+
+    /** The last line, when the body doesn't end with a newline. */
+    flush(): unknown[] {
+        const rest = this.buffer;
+        this.buffer = '';
+        return this.parseLines([rest]);
+    }
+
+    private parseLines(lines: string[]): unknown[] {
+        return lines
+            .map(line => line.trim())
+            .filter(line => line !== '')
+            .map(line => this.parse(line));
+    }
+}
@@ -0,0 +1,84 @@
+import { signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { Subject } from 'rxjs';
+import { ApiResponse } from '@progalaxyelabs/stonescriptphp-client-core';
+import { SubscriptionService } from './subscription.service';
+import { ApiConnectionService } from './api-connection.service';
+import { AuthService } from './auth.service';
+import { NGX_CLIENT_CONFIG, resolveClientConfig } from './client-config';
+
+// ── Subscription status cache (SPEC §7.6) ─────────────────────────────────────
+
+describe('SubscriptionService', () => {
+  let api: { get: jasmine.Spy };
+  let tenantId: ReturnType<typeof signal<string | null>>;
+  let authEvents: Subject<any>;
+
+  const ok = (data: unknown) => new ApiResponse<any>('ok', data, '');
+
+  beforeEach(() => {
+    api = {
+      get: jasmine.createSpy('get').and.callFake(async () =>
+        ok({ plan: `plan-${tenantId()}`, status: 'active', features: ['reports'] }))
+    };
+    tenantId = signal<string | null>('t1');
+    authEvents = new Subject();
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: ApiConnectionService, useValue: api },
+        { provide: AuthService, useValue: { tenantId, authEvents$: authEvents } },
+        { provide: NGX_CLIENT_CONFIG, useValue: resolveClientConfig({ subscription: { ttlMs: 60_000 } }) },
+      ],
+    });
+  });
+
+  it('exposes the status as signals and reuses it within the TTL', async () => {
+    const service = TestBed.inject(SubscriptionService);
+    await service.load();
+    await service.load();
+
+    expect(api.get).toHaveBeenCalledTimes(1);
+    expect(api.get).toHaveBeenCalledWith('subscription/status');
+    expect(service.plan()).toBe('plan-t1');
+    expect(service.isActive()).toBeTrue();
+    expect(service.hasFeature('reports')).toBeTrue();
+  });
+
+  it('keeps one entry per tenant', async () => {
+    const service = TestBed.inject(SubscriptionService);
+    await service.load();
+    tenantId.set('t2');
+    expect(service.snapshot()).toBeNull();
+
+    await service.load();
+    expect(service.plan()).toBe('plan-t2');
+    tenantId.set('t1');
+    expect(service.plan()).toBe('plan-t1');
+    expect(api.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops the cache on tenant selection and logout', async () => {
+    const service = TestBed.inject(SubscriptionService);
+    await service.load();
+
+    authEvents.next({ type: 'tenantSelected', tenantId: 't1' });
+    expect(service.snapshot()).toBeNull();
+    await service.load();
+
+    authEvents.next({ type: 'logout' });
+    expect(service.features()).toEqual([]);
+    expect(api.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache 5xx answers', async () => {
+    api.get.and.callFake(async () => new ApiResponse<any>('error', { httpStatus: 503 }, 'Unavailable'));
+    const service = TestBed.inject(SubscriptionService);
+
+    const snapshot = await service.load();
+    expect(snapshot.probe).toEqual({ ok: false, httpStatus: 503, isNetworkError: false });
+    expect(service.snapshot()).toBeNull();
+    await service.load();
+    expect(api.get).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,114 @@
+import { Inject, Injectable, computed, signal } from '@angular/core';
+import { ApiConnectionService } from './api-connection.service';
+import { AuthService } from './auth.service';
+import { NGX_CLIENT_CONFIG, NgxClientConfig } from './client-config';
+import { NgxGuardConfig } from './guard-config';
+import { NGX_GUARD_CONFIG } from './guard-config-token';
+import {
+    EMPTY_SUBSCRIPTION,
+    SUBSCRIPTION_RESET_EVENTS,
+    SubscriptionSnapshot,
+    isCacheableSnapshot,
+    isFreshSnapshot,
+    isSubscriptionActive,
+    readSnapshot
+} from './subscription';
+
+/**
+ * Cached subscription status of the current tenant (SPEC §7.6).
+ *
+ * subscriptionGuard, featureGuard and `*ifFeature` all read the status through
+ * {@link load}, so navigating between subscribed routes costs one request per
+ * tenant per `subscription.ttlMs` instead of one per navigation. Entries are
+ * keyed by `AuthService.tenantId`; `selectTenant()` and logout drop them all.
+ *
+ * Successful and 4xx answers are cached; 5xx and network failures are not, so
+ * the next check retries.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class SubscriptionService {
+
+    private readonly entries = signal<ReadonlyMap<string, SubscriptionSnapshot>>(new Map());
+    private readonly inFlight = new Map<string, Promise<SubscriptionSnapshot>>();
+    /** Bumped by invalidate(), so responses for dropped entries are not stored. */
+    private generation = 0;
+
+    /** Cached snapshot of the current tenant, or null until loaded. */
+    readonly snapshot = computed(() => this.entries().get(this.key()) ?? null);
+
+    /** Parsed status of the current tenant; empty until loaded. */
+    private readonly info = computed(() => this.snapshot()?.info ?? EMPTY_SUBSCRIPTION);
+
+    readonly plan = computed(() => this.info().plan);
+    readonly status = computed(() => this.info().status);
+    readonly trialEndsAt = computed(() => this.info().trialEndsAt);
+    readonly features = computed(() => this.info().features);
+
+    /** True while the subscription is trialing or active. */
+    readonly isActive = computed(() => isSubscriptionActive(this.status()));
+
+    constructor(
+        private api: ApiConnectionService,
+        private auth: AuthService,
+        @Inject(NGX_CLIENT_CONFIG) private config: NgxClientConfig,
+        @Inject(NGX_GUARD_CONFIG) private guardConfig: NgxGuardConfig
+    ) {
+        this.auth.authEvents$.subscribe(event => {
+            if (SUBSCRIPTION_RESET_EVENTS.includes(event.type)) {
+                this.invalidate();
+            }
+        });
+    }
+
+    /** True when the current subscription grants `feature`. */
+    hasFeature(feature: string): boolean {
+        return this.features().includes(feature);
+    }
+
+    /**
+     * The current tenant's status: the cached snapshot while it is fresh,
+     * otherwise a new fetch (shared with any fetch already in flight).
+     * `force` skips the cache.
+     */
+    load(force = false): Promise<SubscriptionSnapshot> {
+        const key = this.key();
+        const cached = this.entries().get(key);
+        if (!force && cached && isFreshSnapshot(cached, this.config.subscription.ttlMs)) {
+            return Promise.resolve(cached);
+        }
+        const pending = this.inFlight.get(key);
+        if (pending) return pending;
+
+        const run = this.generation;
+        const request = this.fetch()
+            .then(snapshot => {
+                if (run === this.generation && isCacheableSnapshot(snapshot)) {
+                    this.entries.update(entries => new Map(entries).set(key, snapshot));
+                }
+                return snapshot;
+            })
+            .finally(() => {
+                if (this.inFlight.get(key) === request) this.inFlight.delete(key);
+            });
+        this.inFlight.set(key, request);
+        return request;
+    }
+
+    /** Drop every cached status; the next {@link load} fetches again. */
+    invalidate(): void {
+        this.generation++;
+        this.inFlight.clear();
+        this.entries.set(new Map());
+    }
+
+    private key(): string {
+        return this.auth.tenantId() ?? '';
+    }
+
+    private async fetch(): Promise<SubscriptionSnapshot> {
+        const res = await this.api.get<unknown>(this.guardConfig.subscriptionStatusEndpoint);
+        return readSnapshot(res, Date.now());
+    }
+}
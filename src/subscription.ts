@@ -0,0 +1,134 @@
+/**
+ * Subscription status model (SPEC §7.6): reading plan, status, trial end and
+ * feature entitlements out of the `subscriptionStatusEndpoint` response, and
+ * the rules for caching it.
+ *
+ * `SubscriptionService` owns the per-tenant cache and the signals.
+ */
+import { SubscriptionProbe } from './guard-logic';
+
+/** Lifecycle status of a subscription, normalised from the server's spelling. */
+export type SubscriptionStatus = 'trialing' | 'active' | 'past_due' | 'canceled';
+
+/** What the status endpoint says about the current tenant's subscription. */
+export interface SubscriptionInfo {
+    /** Plan code or name; null when the response names none. */
+    plan: string | null;
+    /** Null when absent or not one of the known statuses. */
+    status: SubscriptionStatus | null;
+    /** End of the trial; null when not trialing or not reported. */
+    trialEndsAt: Date | null;
+    /** Feature keys the plan entitles the tenant to. */
+    features: string[];
+}
+
+/** One fetch of the status endpoint, as cached per tenant. */
+export interface SubscriptionSnapshot {
+    probe: SubscriptionProbe;
+    /** Parsed from the response data; empty for a failed probe. */
+    info: SubscriptionInfo;
+    /** `Date.now()` when the response arrived. */
+    fetchedAt: number;
+}
+
+export const EMPTY_SUBSCRIPTION: SubscriptionInfo = { plan: null, status: null, trialEndsAt: null, features: [] };
+
+/** Auth events after which every cached status is dropped. */
+export const SUBSCRIPTION_RESET_EVENTS: readonly string[] = ['tenantSelected', 'logout', 'sessionCleared'];
+
+const STATUS_ALIASES: Record<string, SubscriptionStatus> = {
+    trialing: 'trialing',
+    trial: 'trialing',
+    active: 'active',
+    past_due: 'past_due',
+    canceled: 'canceled',
+    cancelled: 'canceled'
+};
+
+/**
+ * Read the status endpoint's `data`. Accepted shapes, snake_case or camelCase:
+ *  - `plan` — a string, or an object with `code`, `name` or `id`
+ *  - `status` — `trialing` / `active` / `past_due` / `canceled` (also `trial`, `cancelled`, `past-due`)
+ *  - `trial_ends_at` / `trial_end` — ISO string, or epoch seconds / milliseconds
+ *  - `features` / `entitlements` — an array of keys, or an object of key → boolean
+ */
+export function readSubscription(data: unknown): SubscriptionInfo {
+    if (!data || typeof data !== 'object') {
+        return EMPTY_SUBSCRIPTION;
+    }
+    const source = data as Record<string, any>;
+    return {
+        plan: readPlan(source['plan']),
+        status: STATUS_ALIASES[String(source['status'] ?? '').toLowerCase().replace('-', '_')] ?? null,
+        trialEndsAt: readDate(source['trial_ends_at'] ?? source['trialEndsAt'] ?? source['trial_end'] ?? source['trialEnd']),
+        features: readFeatures(source['features'] ?? source['entitlements'])
+    };
+}
+
+/** The snapshot of one status-endpoint response. */
+export function readSnapshot(response: { status: string; data: unknown }, fetchedAt: number): SubscriptionSnapshot {
+    if (response.status === 'ok') {
+        return {
+            probe: { ok: true, httpStatus: 200, isNetworkError: false },
+            info: readSubscription(response.data),
+            fetchedAt
+        };
+    }
+    const meta: any = response.data ?? {};
+    return {
+        probe: {
+            ok: false,
+            httpStatus: typeof meta.httpStatus === 'number' ? meta.httpStatus : null,
+            isNetworkError: !!meta.isNetworkError
+        },
+        info: EMPTY_SUBSCRIPTION,
+        fetchedAt
+    };
+}
+
+/** Whether to keep `snapshot`: a 4xx is an answer, a 5xx or no response is not. */
+export function isCacheableSnapshot(snapshot: SubscriptionSnapshot): boolean {
+    const { ok, httpStatus } = snapshot.probe;
+    return ok || (httpStatus !== null && httpStatus < 500);
+}
+
+/** True while `snapshot` is younger than `ttlMs`. */
+export function isFreshSnapshot(snapshot: SubscriptionSnapshot, ttlMs: number, now = Date.now()): boolean {
+    return now - snapshot.fetchedAt < ttlMs;
+}
+
+/** True while the subscription grants access: trialing or active. */
+export function isSubscriptionActive(status: SubscriptionStatus | null): boolean {
+    return status === 'trialing' || status === 'active';
+}
+
+function readPlan(plan: unknown): string | null {
+    if (typeof plan === 'string' && plan !== '') return plan;
+    if (plan && typeof plan === 'object') {
+        const { code, name, id } = plan as Record<string, unknown>;
+        const value = code ?? name ?? id;
+        return value != null && value !== '' ? String(value) : null;
+    }
+    return null;
+}
+
+function readDate(value: unknown): Date | null {
+    if (typeof value === 'number' && isFinite(value)) {
+        return new Date(value < 1e12 ? value * 1000 : value);
+    }
+    if (typeof value === 'string' && value !== '') {
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? null : date;
+    }
+    return null;
+}
+
+function readFeatures(features: unknown): string[] {
+    if (Array.isArray(features)) {
+        return features.filter(key => typeof key === 'string');
+    }
+    if (features && typeof features === 'object') {
+        return Object.keys(features).filter(key => (features as Record<string, unknown>)[key] === true);
+    }
+    return [];
+}
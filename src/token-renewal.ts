@@ -0,0 +1,117 @@
+/**
+ * Background scheduler for proactive access-token renewal.
+ *
+ * Arms a single timer for `exp - skew` and runs the supplied renewal callback when
+ * it fires. Browser timers are throttled or frozen in hidden tabs, so the timer is
+ * dropped while the page is hidden and re-armed on `visibilitychange` / `online` —
+ * if the deadline already passed, renewal runs immediately (catch-up).
+ *
+ * `AuthService` owns the instance and decides when to schedule
+ * (after login / refresh / exchange) and when to stop (signout / clearSession).
+ */
+
+/** setTimeout overflows above 2^31-1 ms (~24.8 days) and would fire immediately. */
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+
+export interface TokenRenewalSchedulerOptions {
+    /** Seconds before `exp` at which renewal runs. */
+    skewSeconds: number;
+    /** Current access token `exp` claim (epoch seconds), or null when there is none. */
+    getExpiry: () => number | null;
+    /** Perform the renewal. The scheduler re-arms itself afterwards. */
+    renew: () => Promise<void>;
+}
+
+export class TokenRenewalScheduler {
+
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private active = false;
+    private renewing = false;
+    /** `exp` of the token last renewed — never renew the same token twice in a row. */
+    private attemptedExp: number | null = null;
+
+    private readonly onWake = () => this.arm();
+
+    constructor(private options: TokenRenewalSchedulerOptions) {}
+
+    /** Start (or re-arm) scheduling for the current access token. Idempotent. */
+    schedule(): void {
+        if (!this.active) {
+            this.active = true;
+            this.listen(true);
+        }
+        this.arm();
+    }
+
+    /** True when the current access token is inside the renewal window. */
+    isDue(): boolean {
+        const exp = this.options.getExpiry();
+        return !!exp && exp * 1000 - this.options.skewSeconds * 1000 <= Date.now();
+    }
+
+    /** Cancel the pending renewal and detach listeners. */
+    stop(): void {
+        this.active = false;
+        this.clearTimer();
+        this.listen(false);
+    }
+
+    private arm(): void {
+        this.clearTimer();
+        if (!this.active || this.renewing || this.isHidden()) return;
+
+        const exp = this.options.getExpiry();
+        if (!exp) return;
+
+        const delay = exp * 1000 - this.options.skewSeconds * 1000 - Date.now();
+        if (delay <= 0) {
+            // A token issued with less lifetime than the skew would otherwise loop.
+            if (exp === this.attemptedExp) return;
+            this.attemptedExp = exp;
+            void this.run();
+            return;
+        }
+        this.timer = setTimeout(() => this.arm(), Math.min(delay, MAX_TIMER_DELAY_MS));
+    }
+
+    private async run(): Promise<void> {
+        // Offline: a refresh attempt would fail and clear the session — wait for `online`.
+        if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+            this.attemptedExp = null;
+            return;
+        }
+
+        this.renewing = true;
+        try {
+            await this.options.renew();
+        } catch (error) {
+            console.debug('[TokenRenewalScheduler] Renewal failed:', error);
+            this.renewing = false;
+            this.attemptedExp = null;
+            return; // re-armed by the next visibilitychange / online, or by a 401 renewal
+        }
+        this.renewing = false;
+        this.arm();
+    }
+
+    private clearTimer(): void {
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private isHidden(): boolean {
+        return typeof document !== 'undefined' && document.visibilityState === 'hidden';
+    }
+
+    private listen(on: boolean): void {
+        if (on) {
+            if (typeof document !== 'undefined') document.addEventListener('visibilitychange', this.onWake);
+            if (typeof window !== 'undefined') window.addEventListener('online', this.onWake);
+        } else {
+            if (typeof document !== 'undefined') document.removeEventListener('visibilitychange', this.onWake);
+            if (typeof window !== 'undefined') window.removeEventListener('online', this.onWake);
+        }
+    }
+}
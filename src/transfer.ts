@@ -0,0 +1,199 @@
+/**
+ * File upload / download support for ApiConnectionService (SPEC §5.4).
+ *
+ * `upload()` sends multipart bodies over XMLHttpRequest — fetch() has no upload
+ * progress — wrapped as a transport for the interceptor chain, so Bearer
+ * injection and the 401 refresh-and-retry are the same as for every other call.
+ * `download()` uses fetch() and reads the body stream to report progress.
+ */
+import type { ApiRequest } from './api-interceptor';
+import { RequestOptions } from './request-options';
+
+/** Bytes transferred so far. */
+export interface TransferProgress {
+    loaded: number;
+    /** Total size in bytes, or null when the server / browser doesn't say. */
+    total: number | null;
+    /** `loaded / total` in 0..1, or null when the total is unknown. */
+    fraction: number | null;
+}
+
+/** A multipart body: a FormData, a single file, or fields (arrays repeat the field). */
+export type UploadBody =
+    | FormData
+    | Blob
+    | Record<string, string | number | boolean | Blob | Array<string | number | boolean | Blob> | null | undefined>;
+
+export interface UploadOptions extends RequestOptions {
+    /** @default 'POST' */
+    method?: 'POST' | 'PUT' | 'PATCH';
+    /** Form field for a single Blob / File body. @default 'file' */
+    fieldName?: string;
+    /**
+     * Upload progress. Starts over if the request is re-sent after a 401
+     * refresh.
+     */
+    onProgress?: (progress: TransferProgress) => void;
+}
+
+export interface DownloadOptions extends RequestOptions {
+    /** Download progress, reported while the body is read. */
+    onProgress?: (progress: TransferProgress) => void;
+}
+
+/** `data` of a successful `download()`. */
+export interface DownloadedFile {
+    blob: Blob;
+    /**
+     * From `Content-Disposition`, or null. Cross-origin APIs must list the header
+     * in `Access-Control-Expose-Headers` for the browser to reveal it.
+     */
+    filename: string | null;
+    contentType: string | null;
+}
+
+/** Progress snapshot; a zero or unknown total leaves `total` / `fraction` null. */
+export function toProgress(loaded: number, total: number | null): TransferProgress {
+    const known = total !== null && total > 0 ? total : null;
+    return { loaded, total: known, fraction: known === null ? null : Math.min(1, loaded / known) };
+}
+
+/** Build the multipart body for `upload()`. */
+export function toFormData(body: UploadBody, fieldName = 'file'): FormData {
+    if (body instanceof FormData) return body;
+
+    const form = new FormData();
+    if (body instanceof Blob) {
+        appendField(form, fieldName, body);
+        return form;
+    }
+    for (const [key, value] of Object.entries(body)) {
+        if (value === null || value === undefined) continue;
+        for (const item of Array.isArray(value) ? value : [value]) {
+            appendField(form, key, item);
+        }
+    }
+    return form;
+}
+
+function appendField(form: FormData, key: string, value: string | number | boolean | Blob): void {
+    if (value instanceof Blob) {
+        // Files keep their name; a bare Blob gets the field name.
+        form.append(key, value, typeof (value as File).name === 'string' ? (value as File).name : key);
+    } else {
+        form.append(key, String(value));
+    }
+}
+
+/**
+ * Filename from a `Content-Disposition` header. The RFC 5987 `filename*` form
+ * (UTF-8, percent-encoded) wins over plain `filename`.
+ */
+export function parseContentDispositionFilename(header: string | null): string | null {
+    if (!header) return null;
+
+    const extended = /filename\*\s*=\s*([^;]+)/i.exec(header);
+    if (extended) {
+        const value = extended[1].trim().replace(/^"(.*)"$/, '$1');
+        const match = /^([\w!#$%&+^`{}~-]+)'[^']*'(.*)$/.exec(value);
+        try {
+            if (match) return decodeURIComponent(match[2]);
+        } catch {
+            // Malformed percent-encoding — fall back to `filename`.
+        }
+    }
+
+    const plain = /filename\s*=\s*("((?:[^"\\]|\\.)*)"|[^;]+)/i.exec(header);
+    if (!plain) return null;
+    const name = plain[2] !== undefined ? plain[2].replace(/\\(.)/g, '$1') : plain[1].trim();
+    return name || null;
+}
+
+/** Read a response body into a Blob, reporting progress per chunk. */
+export async function readBodyWithProgress(
+    response: Response,
+    onProgress?: (progress: TransferProgress) => void
+): Promise<Blob> {
+    const type = response.headers.get('Content-Type') ?? '';
+    if (!onProgress || !response.body) {
+        return response.blob();
+    }
+
+    const length = Number(response.headers.get('Content-Length'));
+    const total = Number.isFinite(length) && length > 0 ? length : null;
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let loaded = 0;
+
+    onProgress(toProgress(0, total));
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+        loaded += value.byteLength;
+        onProgress(toProgress(loaded, total));
+    }
+    return new Blob(chunks as BlobPart[], { type });
+}
+
+/** Statuses a `Response` must be built without a body for. */
+const NULL_BODY_STATUSES = new Set([204, 205, 304]);
+
+/**
+ * An interceptor-chain transport that sends over XMLHttpRequest to report
+ * upload progress. Rejects with a TypeError on network failure (like fetch)
+ * and with the signal's reason on abort.
+ */
+export function xhrTransport(onProgress?: (progress: TransferProgress) => void): (request: ApiRequest) => Promise<Response> {
+    return ({ url, method, init }) => new Promise<Response>((resolve, reject) => {
+        const signal = init.signal;
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        const xhr = new XMLHttpRequest();
+        xhr.open(method, url);
+        xhr.responseType = 'blob';
+        xhr.withCredentials = init.credentials === 'include';
+        for (const [name, value] of Object.entries(init.headers)) {
+            xhr.setRequestHeader(name, value);
+        }
+
+        const onAbort = () => xhr.abort();
+        signal?.addEventListener('abort', onAbort, { once: true });
+        const settle = () => signal?.removeEventListener('abort', onAbort);
+
+        if (onProgress) {
+            xhr.upload.onprogress = event => onProgress(toProgress(event.loaded, event.lengthComputable ? event.total : null));
+        }
+        xhr.onload = () => {
+            settle();
+            resolve(new Response(NULL_BODY_STATUSES.has(xhr.status) ? null : xhr.response, {
+                status: xhr.status,
+                statusText: xhr.statusText,
+                headers: parseXhrHeaders(xhr.getAllResponseHeaders())
+            }));
+        };
+        xhr.onerror = () => {
+            settle();
+            reject(new TypeError('Network request failed'));
+        };
+        xhr.onabort = () => {
+            settle();
+            reject(signal?.reason ?? new DOMException('Aborted', 'AbortError'));
+        };
+
+        xhr.send((init.body ?? null) as XMLHttpRequestBodyInit | null);
+    });
+}
+
+/** `getAllResponseHeaders()` text → Headers. */
+export function parseXhrHeaders(raw: string): Headers {
+    const headers = new Headers();
+    for (const line of raw.trim().split(/[\r\n]+/)) {
+        const index = line.indexOf(':');
+        if (index > 0) headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+    }
+    return headers;
+}
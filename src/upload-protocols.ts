@@ -0,0 +1,204 @@
+/**
+ * Resumable chunked uploads over ApiConnectionService (SPEC §5.4.1): the
+ * options and handle of `uploadChunked()`, and the built-in wire protocols.
+ *
+ * Every request goes through ApiConnectionService, so chunks get the Bearer
+ * token and the 401 refresh-and-retry like any other call. A failed step
+ * rejects with its error `ApiResponse`.
+ */
+import { Signal } from '@angular/core';
+import { ApiResponse } from '@progalaxyelabs/stonescriptphp-client-core';
+import type { ApiConnectionService } from './api-connection.service';
+import { RequestOptions } from './request-options';
+import { TransferProgress } from './transfer';
+import { ChunkRange, ChunkedUploadProtocol, UploadFileInfo } from './chunked-upload';
+
+export interface ChunkedUploadOptions extends Pick<RequestOptions, 'headers' | 'skipAuth' | 'credentials' | 'signal' | 'silent'> {
+    /**
+     * Wire protocol: the StoneScriptPHP chunk protocol, tus 1.0, or a custom
+     * implementation (SPEC §5.4.1).
+     * @default 'stonescriptphp'
+     */
+    protocol?: 'stonescriptphp' | 'tus' | ChunkedUploadProtocol<unknown>;
+    /** Bytes per chunk. @default client option `upload.chunkSize` */
+    chunkSize?: number;
+    /** Chunks in flight at once (tus always uses 1). @default client option `upload.concurrency` */
+    concurrency?: number;
+    /** Extra fields sent when the upload is created (tus: `Upload-Metadata`). */
+    metadata?: Record<string, string>;
+    /** tus only: endpoint that receives `{ upload_url, filename, size }` once the upload is complete. */
+    commitPath?: string;
+}
+
+/**
+ * - `uploading`  — sending chunks (or checking what the server already has)
+ * - `committing` — every chunk stored; waiting for the commit call
+ * - `done` / `failed` / `cancelled` — final; `result` has resolved
+ */
+export type ChunkedUploadStatus = 'uploading' | 'committing' | 'done' | 'failed' | 'cancelled';
+
+/** Handle returned by `ApiConnectionService.uploadChunked()`. */
+export interface ChunkedUpload<T> {
+    /** Overall progress across all chunks, resumed ones included. */
+    readonly progress: Signal<TransferProgress>;
+    readonly status: Signal<ChunkedUploadStatus>;
+    /** The commit response, or the error response of the step that failed. Never rejects. */
+    readonly result: Promise<ApiResponse<T>>;
+    /** Stop sending. Saved progress is kept, so uploading the same file again resumes. */
+    cancel(): void;
+}
+
+/** Options shared by every step request of an upload. */
+export type UploadStepOptions = Pick<RequestOptions, 'headers' | 'skipAuth' | 'credentials' | 'signal'>;
+
+const TUS_VERSION = '1.0.0';
+
+/** Fail the upload with the step's error response. */
+function unwrap<T>(response: ApiResponse<T>): T {
+    if (response.status !== 'ok') throw response;
+    return response.data as T;
+}
+
+function stepOptions(options: UploadStepOptions, headers: Record<string, string> = {}): RequestOptions {
+    // Steps never notify: the upload reports one failure at the end.
+    return { ...options, headers: { ...(options.headers ?? {}), ...headers }, silent: true };
+}
+
+/**
+ * StoneScriptPHP chunk protocol. Chunks are independent, so they may be sent
+ * in parallel:
+ *
+ * | Step   | Request                                   | Response `data`          |
+ * |--------|-------------------------------------------|--------------------------|
+ * | create | `POST {path}` — `{ filename, size, content_type, chunk_size, ...metadata }` | `{ upload_id }` |
+ * | status | `GET {path}/{upload_id}`                  | `{ received: number[] }` (404 → start over) |
+ * | chunk  | `PUT {path}/{upload_id}/chunks/{index}` — raw bytes, `Content-Range` | — |
+ * | commit | `POST {path}/{upload_id}/commit`          | the uploaded resource    |
+ */
+export class StoneScriptPhpUploadProtocol<T> implements ChunkedUploadProtocol<T> {
+
+    constructor(
+        private api: ApiConnectionService,
+        private path: string,
+        private options: UploadStepOptions = {}
+    ) {}
+
+    async create(file: UploadFileInfo): Promise<string> {
+        const data = unwrap<{ upload_id: string | number }>(await this.api.post<{ upload_id: string | number }>(this.path, {
+            ...file.metadata,
+            filename: file.name,
+            size: file.size,
+            content_type: file.type,
+            chunk_size: file.chunkSize
+        }, stepOptions(this.options)));
+        return String(data.upload_id);
+    }
+
+    async status(id: string): Promise<number[] | null> {
+        const response = await this.api.get<{ received?: number[] }>(`${this.path}/${encodeURIComponent(id)}`, undefined,
+            stepOptions(this.options));
+        if (isGone(response)) return null;
+        return unwrap<{ received?: number[] }>(response)?.received ?? [];
+    }
+
+    async uploadChunk(id: string, chunk: ChunkRange, data: Blob, file: UploadFileInfo, onProgress: (loaded: number) => void, signal?: AbortSignal): Promise<void> {
+        const range = `bytes ${chunk.start}-${Math.max(chunk.start, chunk.end - 1)}/${file.size}`;
+        unwrap(await this.api.requestRaw('PUT', `${this.path}/${encodeURIComponent(id)}/chunks/${chunk.index}`, data, async () => undefined, {
+            ...stepOptions(this.options, { 'Content-Type': 'application/octet-stream', 'Content-Range': range }),
+            signal: signal ?? this.options.signal,
+            onUploadProgress: progress => onProgress(progress.loaded)
+        }));
+    }
+
+    async commit(id: string): Promise<T> {
+        return unwrap(await this.api.post<T>(`${this.path}/${encodeURIComponent(id)}/commit`, {}, stepOptions(this.options)));
+    }
+}
+
+/**
+ * tus 1.0 core protocol (https://tus.io/protocols/resumable-upload). Chunks are
+ * sent in order with `PATCH` at the server's offset. tus has no commit step:
+ * with `commitPath`, the finished upload URL is POSTed there as
+ * `{ upload_url, filename, size }` and its envelope `data` is the result;
+ * without it the result is `{ upload_url }`.
+ *
+ * Cross-origin servers must expose `Location`, `Upload-Offset` and
+ * `Tus-Resumable` (`Access-Control-Expose-Headers`).
+ */
+export class TusUploadProtocol<T> implements ChunkedUploadProtocol<T> {
+
+    readonly maxConcurrency = 1;
+
+    /** Server offset per upload, from the last status / chunk response. */
+    private offsets = new Map<string, number>();
+
+    constructor(
+        private api: ApiConnectionService,
+        private path: string,
+        private options: UploadStepOptions & { commitPath?: string } = {}
+    ) {}
+
+    async create(file: UploadFileInfo): Promise<string> {
+        const metadata = Object.entries({ ...file.metadata, filename: file.name, filetype: file.type })
+            .filter(([, value]) => value !== '')
+            .map(([key, value]) => `${key} ${base64(value)}`)
+            .join(',');
+        const location = unwrap<string | null>(await this.api.requestRaw('POST', this.path, null, async response => {
+            const header = response.headers.get('Location');
+            return header && response.url ? new URL(header, response.url).href : header;
+        }, stepOptions(this.options, {
+            'Tus-Resumable': TUS_VERSION,
+            'Upload-Length': String(file.size),
+            ...(metadata ? { 'Upload-Metadata': metadata } : {})
+        })));
+        if (!location) throw new ApiResponse('error', null, 'The upload server did not return a Location header');
+        this.offsets.set(location, 0);
+        return location;
+    }
+
+    async status(id: string, chunks: ChunkRange[]): Promise<number[] | null> {
+        const response = await this.api.requestRaw('HEAD', id, null, async r => Number(r.headers.get('Upload-Offset')),
+            stepOptions(this.options, { 'Tus-Resumable': TUS_VERSION }));
+        if (isGone(response)) return null;
+        const offset = unwrap<number>(response);
+        if (!Number.isFinite(offset)) return null;
+        this.offsets.set(id, offset);
+        return chunks.filter(chunk => chunk.end <= offset).map(chunk => chunk.index);
+    }
+
+    async uploadChunk(id: string, chunk: ChunkRange, data: Blob, _file: UploadFileInfo, onProgress: (loaded: number) => void, signal?: AbortSignal): Promise<void> {
+        // The server may hold part of this chunk from an interrupted PATCH.
+        const offset = Math.max(chunk.start, Math.min(this.offsets.get(id) ?? chunk.start, chunk.end));
+        const skipped = offset - chunk.start;
+        const next = unwrap<number>(await this.api.requestRaw('PATCH', id, data.slice(skipped), async r => Number(r.headers.get('Upload-Offset')), {
+            ...stepOptions(this.options, {
+                'Tus-Resumable': TUS_VERSION,
+                'Upload-Offset': String(offset),
+                'Content-Type': 'application/offset+octet-stream'
+            }),
+            signal: signal ?? this.options.signal,
+            onUploadProgress: progress => onProgress(skipped + progress.loaded)
+        }));
+        this.offsets.set(id, Number.isFinite(next) ? next : chunk.end);
+    }
+
+    async commit(id: string, file: UploadFileInfo): Promise<T> {
+        this.offsets.delete(id);
+        if (!this.options.commitPath) return { upload_url: id } as T;
+        return unwrap(await this.api.post<T>(this.options.commitPath, { upload_url: id, filename: file.name, size: file.size },
+            stepOptions(this.options)));
+    }
+}
+
+/** The server no longer knows the upload. */
+function isGone(response: ApiResponse<unknown>): boolean {
+    const status = response.status === 'error' ? (response.data as any)?.httpStatus : null;
+    return status === 404 || status === 410 || status === 403;
+}
+
+function base64(value: string): string {
+    const bytes = new TextEncoder().encode(value);
+    let binary = '';
+    bytes.forEach(byte => binary += String.fromCharCode(byte));
+    return btoa(binary);
+}
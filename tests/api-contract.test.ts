@@ -0,0 +1,159 @@
+/**
+ * Unit tests for typed endpoint contracts and the contract generator (SPEC §5.5).
+ *
+ * Exercises `src/api-contract.ts` and `tools/generate-api-contracts.ts`
+ * directly. The `@ts-expect-error` lines are compile-time assertions — the test
+ * build fails if the contract types stop rejecting them.
+ *
+ * Run: npx tsc -p tests/tsconfig.test.json && node tests/out/tests/api-contract.test.js
+ */
+import assert from 'node:assert';
+import {
+    EndpointArgs,
+    EndpointResponse,
+    PathParamNames,
+    defineEndpoint,
+    resolvePath,
+    typed
+} from '../src/api-contract';
+import { RouteManifest, contractName, generateContracts } from '../tools/generate-api-contracts';
+
+let passed = 0;
+let failed = 0;
+const tests: Array<[string, () => void | Promise<void>]> = [];
+const test = (name: string, fn: () => void | Promise<void>) => tests.push([name, fn]);
+
+// ── Contract types (compile-time) ────────────────────────────────────────────
+
+interface Project { id: number; name: string }
+
+const updateProject = defineEndpoint({
+    method: 'PUT',
+    path: '/projects/{id}',
+    body: typed<{ name: string }>(),
+    response: typed<Project>()
+});
+const listProjects = defineEndpoint({
+    method: 'GET',
+    path: '/projects',
+    query: typed<{ status?: 'active' | 'archived' }>(),
+    response: typed<Project[]>()
+});
+
+type UpdateArgs = EndpointArgs<typeof updateProject>;
+type ListArgs = EndpointArgs<typeof listProjects>;
+
+const names: PathParamNames<'/a/{x}/b/{y}'>[] = ['x', 'y'];
+const okUpdate: UpdateArgs = { params: { id: 7 }, body: { name: 'n' } };
+// @ts-expect-error params are required when the path has {param} segments
+const noParams: UpdateArgs = { body: { name: 'n' } };
+// @ts-expect-error body is required when the endpoint declares one
+const noBody: UpdateArgs = { params: { id: 7 } };
+const okList: ListArgs = { query: { status: 'active' } };
+// @ts-expect-error query values are typed
+const badQuery: ListArgs = { query: { status: 'deleted' } };
+const response: EndpointResponse<typeof listProjects> = [{ id: 1, name: 'p' }];
+void [names, okUpdate, noParams, noBody, okList, badQuery, response];
+
+// ── resolvePath ──────────────────────────────────────────────────────────────
+
+test('resolvePath fills and encodes {param} segments', () => {
+    assert.strictEqual(resolvePath('/projects/{id}/files/{name}', { id: 42, name: 'a b.txt' }), '/projects/42/files/a%20b.txt');
+    assert.strictEqual(resolvePath('/projects'), '/projects');
+});
+
+test('resolvePath throws on a missing param', () => {
+    assert.throws(() => resolvePath('/projects/{id}', {}), /Missing path param "id"/);
+});
+
+test('defineEndpoint keeps method and path at runtime', () => {
+    assert.deepStrictEqual({ ...updateProject }, { method: 'PUT', path: '/projects/{id}', body: undefined, response: undefined });
+});
+
+// ── Generator ────────────────────────────────────────────────────────────────
+
+const manifest: RouteManifest = {
+    definitions: {
+        Project: {
+            type: 'object',
+            properties: {
+                id: { type: 'integer' },
+                name: { type: 'string' },
+                status: { enum: ['active', 'archived'] },
+                tags: { type: 'array', items: { type: 'string' } },
+                archived_at: { type: ['string', 'null'] }
+            },
+            required: ['id', 'name', 'status']
+        }
+    },
+    routes: {
+        GET: {
+            '/projects': { handler: 'ListProjectsRoute', response: { type: 'array', items: { $ref: '#/definitions/Project' } } },
+            '/projects/{id}': { handler: 'App\\Routes\\GetProjectRoute', response: { $ref: '#/definitions/Project' } }
+        },
+        POST: {
+            '/projects/create': {
+                handler: 'CreateProjectRoute',
+                body: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+                response: { $ref: '#/definitions/Project' }
+            }
+        }
+    }
+};
+
+test('contractName derives from the handler, else from method + path', () => {
+    assert.strictEqual(contractName('GET', '/projects/{id}', 'GetProjectRoute'), 'getProject');
+    assert.strictEqual(contractName('GET', '/projects/{id}', 'App\\Routes\\GetProjectRoute'), 'getProject');
+    assert.strictEqual(contractName('DELETE', '/projects/{id}/member-roles'), 'deleteProjectsMemberRoles');
+});
+
+test('generates interfaces from definitions', () => {
+    const source = generateContracts(manifest);
+    assert.ok(source.includes([
+        'export interface Project {',
+        '    id: number;',
+        '    name: string;',
+        "    status: 'active' | 'archived';",
+        '    tags?: string[];',
+        '    archived_at?: string | null;',
+        '}'
+    ].join('\n')), source);
+});
+
+test('generates one defineEndpoint per route', () => {
+    const source = generateContracts(manifest, { exportName: 'contracts' });
+    assert.ok(source.includes("import { defineEndpoint, typed } from '@progalaxyelabs/ngx-stonescriptphp-client';"));
+    assert.ok(source.includes('export const contracts = {'));
+    assert.ok(source.includes([
+        '    getProject: defineEndpoint({',
+        "        method: 'GET',",
+        "        path: '/projects/{id}',",
+        '        response: typed<Project>()',
+        '    }),'
+    ].join('\n')), source);
+    assert.ok(source.includes('response: typed<Project[]>()'));
+    assert.ok(source.includes('        body: typed<{\n            name: string;\n        }>(),'), source);
+    assert.ok(source.trimEnd().endsWith('    })\n};'), source);
+});
+
+test('rejects unknown $refs and duplicate names', () => {
+    assert.throws(() => generateContracts({ routes: { GET: { '/a': { response: { $ref: '#/definitions/Nope' } } } } }), /Unknown \$ref/);
+    assert.throws(() => generateContracts({
+        routes: { GET: { '/a': { name: 'same' } }, POST: { '/b': { name: 'same' } } }
+    }), /Duplicate contract name "same"/);
+});
+
+(async () => {
+    for (const [name, fn] of tests) {
+        try {
+            await fn();
+            passed++;
+            console.log(`  ✓ ${name}`);
+        } catch (err) {
+            failed++;
+            console.error(`  ✗ ${name}\n      ${(err as Error).message}`);
+        }
+    }
+    console.log(`\n${passed} passed, ${failed} failed, ${tests.length} total`);
+    process.exit(failed === 0 ? 0 : 1);
+})();
@@ -0,0 +1,132 @@
+/**
+ * Unit tests for request batching (SPEC §5.11).
+ *
+ * Exercises `src/batch.ts` directly — coalescing within one window, splitting
+ * by `maxSize`, matching batch response items back to their calls, and the
+ * fallbacks to individual requests.
+ *
+ * Run: npx tsc -p tests/tsconfig.test.json && node tests/out/tests/batch.test.js
+ */
+import assert from 'node:assert';
+import { RequestBatcher, batchScheduler, canJoinBatch, resolveBatchResponse, splitBatchResponse } from '../src/batch';
+
+let passed = 0;
+let failed = 0;
+const tests: Array<[string, () => void | Promise<void>]> = [];
+const test = (name: string, fn: () => void | Promise<void>) => tests.push([name, fn]);
+
+test('calls made in the same microtask are dispatched together', async () => {
+    const dispatched: string[][] = [];
+    const batcher = new RequestBatcher<string, string>(batchScheduler('microtask'), 10, async items => {
+        dispatched.push(items);
+        return items.map(item => item.toUpperCase());
+    });
+
+    const results = await Promise.all([batcher.add('a'), batcher.add('b'), batcher.add('c')]);
+    assert.deepStrictEqual(results, ['A', 'B', 'C']);
+    assert.deepStrictEqual(dispatched, [['a', 'b', 'c']]);
+
+    await batcher.add('d');
+    assert.deepStrictEqual(dispatched, [['a', 'b', 'c'], ['d']]);
+});
+
+test('groups larger than maxSize are split', async () => {
+    const dispatched: number[][] = [];
+    const batcher = new RequestBatcher<number, number>(batchScheduler('microtask'), 2, async items => {
+        dispatched.push(items);
+        return items.map(n => n * 10);
+    });
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map(n => batcher.add(n)));
+    assert.deepStrictEqual(results, [10, 20, 30, 40, 50]);
+    assert.deepStrictEqual(dispatched, [[1, 2], [3, 4], [5]]);
+});
+
+test('a failed dispatch rejects only its own group', async () => {
+    const batcher = new RequestBatcher<number, number>(batchScheduler('microtask'), 2, async items => {
+        if (items.includes(1)) throw new Error('down');
+        return items;
+    });
+
+    const results = await Promise.allSettled([1, 2, 3].map(n => batcher.add(n)));
+    assert.deepStrictEqual(results.map(r => r.status), ['rejected', 'rejected', 'fulfilled']);
+});
+
+test('the frame window falls back to a timer without requestAnimationFrame', async () => {
+    const dispatched: string[][] = [];
+    const batcher = new RequestBatcher<string, string>(batchScheduler('frame'), 10, async items => {
+        dispatched.push(items);
+        return items;
+    });
+
+    const first = batcher.add('a');
+    await Promise.resolve();
+    const second = batcher.add('b');
+    await Promise.all([first, second]);
+    assert.deepStrictEqual(dispatched, [['a', 'b']]);
+});
+
+test('splitBatchResponse matches items by id and marks missing ones', () => {
+    const items = splitBatchResponse(['0', '1', '2'], {
+        responses: [
+            { id: '2', status: 404, body: { status: 'error', message: 'Not found' } },
+            { id: 0, status: 200, body: { status: 'ok', data: [1] } },
+            { id: '1' }
+        ]
+    });
+    assert.deepStrictEqual(items, [
+        { id: 0, status: 200, body: { status: 'ok', data: [1] } },
+        null,
+        { id: '2', status: 404, body: { status: 'error', message: 'Not found' } }
+    ]);
+    assert.deepStrictEqual(splitBatchResponse(['0'], null), [null]);
+});
+
+test('resolveBatchResponse: a missing endpoint turns batching off, other failures fail every call', () => {
+    const notFound = { status: 'error', data: { kind: 'http', httpStatus: 404 } };
+    const serverError = { status: 'error', data: { kind: 'http', httpStatus: 500 } };
+    const offline = { status: 'error', data: { kind: 'network', httpStatus: null } };
+    assert.deepStrictEqual(resolveBatchResponse(['0', '1'], notFound), { type: 'unsupported' });
+    assert.deepStrictEqual(resolveBatchResponse(['0', '1'], serverError), { type: 'failed' });
+    assert.deepStrictEqual(resolveBatchResponse(['0', '1'], offline), { type: 'failed' });
+});
+
+test('resolveBatchResponse: left-out and 401 items are sent on their own', () => {
+    const ok = { id: '0', status: 200, body: { status: 'ok', data: [1] } };
+    const resolution = resolveBatchResponse(['0', '1', '2'], {
+        status: 'ok',
+        data: { responses: [ok, { id: '2', status: 401, body: { status: 'error' } }] }
+    });
+    assert.deepStrictEqual(resolution, { type: 'split', items: [ok, null, null] });
+});
+
+test('canJoinBatch: only plain JSON GETs without per-call transport settings', () => {
+    assert.strictEqual(canJoinBatch({}), true);
+    assert.strictEqual(canJoinBatch({ silent: true, batch: true }), true);
+    for (const options of [
+        { signal: new AbortController().signal },
+        { timeoutMs: 1000 },
+        { headers: { 'X-Trace': '1' } },
+        { credentials: 'include' as const },
+        { skipAuth: true },
+        { retry: false as const },
+        { responseType: 'blob' as const }
+    ]) {
+        assert.strictEqual(canJoinBatch(options), false, Object.keys(options)[0]);
+    }
+});
+
+(async () => {
+    for (const [name, fn] of tests) {
+        try {
+            await fn();
+            passed++;
+            console.log(`  ✓ ${name}`);
+        } catch (err) {
+            failed++;
+            console.error(`  ✗ ${name}\n      ${(err as Error).message}`);
+        }
+    }
+    console.log(`\n${passed} passed, ${failed} failed, ${tests.length} total`);
+    process.exit(failed === 0 ? 0 : 1);
+})();
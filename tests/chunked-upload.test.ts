@@ -0,0 +1,187 @@
+/**
+ * Unit tests for resumable chunked uploads (SPEC §5.4.1).
+ *
+ * Exercises `src/chunked-upload.ts` directly with an in-memory protocol —
+ * chunk planning, bounded concurrency, resume from a saved session and
+ * commit.
+ *
+ * Run: npx tsc -p tests/tsconfig.test.json && node tests/out/tests/chunked-upload.test.js
+ */
+import assert from 'node:assert';
+import {
+    ChunkRange,
+    ChunkedUploadProtocol,
+    MemoryUploadSessionStore,
+    UploadFileInfo,
+    planChunks,
+    runChunkedUpload,
+    runWithConcurrency,
+    uploadFingerprint
+} from '../src/chunked-upload';
+
+let passed = 0;
+let failed = 0;
+const tests: Array<[string, () => void | Promise<void>]> = [];
+const test = (name: string, fn: () => void | Promise<void>) => tests.push([name, fn]);
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/** Server that stores chunks in memory; `failOn` chunk indices reject once. */
+class FakeProtocol implements ChunkedUploadProtocol<string> {
+    uploads = new Map<string, Map<number, string>>();
+    created = 0;
+    sent: number[] = [];
+    inFlight = 0;
+    maxInFlight = 0;
+    failOn = new Set<number>();
+
+    async create(): Promise<string> {
+        const id = `u${++this.created}`;
+        this.uploads.set(id, new Map());
+        return id;
+    }
+
+    async status(id: string): Promise<number[] | null> {
+        const chunks = this.uploads.get(id);
+        return chunks ? [...chunks.keys()] : null;
+    }
+
+    async uploadChunk(id: string, chunk: ChunkRange, data: Blob, _file: UploadFileInfo, onProgress: (loaded: number) => void): Promise<void> {
+        this.inFlight++;
+        this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+        try {
+            await tick();
+            if (this.failOn.delete(chunk.index)) throw new Error(`chunk ${chunk.index} dropped`);
+            onProgress(data.size);
+            this.uploads.get(id)!.set(chunk.index, await data.text());
+            this.sent.push(chunk.index);
+        } finally {
+            this.inFlight--;
+        }
+    }
+
+    async commit(id: string, file: UploadFileInfo): Promise<string> {
+        const chunks = this.uploads.get(id)!;
+        return planChunks(file.size, file.chunkSize).map(chunk => chunks.get(chunk.index)).join('');
+    }
+}
+
+const content = 'abcdefghij'; // 10 bytes → 4 chunks of 3
+const info: UploadFileInfo = { name: 'drawing.dwg', size: content.length, type: 'application/acad', chunkSize: 3, metadata: {} };
+const fingerprint = uploadFingerprint('/uploads', { name: info.name, size: info.size, lastModified: 1 });
+
+test('planChunks splits into fixed-size ranges with a short last chunk', () => {
+    assert.deepStrictEqual(planChunks(10, 3), [
+        { index: 0, start: 0, end: 3 },
+        { index: 1, start: 3, end: 6 },
+        { index: 2, start: 6, end: 9 },
+        { index: 3, start: 9, end: 10 }
+    ]);
+    assert.deepStrictEqual(planChunks(0, 3), [{ index: 0, start: 0, end: 0 }]);
+    assert.throws(() => planChunks(10, 0));
+});
+
+test('uploadFingerprint distinguishes path, name, size and modification time', () => {
+    const base = uploadFingerprint('/a', { name: 'x', size: 1, lastModified: 1 });
+    assert.notStrictEqual(base, uploadFingerprint('/b', { name: 'x', size: 1, lastModified: 1 }));
+    assert.notStrictEqual(base, uploadFingerprint('/a', { name: 'x', size: 1, lastModified: 2 }));
+    assert.strictEqual(base, uploadFingerprint('/a', { name: 'x', size: 1, lastModified: 1 }));
+});
+
+test('runWithConcurrency never exceeds the limit and stops after a failure', async () => {
+    let running = 0;
+    let peak = 0;
+    const started: number[] = [];
+    await assert.rejects(runWithConcurrency([1, 2, 3, 4, 5, 6], 2, async item => {
+        started.push(item);
+        running++;
+        peak = Math.max(peak, running);
+        await tick();
+        running--;
+        if (item === 2) throw new Error('boom');
+    }), /boom/);
+    assert.strictEqual(peak, 2);
+    assert.ok(started.length < 6);
+});
+
+test('runChunkedUpload uploads every chunk, reports full progress and commits', async () => {
+    const protocol = new FakeProtocol();
+    const store = new MemoryUploadSessionStore();
+    const progress: number[] = [];
+    let committing = false;
+
+    const result = await runChunkedUpload({
+        protocol, store, info, fingerprint,
+        file: new Blob([content]),
+        concurrency: 2,
+        onProgress: loaded => progress.push(loaded),
+        onCommit: () => committing = true
+    });
+
+    assert.strictEqual(result, content);
+    assert.strictEqual(protocol.maxInFlight, 2);
+    assert.strictEqual(progress[progress.length - 1], 10);
+    assert.ok(committing);
+    assert.strictEqual(store.get(fingerprint), null, 'session removed after commit');
+});
+
+test('a failed upload keeps its session and resumes without re-sending stored chunks', async () => {
+    const protocol = new FakeProtocol();
+    const store = new MemoryUploadSessionStore();
+    protocol.failOn.add(2);
+    const run = () => runChunkedUpload({ protocol, store, info, fingerprint, file: new Blob([content]), concurrency: 1 });
+
+    await assert.rejects(run(), /chunk 2 dropped/);
+    assert.deepStrictEqual(store.get(fingerprint)?.completed, [0, 1]);
+
+    protocol.sent = [];
+    const progress: number[] = [];
+    const result = await runChunkedUpload({
+        protocol, store, info, fingerprint,
+        file: new Blob([content]),
+        concurrency: 1,
+        onProgress: loaded => progress.push(loaded)
+    });
+
+    assert.strictEqual(result, content);
+    assert.strictEqual(protocol.created, 1, 'same server upload reused');
+    assert.deepStrictEqual(protocol.sent, [2, 3]);
+    assert.strictEqual(progress[0], 6, 'resumed progress starts at the stored bytes');
+});
+
+test('starts over when the server no longer knows the saved upload', async () => {
+    const protocol = new FakeProtocol();
+    const store = new MemoryUploadSessionStore();
+    store.set({ fingerprint, id: 'expired', size: info.size, chunkSize: info.chunkSize, completed: [0, 1], updatedAt: 0 });
+
+    const result = await runChunkedUpload({ protocol, store, info, fingerprint, file: new Blob([content]), concurrency: 3 });
+
+    assert.strictEqual(result, content);
+    assert.strictEqual(protocol.created, 1);
+    assert.deepStrictEqual([...protocol.sent].sort(), [0, 1, 2, 3]);
+});
+
+test('honours the protocol concurrency cap', async () => {
+    const protocol = Object.assign(new FakeProtocol(), { maxConcurrency: 1 });
+    const store = new MemoryUploadSessionStore();
+
+    await runChunkedUpload({ protocol, store, info, fingerprint, file: new Blob([content]), concurrency: 4 });
+
+    assert.strictEqual(protocol.maxInFlight, 1);
+    assert.deepStrictEqual(protocol.sent, [0, 1, 2, 3]);
+});
+
+(async () => {
+    for (const [name, fn] of tests) {
+        try {
+            await fn();
+            passed++;
+            console.log(`  ✓ ${name}`);
+        } catch (err) {
+            failed++;
+            console.error(`  ✗ ${name}\n      ${(err as Error).message}`);
+        }
+    }
+    console.log(`\n${passed} passed, ${failed} failed, ${tests.length} total`);
+    process.exit(failed === 0 ? 0 : 1);
+})();
@@ -3,7 +3,8 @@
  *
  * These exercise the framework-free core in `src/guard-logic.ts` — the same
  * functions the Angular CanActivateFn adapters delegate to — so the full §7.1
- * decision matrix (incl. the #2811 platform-token no-re-exchange seam) is pinned
+ * decision matrix (incl. the #2811 platform-token no-re-exchange seam) and the
+ * SPEC §4.4 auth state machine the guards decide on are pinned
  * without needing an Angular test harness.
  *
  * Run: npx tsc -p tests/tsconfig.test.json && node tests/out/guard-logic.test.js
@@ -11,18 +12,27 @@
 import assert from 'node:assert';
 import {
     evaluateAuthGuard,
+    evaluateFeatureGuard,
     evaluateLoginGuard,
+    evaluateRoleGuard,
     evaluateSubscriptionGuard,
+    isGranted,
+    isOnboardingPath,
+    isTenantMatch,
+    matchesRoute,
+    readClaimList,
     isPlatformToken,
     hasTenant
 } from '../src/guard-logic';
+import { AuthState, canTransition, deriveAuthState } from '../src/auth-state';
 import { NgxGuardRoutes } from '../src/guard-config';
 
 const routes: NgxGuardRoutes = {
     login: '/login',
     dashboard: '/dashboard',
     onboarding: '/onboarding',
-    subscriptionError: '/subscription-error'
+    subscriptionError: '/subscription-error',
+    forbidden: '/forbidden'
 };
 
 const platformWithTenant = { token_type: 'platform', tenant_id: 't-123' };
@@ -49,131 +59,220 @@ test('hasTenant: true only for a real tenant_id (not absent/none)', () => {
     assert.strictEqual(hasTenant(null), false);
 });
 
+// ── auth state machine (SPEC §4.4) ────────────────────────────────────────────
+test('deriveAuthState: maps the stored token to a settled state', () => {
+    const future = Math.floor(Date.now() / 1000) + 3600;
+    assert.strictEqual(deriveAuthState({ hasToken: false, payload: null }), 'anonymous');
+    assert.strictEqual(deriveAuthState({ hasToken: true, payload: null }), 'identity-only'); // opaque token
+    assert.strictEqual(deriveAuthState({ hasToken: true, payload: identityToken }), 'identity-only');
+    assert.strictEqual(deriveAuthState({ hasToken: true, payload: identityToken, oauthPending: true }), 'oauth-pending');
+    assert.strictEqual(deriveAuthState({ hasToken: true, payload: platformNoTenant }), 'platform-without-tenant');
+    assert.strictEqual(deriveAuthState({ hasToken: true, payload: { ...platformWithTenant, exp: future } }), 'platform-with-tenant');
+});
+
+test('deriveAuthState: token past exp → expired', () => {
+    const d = deriveAuthState({ hasToken: true, payload: { ...platformWithTenant, exp: 1000 }, now: 1001 * 1000 });
+    assert.strictEqual(d, 'expired');
+});
+
+test('canTransition: sign-in from anywhere, refresh only with a session', () => {
+    assert.strictEqual(canTransition('anonymous', 'identity-only'), true);
+    assert.strictEqual(canTransition('expired', 'platform-with-tenant'), true);
+    assert.strictEqual(canTransition('platform-with-tenant', 'refreshing'), true);
+    assert.strictEqual(canTransition('refreshing', 'anonymous'), true);
+    assert.strictEqual(canTransition('anonymous', 'refreshing'), false);
+    assert.strictEqual(canTransition('oauth-pending', 'oauth-pending'), true); // no-op
+});
+
+test('restoring an expired stored session: anonymous → expired is allowed, then renewal', () => {
+    // AuthService starts anonymous and derives the state from the stored token on load.
+    const restored = deriveAuthState({ hasToken: true, payload: { ...platformWithTenant, exp: 1000 }, now: 1001 * 1000 });
+    assert.strictEqual(restored, 'expired');
+    assert.strictEqual(canTransition('anonymous', restored), true);
+    assert.strictEqual(canTransition(restored, 'refreshing'), true);
+});
+
 // ── authGuard matrix ────────────────────────────────────────────────────────
-test('authGuard: unauthenticated → redirect login, no exchange', async () => {
+test('authGuard: anonymous → redirect login, no exchange', async () => {
     let exchanged = 0;
     const d = await evaluateAuthGuard({
-        isAuthenticated: false, url: '/workspaces', routes,
-        getPayload: () => null,
+        url: '/workspaces', routes,
+        getState: () => 'anonymous',
         exchange: async () => { exchanged++; return { success: true }; }
     });
     assert.deepStrictEqual(d, { allow: false, redirectTo: '/login' });
     assert.strictEqual(exchanged, 0);
 });
 
-test('authGuard: platform token + tenant → allow, NO re-exchange (#2811 seam)', async () => {
+test('authGuard: platform-with-tenant → allow, NO re-exchange (#2811 seam)', async () => {
     let exchanged = 0;
     const d = await evaluateAuthGuard({
-        isAuthenticated: true, url: '/workspaces', routes,
-        getPayload: () => platformWithTenant,
+        url: '/workspaces', routes,
+        getState: () => 'platform-with-tenant',
         exchange: async () => { exchanged++; return { success: true }; }
     });
     assert.deepStrictEqual(d, { allow: true });
     assert.strictEqual(exchanged, 0, 'platform token must NOT be re-exchanged');
 });
 
-test('authGuard: identity token → exchange runs, then allow with tenant', async () => {
+test('authGuard: identity-only → exchange runs, then allow with tenant', async () => {
+    let exchanged = 0;
+    let state: AuthState = 'identity-only';
+    const d = await evaluateAuthGuard({
+        url: '/workspaces', routes,
+        getState: () => state,
+        exchange: async () => { exchanged++; state = 'platform-with-tenant'; return { success: true }; }
+    });
+    assert.deepStrictEqual(d, { allow: true });
+    assert.strictEqual(exchanged, 1);
+});
+
+test('authGuard: oauth-pending → exchange runs like an identity token', async () => {
     let exchanged = 0;
-    let payload: Record<string, any> = identityToken;
+    let state: AuthState = 'oauth-pending';
     const d = await evaluateAuthGuard({
-        isAuthenticated: true, url: '/workspaces', routes,
-        getPayload: () => payload,
-        exchange: async () => { exchanged++; payload = platformWithTenant; return { success: true }; }
+        url: '/onboarding/create-tenant', routes,
+        getState: () => state,
+        exchange: async () => { exchanged++; state = 'platform-without-tenant'; return { success: true }; }
     });
     assert.deepStrictEqual(d, { allow: true });
     assert.strictEqual(exchanged, 1);
 });
 
-test('authGuard: identity token + exchange fails → redirect login', async () => {
+test('authGuard: identity-only + exchange fails → redirect login', async () => {
     const d = await evaluateAuthGuard({
-        isAuthenticated: true, url: '/workspaces', routes,
-        getPayload: () => identityToken,
+        url: '/workspaces', routes,
+        getState: () => 'identity-only',
         exchange: async () => ({ success: false })
     });
     assert.deepStrictEqual(d, { allow: false, redirectTo: '/login' });
 });
 
-test('authGuard: platform token, no tenant, not onboarding → redirect onboarding', async () => {
+test('authGuard: expired → renew, then decide on the renewed state', async () => {
+    let renewed = 0;
+    let state: AuthState = 'expired';
+    const d = await evaluateAuthGuard({
+        url: '/workspaces', routes,
+        getState: () => state,
+        exchange: async () => ({ success: true }),
+        renew: async () => { renewed++; state = 'platform-with-tenant'; return true; }
+    });
+    assert.deepStrictEqual(d, { allow: true });
+    assert.strictEqual(renewed, 1);
+});
+
+test('authGuard: refreshing + renewal fails → redirect login', async () => {
+    const d = await evaluateAuthGuard({
+        url: '/workspaces', routes,
+        getState: () => 'refreshing',
+        exchange: async () => ({ success: true }),
+        renew: async () => false
+    });
+    assert.deepStrictEqual(d, { allow: false, redirectTo: '/login' });
+});
+
+test('authGuard: expired without a renew callback → redirect login', async () => {
+    const d = await evaluateAuthGuard({
+        url: '/workspaces', routes,
+        getState: () => 'expired',
+        exchange: async () => ({ success: true })
+    });
+    assert.deepStrictEqual(d, { allow: false, redirectTo: '/login' });
+});
+
+test('authGuard: platform-without-tenant, not onboarding → redirect onboarding', async () => {
     let exchanged = 0;
     const d = await evaluateAuthGuard({
-        isAuthenticated: true, url: '/workspaces', routes,
-        getPayload: () => platformNoTenant,
+        url: '/workspaces', routes,
+        getState: () => 'platform-without-tenant',
         exchange: async () => { exchanged++; return { success: true }; }
     });
     assert.deepStrictEqual(d, { allow: false, redirectTo: '/onboarding' });
     assert.strictEqual(exchanged, 0);
 });
 
-test('authGuard: platform token, no tenant, ON onboarding path → allow', async () => {
+test('authGuard: platform-without-tenant, ON onboarding path → allow', async () => {
     const d = await evaluateAuthGuard({
-        isAuthenticated: true, url: '/onboarding/step-1', routes,
-        getPayload: () => platformNoTenant,
+        url: '/onboarding/step-1', routes,
+        getState: () => 'platform-without-tenant',
         exchange: async () => ({ success: true })
     });
     assert.deepStrictEqual(d, { allow: true });
 });
 
 // ── authGuard tenant modes (v2.5.0) ─────────────────────────────────────────
-test('authGuard tenant-aware (default): platform token, no tenant → onboarding', async () => {
+test('authGuard tenant-aware (default): platform-without-tenant → onboarding', async () => {
     const d = await evaluateAuthGuard({
-        isAuthenticated: true, url: '/workspaces', routes, // requireTenant omitted → default true
-        getPayload: () => platformNoTenant,
+        url: '/workspaces', routes, // requireTenant omitted → default true
+        getState: () => 'platform-without-tenant',
         exchange: async () => ({ success: true })
     });
     assert.deepStrictEqual(d, { allow: false, redirectTo: '/onboarding' });
 });
 
-test('authGuard tenant-less (requireTenant:false): platform token, no tenant → allow', async () => {
+test('authGuard tenant-less (requireTenant:false): platform-without-tenant → allow', async () => {
     let exchanged = 0;
     const d = await evaluateAuthGuard({
-        isAuthenticated: true, url: '/workspaces', routes, requireTenant: false,
-        getPayload: () => platformNoTenant,
+        url: '/workspaces', routes, requireTenant: false,
+        getState: () => 'platform-without-tenant',
         exchange: async () => { exchanged++; return { success: true }; }
     });
     assert.deepStrictEqual(d, { allow: true });
     assert.strictEqual(exchanged, 0, 'platform token still not re-exchanged in tenant-less mode');
 });
 
-test('authGuard tenant-less: identity token still exchanges, then allows (no tenant gate)', async () => {
+test('authGuard tenant-less: identity-only still exchanges, then allows (no tenant gate)', async () => {
     let exchanged = 0;
-    let payload: Record<string, any> = identityToken;
+    let state: AuthState = 'identity-only';
     const d = await evaluateAuthGuard({
-        isAuthenticated: true, url: '/workspaces', routes, requireTenant: false,
-        getPayload: () => payload,
-        exchange: async () => { exchanged++; payload = { token_type: 'platform' }; return { success: true }; }
+        url: '/workspaces', routes, requireTenant: false,
+        getState: () => state,
+        exchange: async () => { exchanged++; state = 'platform-without-tenant'; return { success: true }; }
     });
     assert.deepStrictEqual(d, { allow: true });
     assert.strictEqual(exchanged, 1, 'exchange-before-API is tenant-independent');
 });
 
 // ── loginGuard matrix ─────────────────────────────────────────────────────────
-test('loginGuard: authenticated + tenant → redirect dashboard', () => {
-    const d = evaluateLoginGuard({ isAuthenticated: true, routes, getPayload: () => platformWithTenant });
+test('loginGuard: platform-with-tenant → redirect dashboard', () => {
+    const d = evaluateLoginGuard({ routes, getState: () => 'platform-with-tenant' });
     assert.deepStrictEqual(d, { allow: false, redirectTo: '/dashboard' });
 });
 
-test('loginGuard: authenticated, no tenant → allow', () => {
-    const d = evaluateLoginGuard({ isAuthenticated: true, routes, getPayload: () => platformNoTenant });
+test('loginGuard: platform-without-tenant → allow', () => {
+    const d = evaluateLoginGuard({ routes, getState: () => 'platform-without-tenant' });
     assert.deepStrictEqual(d, { allow: true });
 });
 
-test('loginGuard: unauthenticated → allow', () => {
-    const d = evaluateLoginGuard({ isAuthenticated: false, routes, getPayload: () => null });
+test('loginGuard: anonymous → allow', () => {
+    const d = evaluateLoginGuard({ routes, getState: () => 'anonymous' });
     assert.deepStrictEqual(d, { allow: true });
 });
 
-test('loginGuard tenant-aware (default): authenticated, no tenant → allow (stay to pick tenant)', () => {
-    const d = evaluateLoginGuard({ isAuthenticated: true, routes, getPayload: () => platformNoTenant });
+test('loginGuard tenant-aware (default): identity-only → allow (stay to finish sign-in)', () => {
+    const d = evaluateLoginGuard({ routes, getState: () => 'identity-only' });
     assert.deepStrictEqual(d, { allow: true });
 });
 
-test('loginGuard tenant-less (requireTenant:false): authenticated, no tenant → redirect dashboard', () => {
+test('loginGuard tenant-less (requireTenant:false): platform-without-tenant → redirect dashboard', () => {
     const d = evaluateLoginGuard({
-        isAuthenticated: true, routes, requireTenant: false, getPayload: () => platformNoTenant
+        routes, requireTenant: false, getState: () => 'platform-without-tenant'
     });
     assert.deepStrictEqual(d, { allow: false, redirectTo: '/dashboard' });
 });
 
+test('loginGuard tenant-less (requireTenant:false): anonymous → allow', () => {
+    const d = evaluateLoginGuard({ routes, requireTenant: false, getState: () => 'anonymous' });
+    assert.deepStrictEqual(d, { allow: true });
+});
+
+test('loginGuard tenant-less (requireTenant:false): expired or refreshing → allow (sign in again)', () => {
+    for (const state of ['expired', 'refreshing'] as const) {
+        const d = evaluateLoginGuard({ routes, requireTenant: false, getState: () => state });
+        assert.deepStrictEqual(d, { allow: true }, state);
+    }
+});
+
 // ── subscriptionGuard matrix ───────────────────────────────────────────────────
 test('subscriptionGuard: onboarding path → allow (no check)', () => {
     const d = evaluateSubscriptionGuard({
@@ -211,6 +310,243 @@ test('subscriptionGuard: network error → allow (fail-open)', () => {
     assert.deepStrictEqual(d, { allow: true });
 });
 
+// ── exempt route matchers (SPEC §7.2) ────────────────────────────────────────────
+test('isOnboardingPath: segment-aware, ignores query string and fragment', () => {
+    assert.strictEqual(isOnboardingPath('/onboarding', routes), true);
+    assert.strictEqual(isOnboardingPath('/onboarding/', routes), true);
+    assert.strictEqual(isOnboardingPath('/onboarding/step-2', routes), true);
+    assert.strictEqual(isOnboardingPath('/onboarding?step=2', routes), true);
+    assert.strictEqual(isOnboardingPath('/onboarding#plans', routes), true);
+    assert.strictEqual(isOnboardingPath('/onboarding-faq', routes), false);
+    assert.strictEqual(isOnboardingPath('/help/onboarding', routes), false);
+});
+
+test('matchesRoute: prefixes, globs and predicates', () => {
+    assert.strictEqual(matchesRoute('/billing/invoices?page=2', '/billing'), true);
+    assert.strictEqual(matchesRoute('/billing-faq', '/billing'), false);
+    assert.strictEqual(matchesRoute('/invites/abc123', '/invites/*'), true);
+    assert.strictEqual(matchesRoute('/invites/abc123/accept', '/invites/*'), false);
+    assert.strictEqual(matchesRoute('/invites/abc123/accept', '/invites/*/accept'), true);
+    assert.strictEqual(matchesRoute('/settings', '/settings/**'), true);
+    assert.strictEqual(matchesRoute('/settings/profile/avatar', '/settings/**'), true);
+    assert.strictEqual(matchesRoute('/settings-old', '/settings/**'), false);
+    assert.strictEqual(matchesRoute('/teams/1/docs/a.b', '/teams/**/a.b'), true);
+    assert.strictEqual(matchesRoute('/teams/1/docs/axb', '/teams/**/a.b'), false); // '.' is literal
+    const seen: string[] = [];
+    assert.strictEqual(matchesRoute('/p/42?x=1', (path, url) => { seen.push(path, url); return path === '/p/42'; }), true);
+    assert.deepStrictEqual(seen, ['/p/42', '/p/42?x=1']);
+});
+
+test('authGuard: tenant-exempt routes skip the onboarding bounce, still need auth', async () => {
+    const tenantExempt = ['/profile', '/invites/*', (path: string) => path === '/help'];
+    for (const url of ['/profile/security', '/invites/xyz', '/help']) {
+        const d = await evaluateAuthGuard({
+            url, routes, tenantExempt,
+            getState: () => 'platform-without-tenant',
+            exchange: async () => ({ success: true })
+        });
+        assert.deepStrictEqual(d, { allow: true }, url);
+    }
+    const notExempt = await evaluateAuthGuard({
+        url: '/profile-old', routes, tenantExempt,
+        getState: () => 'platform-without-tenant',
+        exchange: async () => ({ success: true })
+    });
+    assert.deepStrictEqual(notExempt, { allow: false, redirectTo: '/onboarding' });
+    const anonymous = await evaluateAuthGuard({
+        url: '/profile', routes, tenantExempt,
+        getState: () => 'anonymous',
+        exchange: async () => ({ success: true })
+    });
+    assert.deepStrictEqual(anonymous, { allow: false, redirectTo: '/login' });
+});
+
+test('authGuard: /onboarding-faq is not onboarding → redirect onboarding', async () => {
+    const d = await evaluateAuthGuard({
+        url: '/onboarding-faq', routes,
+        getState: () => 'platform-without-tenant',
+        exchange: async () => ({ success: true })
+    });
+    assert.deepStrictEqual(d, { allow: false, redirectTo: '/onboarding' });
+});
+
+test('subscriptionGuard / featureGuard: exempt routes skip the 4xx redirect', () => {
+    const probe = { ok: false, httpStatus: 402, isNetworkError: false };
+    const exempt = ['/billing/**'];
+    assert.deepStrictEqual(evaluateSubscriptionGuard({ url: '/billing/plans', routes, probe, exempt }), { allow: true });
+    assert.deepStrictEqual(
+        evaluateSubscriptionGuard({ url: '/reports', routes, probe, exempt }),
+        { allow: false, redirectTo: '/subscription-error' }
+    );
+    assert.deepStrictEqual(
+        evaluateFeatureGuard({ url: '/billing', routes, probe, exempt, features: [], requirement: { features: ['x'] } }),
+        { allow: true }
+    );
+});
+
+// ── featureGuard matrix (SPEC §7.6) ─────────────────────────────────────────────
+const okProbe = { ok: true, httpStatus: 200, isNetworkError: false };
+
+test('featureGuard: all-of features (default) → allow when granted, subscriptionError when not', () => {
+    const requirement = { features: ['reports', 'sso'] };
+    assert.deepStrictEqual(
+        evaluateFeatureGuard({ url: '/reports', routes, probe: okProbe, features: ['reports', 'sso', 'api'], requirement }),
+        { allow: true }
+    );
+    assert.deepStrictEqual(
+        evaluateFeatureGuard({ url: '/reports', routes, probe: okProbe, features: ['reports'], requirement }),
+        { allow: false, redirectTo: '/subscription-error' }
+    );
+    assert.deepStrictEqual(
+        evaluateFeatureGuard({ url: '/reports', routes, probe: okProbe, features: ['reports'], requirement: { ...requirement, featureMatch: 'any' } }),
+        { allow: true }
+    );
+});
+
+test('featureGuard: 4xx → subscriptionError; 5xx → allow (fail-open); onboarding → allow', () => {
+    const requirement = { features: ['reports'] };
+    assert.deepStrictEqual(
+        evaluateFeatureGuard({ url: '/reports', routes, probe: { ok: false, httpStatus: 402, isNetworkError: false }, features: [], requirement }),
+        { allow: false, redirectTo: '/subscription-error' }
+    );
+    assert.deepStrictEqual(
+        evaluateFeatureGuard({ url: '/reports', routes, probe: { ok: false, httpStatus: 503, isNetworkError: false }, features: [], requirement }),
+        { allow: true }
+    );
+    assert.deepStrictEqual(
+        evaluateFeatureGuard({ url: '/onboarding/plan', routes, probe: okProbe, features: [], requirement }),
+        { allow: true }
+    );
+});
+
+// ── return URLs (SPEC §7.5) ─────────────────────────────────────────────────────
+test('authGuard: login and onboarding redirects carry the denied URL', async () => {
+    const anonymous = await evaluateAuthGuard({
+        url: '/orders/5?tab=items',
+        routes,
+        returnUrlParam: 'returnUrl',
+        getState: () => 'anonymous',
+        exchange: async () => ({ success: true })
+    });
+    assert.deepStrictEqual(anonymous, { allow: false, redirectTo: '/login?returnUrl=%2Forders%2F5%3Ftab%3Ditems' });
+
+    const noTenant = await evaluateAuthGuard({
+        url: '/orders',
+        routes,
+        returnUrlParam: 'returnUrl',
+        getState: () => 'platform-without-tenant',
+        exchange: async () => ({ success: true })
+    });
+    assert.deepStrictEqual(noTenant, { allow: false, redirectTo: '/onboarding?returnUrl=%2Forders' });
+});
+
+test('loginGuard: a safe returnUrl replaces the dashboard; an external one is ignored', () => {
+    const getState = (): AuthState => 'platform-with-tenant';
+    assert.deepStrictEqual(evaluateLoginGuard({ routes, getState, returnUrl: '/orders/5' }), { allow: false, redirectTo: '/orders/5' });
+    assert.deepStrictEqual(
+        evaluateLoginGuard({ routes, getState, returnUrl: 'https://evil.example' }),
+        { allow: false, redirectTo: '/dashboard' }
+    );
+    assert.deepStrictEqual(evaluateLoginGuard({ routes, getState, returnUrl: '/login' }), { allow: false, redirectTo: '/dashboard' });
+});
+
+// ── roleGuard / permissionGuard matrix ──────────────────────────────────────────
+const roleCtx = (requirement: Parameters<typeof evaluateRoleGuard>[0]['requirement'], claims: Record<string, any> | null) => ({
+    url: '/admin',
+    routes,
+    getState: (): AuthState => 'platform-with-tenant',
+    exchange: async () => ({ success: true }),
+    requirement,
+    getClaims: () => claims,
+    roleClaim: 'role',
+    permissionsClaim: 'permissions'
+});
+
+test('readClaimList: arrays, separated strings, dot paths; anything else is empty', () => {
+    assert.deepStrictEqual(readClaimList({ role: 'admin' }, 'role'), ['admin']);
+    assert.deepStrictEqual(readClaimList({ scope: 'orders.read orders.write' }, 'scope'), ['orders.read', 'orders.write']);
+    assert.deepStrictEqual(readClaimList({ role: 'admin, owner' }, 'role'), ['admin', 'owner']);
+    assert.deepStrictEqual(readClaimList({ realm_access: { roles: ['a', 'b'] } }, 'realm_access.roles'), ['a', 'b']);
+    assert.deepStrictEqual(readClaimList({ role: 5 }, 'role'), []);
+    assert.deepStrictEqual(readClaimList(null, 'role'), []);
+});
+
+test('directives: isGranted needs something granted; one value or a list; any / all', () => {
+    assert.strictEqual(isGranted(['admin'], 'admin', 'any'), true);
+    assert.strictEqual(isGranted(['admin'], ['owner', 'admin'], 'any'), true);
+    assert.strictEqual(isGranted(['admin'], ['owner', 'admin'], 'all'), false);
+    assert.strictEqual(isGranted(['a.read', 'a.write'], ['a.read', 'a.write'], 'all'), true);
+    assert.strictEqual(isGranted([], 'admin', 'any'), false);
+    assert.strictEqual(isGranted([], [], 'all'), false, 'nothing granted hides the content');
+    assert.strictEqual(isGranted(['admin'], null, 'any'), true, 'no requirement: any role will do');
+});
+
+test('directives: isTenantMatch — any tenant when bare, else one of the given ids', () => {
+    assert.strictEqual(isTenantMatch('t-1', undefined), true);
+    assert.strictEqual(isTenantMatch('t-1', ''), true);
+    assert.strictEqual(isTenantMatch('t-1', 't-1'), true);
+    assert.strictEqual(isTenantMatch('t-1', ['t-2', 't-1']), true);
+    assert.strictEqual(isTenantMatch('t-1', ['t-2']), false);
+    assert.strictEqual(isTenantMatch(null, undefined), false);
+    assert.strictEqual(isTenantMatch(null, ['t-1']), false);
+});
+
+test('roleGuard: anonymous → redirect login, claims never read', async () => {
+    let read = false;
+    const d = await evaluateRoleGuard({
+        ...roleCtx({ roles: ['admin'] }, null),
+        getState: () => 'anonymous',
+        getClaims: () => { read = true; return null; }
+    });
+    assert.deepStrictEqual(d, { allow: false, redirectTo: '/login' });
+    assert.strictEqual(read, false);
+});
+
+test('roleGuard: any-of roles (default) → allow on one match, forbidden on none', async () => {
+    assert.deepStrictEqual(await evaluateRoleGuard(roleCtx({ roles: ['admin', 'owner'] }, { role: 'owner' })), { allow: true });
+    assert.deepStrictEqual(
+        await evaluateRoleGuard(roleCtx({ roles: ['admin', 'owner'] }, { role: 'staff' })),
+        { allow: false, redirectTo: '/forbidden' }
+    );
+});
+
+test('roleGuard: roleMatch all → every role needed', async () => {
+    const requirement = { roles: ['admin', 'billing'], roleMatch: 'all' as const };
+    assert.deepStrictEqual(await evaluateRoleGuard(roleCtx(requirement, { role: ['admin', 'billing'] })), { allow: true });
+    assert.deepStrictEqual(
+        await evaluateRoleGuard(roleCtx(requirement, { role: 'admin' })),
+        { allow: false, redirectTo: '/forbidden' }
+    );
+});
+
+test('permissionGuard: all-of permissions (default), any-of on request', async () => {
+    const claims = { permissions: ['orders.read'] };
+    assert.deepStrictEqual(
+        await evaluateRoleGuard(roleCtx({ permissions: ['orders.read', 'orders.write'] }, claims)),
+        { allow: false, redirectTo: '/forbidden' }
+    );
+    assert.deepStrictEqual(
+        await evaluateRoleGuard(roleCtx({ permissions: ['orders.read', 'orders.write'], permissionMatch: 'any' }, claims)),
+        { allow: true }
+    );
+});
+
+test('roleGuard: no requirement in route data → behaves like authGuard', async () => {
+    assert.deepStrictEqual(await evaluateRoleGuard(roleCtx({}, null)), { allow: true });
+});
+
+test('roleGuard: identity-only → exchange first, roles read from the platform token', async () => {
+    let state: AuthState = 'identity-only';
+    let claims: Record<string, any> = { role: 'user' };
+    const d = await evaluateRoleGuard({
+        ...roleCtx({ roles: ['admin'] }, null),
+        getState: () => state,
+        exchange: async () => { state = 'platform-with-tenant'; claims = { role: 'admin' }; return { success: true }; },
+        getClaims: () => claims
+    });
+    assert.deepStrictEqual(d, { allow: true });
+});
+
 (async () => {
     for (const [name, fn] of tests) {
         try {
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for the optimistic-update rules of `createApiMutation` (SPEC §5.7).
+ *
+ * Exercises `src/mutation.ts` directly — outcome classification and when the
+ * cache patches are kept or rolled back, using a plain object as the cache.
+ *
+ * Run: npx tsc -p tests/tsconfig.test.json && node tests/out/tests/mutation.test.js
+ */
+import assert from 'node:assert';
+import { MutationResult, classifyMutationResult, withOptimisticPatches } from '../src/mutation';
+
+let passed = 0;
+let failed = 0;
+const tests: Array<[string, () => void | Promise<void>]> = [];
+const test = (name: string, fn: () => void | Promise<void>) => tests.push([name, fn]);
+
+const ok: MutationResult = { status: 'ok', data: { id: 1 } };
+const httpError: MutationResult = { status: 'error', data: { kind: 'http', httpStatus: 500 } };
+const queued: MutationResult = { status: 'error', data: { kind: 'network', isNetworkError: true, queued: 4 } };
+const offline: MutationResult = { status: 'error', data: { kind: 'network', isNetworkError: true } };
+const cancelled: MutationResult = { status: 'error', data: { kind: 'cancelled' } };
+
+/** A cached list and two overlapping patches that append to it. */
+function cacheWithPatches() {
+    const cache = { projects: ['a'] };
+    const append = (name: string) => () => {
+        const previous = cache.projects;
+        cache.projects = [...previous, name];
+        return () => { cache.projects = previous; };
+    };
+    return { cache, patches: [append('b'), append('c')] };
+}
+
+test('classifyMutationResult: success, queued, cancelled and failed', () => {
+    assert.strictEqual(classifyMutationResult(ok), 'success');
+    assert.strictEqual(classifyMutationResult(queued), 'queued');
+    assert.strictEqual(classifyMutationResult(cancelled), 'cancelled');
+    assert.strictEqual(classifyMutationResult(httpError), 'failed');
+    assert.strictEqual(classifyMutationResult(offline), 'failed');
+    assert.strictEqual(classifyMutationResult({ status: 'error', data: null }), 'failed');
+});
+
+test('a successful call keeps the patches', async () => {
+    const { cache, patches } = cacheWithPatches();
+    const { result, outcome } = await withOptimisticPatches(patches, async () => {
+        assert.deepStrictEqual(cache.projects, ['a', 'b', 'c'], 'patched before sending');
+        return ok;
+    });
+    assert.strictEqual(result, ok);
+    assert.strictEqual(outcome, 'success');
+    assert.deepStrictEqual(cache.projects, ['a', 'b', 'c']);
+});
+
+test('a call queued by the outbox keeps the patches', async () => {
+    const { cache, patches } = cacheWithPatches();
+    const { outcome } = await withOptimisticPatches(patches, async () => queued);
+    assert.strictEqual(outcome, 'queued');
+    assert.deepStrictEqual(cache.projects, ['a', 'b', 'c']);
+});
+
+test('failed and cancelled calls restore the original data', async () => {
+    for (const response of [httpError, offline, cancelled]) {
+        const { cache, patches } = cacheWithPatches();
+        await withOptimisticPatches(patches, async () => response);
+        assert.deepStrictEqual(cache.projects, ['a']);
+    }
+});
+
+test('a send that throws restores the original data and rethrows', async () => {
+    const { cache, patches } = cacheWithPatches();
+    await assert.rejects(
+        withOptimisticPatches(patches, async () => { throw new Error('interceptor failed'); }),
+        /interceptor failed/
+    );
+    assert.deepStrictEqual(cache.projects, ['a']);
+});
+
+(async () => {
+    for (const [name, fn] of tests) {
+        try {
+            await fn();
+            passed++;
+            console.log(`  ✓ ${name}`);
+        } catch (err) {
+            failed++;
+            console.error(`  ✗ ${name}\n      ${(err as Error).message}`);
+        }
+    }
+    console.log(`\n${passed} passed, ${failed} failed, ${tests.length} total`);
+    process.exit(failed === 0 ? 0 : 1);
+})();
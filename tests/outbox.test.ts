@@ -0,0 +1,103 @@
+/**
+ * Unit tests for the offline outbox store and replay rules (SPEC §5.8).
+ *
+ * Exercises `src/outbox.ts` directly with the in-memory store — ordering,
+ * outcome classification and stop-on-retry.
+ *
+ * Run: npx tsc -p tests/tsconfig.test.json && node tests/out/tests/outbox.test.js
+ */
+import assert from 'node:assert';
+import { MemoryOutboxStore, OutboxEntry, ReplayOutcome, classifyReplay, replayOutbox } from '../src/outbox';
+
+let passed = 0;
+let failed = 0;
+const tests: Array<[string, () => void | Promise<void>]> = [];
+const test = (name: string, fn: () => void | Promise<void>) => tests.push([name, fn]);
+
+const entry = (url: string): OutboxEntry => ({
+    method: 'POST',
+    url,
+    body: '{}',
+    headers: { 'Content-Type': 'application/json' },
+    idempotencyKey: `key-${url}`,
+    createdAt: 0
+});
+
+test('MemoryOutboxStore lists entries oldest first with increasing ids', async () => {
+    const store = new MemoryOutboxStore();
+    const a = await store.add(entry('/a'));
+    const b = await store.add(entry('/b'));
+    assert.ok(b > a);
+    assert.deepStrictEqual((await store.list()).map(e => [e.id, e.url]), [[a, '/a'], [b, '/b']]);
+
+    await store.delete(a);
+    assert.deepStrictEqual((await store.list()).map(e => e.url), ['/b']);
+    await store.clear();
+    assert.deepStrictEqual(await store.list(), []);
+});
+
+test('classifyReplay: success, conflict, permanent failure, retry later', () => {
+    assert.strictEqual(classifyReplay(200, false), 'done');
+    assert.strictEqual(classifyReplay(409, false), 'conflict');
+    assert.strictEqual(classifyReplay(422, false), 'failed');
+    assert.strictEqual(classifyReplay(404, false), 'failed');
+    assert.strictEqual(classifyReplay(401, false), 'retry');
+    assert.strictEqual(classifyReplay(503, false), 'retry');
+    assert.strictEqual(classifyReplay(null, true), 'retry');
+});
+
+test('replayOutbox sends in order and removes settled entries', async () => {
+    const store = new MemoryOutboxStore();
+    await store.add(entry('/a'));
+    await store.add(entry('/b'));
+    await store.add(entry('/c'));
+
+    const sent: string[] = [];
+    const settled: Array<[string, ReplayOutcome]> = [];
+    const outcomes: Record<string, ReplayOutcome> = { '/a': 'done', '/b': 'conflict', '/c': 'failed' };
+    const result = await replayOutbox(
+        store,
+        async e => {
+            sent.push(e.url);
+            return { outcome: outcomes[e.url], result: null };
+        },
+        (e, outcome) => settled.push([e.url, outcome])
+    );
+
+    assert.deepStrictEqual(sent, ['/a', '/b', '/c']);
+    assert.deepStrictEqual(settled, [['/a', 'done'], ['/b', 'conflict'], ['/c', 'failed']]);
+    assert.deepStrictEqual(result, { settled: 3, drained: true });
+    assert.deepStrictEqual(await store.list(), []);
+});
+
+test('replayOutbox stops at the first retry and keeps it and the rest', async () => {
+    const store = new MemoryOutboxStore();
+    await store.add(entry('/a'));
+    await store.add(entry('/b'));
+    await store.add(entry('/c'));
+
+    const sent: string[] = [];
+    const result = await replayOutbox(store, async e => {
+        sent.push(e.url);
+        return { outcome: e.url === '/b' ? 'retry' : 'done', result: null };
+    });
+
+    assert.deepStrictEqual(sent, ['/a', '/b']);
+    assert.deepStrictEqual(result, { settled: 1, drained: false });
+    assert.deepStrictEqual((await store.list()).map(e => e.url), ['/b', '/c']);
+});
+
+(async () => {
+    for (const [name, fn] of tests) {
+        try {
+            await fn();
+            passed++;
+            console.log(`  ✓ ${name}`);
+        } catch (err) {
+            failed++;
+            console.error(`  ✗ ${name}\n      ${(err as Error).message}`);
+        }
+    }
+    console.log(`\n${passed} passed, ${failed} failed, ${tests.length} total`);
+    process.exit(failed === 0 ? 0 : 1);
+})();
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for the pagination rules (SPEC §5.12).
+ *
+ * Exercises `src/pagination.ts` directly — query params per style, reading a
+ * page through a mapping, the has-more decision, and how loaded pages build up
+ * the list.
+ *
+ * Run: npx tsc -p tests/tsconfig.test.json && node tests/out/tests/pagination.test.js
+ */
+import assert from 'node:assert';
+import {
+    DEFAULT_PAGINATION_PARAMS,
+    EMPTY_PAGED_LIST,
+    FIRST_PAGE,
+    PagedList,
+    applyPage,
+    nextPageState,
+    pageHasMore,
+    pageQuery,
+    pageStateAt,
+    readPage
+} from '../src/pagination';
+
+let passed = 0;
+let failed = 0;
+const tests: Array<[string, () => void | Promise<void>]> = [];
+const test = (name: string, fn: () => void | Promise<void>) => tests.push([name, fn]);
+
+test('pageQuery builds the params of each style', () => {
+    const third = pageStateAt(2, 20);
+    assert.deepStrictEqual(pageQuery('offset', third, 20), { offset: 40, limit: 20 });
+    assert.deepStrictEqual(pageQuery('page', third, 20), { page: 3, size: 20 });
+    assert.deepStrictEqual(pageQuery('page', third, 20, DEFAULT_PAGINATION_PARAMS, 0), { page: 2, size: 20 });
+    assert.deepStrictEqual(pageQuery('cursor', FIRST_PAGE, 20), { limit: 20 });
+    assert.deepStrictEqual(pageQuery('cursor', { index: 1, offset: 20, cursor: 'abc' }, 20), { cursor: 'abc', limit: 20 });
+});
+
+test('pageQuery uses custom param names', () => {
+    const names = { ...DEFAULT_PAGINATION_PARAMS, page: 'p', size: 'per_page' };
+    assert.deepStrictEqual(pageQuery('page', FIRST_PAGE, 50, names), { p: 1, per_page: 50 });
+});
+
+test('readPage reads default fields, dot paths and functions', () => {
+    assert.deepStrictEqual(readPage({ items: [1, 2], total: '7', next_cursor: 'n', has_more: true }), {
+        items: [1, 2], total: 7, nextCursor: 'n', hasMore: true
+    });
+    assert.deepStrictEqual(readPage(
+        { rows: ['a'], meta: { count: 3, next: null } },
+        { items: 'rows', total: 'meta.count', nextCursor: 'meta.next', hasMore: data => data.meta.count > 1 }
+    ), { items: ['a'], total: 3, nextCursor: null, hasMore: true });
+});
+
+test('readPage treats an array as the item list and tolerates missing data', () => {
+    assert.deepStrictEqual(readPage([1, 2, 3]), { items: [1, 2, 3], total: null, nextCursor: null, hasMore: null });
+    assert.deepStrictEqual(readPage(null), { items: [], total: null, nextCursor: null, hasMore: null });
+});
+
+test('pageHasMore: explicit flag, cursor, total, then a full page', () => {
+    const page = (items: number, extra: object = {}) => ({ items: Array(items).fill(0), total: null, nextCursor: null, hasMore: null, ...extra });
+    assert.strictEqual(pageHasMore('offset', FIRST_PAGE, page(20, { hasMore: false }), 20), false);
+    assert.strictEqual(pageHasMore('cursor', FIRST_PAGE, page(20), 20), false);
+    assert.strictEqual(pageHasMore('cursor', FIRST_PAGE, page(5, { nextCursor: 'x' }), 20), true);
+    assert.strictEqual(pageHasMore('page', pageStateAt(1, 20), page(20, { total: 40 }), 20), false);
+    assert.strictEqual(pageHasMore('offset', FIRST_PAGE, page(20, { total: 41 }), 20), true);
+    assert.strictEqual(pageHasMore('page', FIRST_PAGE, page(20), 20), true);
+    assert.strictEqual(pageHasMore('page', FIRST_PAGE, page(19), 20), false);
+});
+
+test('nextPageState advances index, offset and cursor', () => {
+    const next = nextPageState(FIRST_PAGE, { items: [1, 2, 3], total: null, nextCursor: 'c2', hasMore: null });
+    assert.deepStrictEqual(next, { index: 1, offset: 3, cursor: 'c2' });
+});
+
+test('applyPage appends each loaded page and stops at the last one', () => {
+    let list: PagedList<number> = EMPTY_PAGED_LIST;
+    list = applyPage(list, 'offset', list.next, readPage<number>({ items: [1, 2], total: 3 }), 2, false);
+    assert.deepStrictEqual(list, { items: [1, 2], total: 3, hasMore: true, page: 1, next: { index: 1, offset: 2, cursor: null } });
+    list = applyPage(list, 'offset', list.next, readPage<number>({ items: [3], total: 3 }), 2, false);
+    assert.deepStrictEqual(list.items, [1, 2, 3]);
+    assert.strictEqual(list.hasMore, false);
+    assert.strictEqual(list.page, 2);
+});
+
+test('applyPage follows cursors until the server returns none', () => {
+    let list: PagedList<string> = EMPTY_PAGED_LIST;
+    list = applyPage(list, 'cursor', list.next, readPage<string>({ items: ['a'], next_cursor: 'c1' }), 1, false);
+    assert.strictEqual(list.next.cursor, 'c1');
+    assert.strictEqual(list.hasMore, true);
+    list = applyPage(list, 'cursor', list.next, readPage<string>({ items: ['b'], next_cursor: null }), 1, false);
+    assert.deepStrictEqual(list.items, ['a', 'b']);
+    assert.strictEqual(list.hasMore, false);
+});
+
+test('applyPage with replace shows only the latest page; starting over from FIRST_PAGE resets the count', () => {
+    let list: PagedList<number> = EMPTY_PAGED_LIST;
+    list = applyPage(list, 'page', list.next, readPage<number>({ items: [1, 2] }), 2, true);
+    list = applyPage(list, 'page', list.next, readPage<number>({ items: [3, 4] }), 2, true);
+    assert.deepStrictEqual(list.items, [3, 4]);
+    assert.strictEqual(list.page, 2);
+
+    list = applyPage(list, 'page', FIRST_PAGE, readPage<number>({ items: [9] }), 2, true);
+    assert.deepStrictEqual(list.items, [9]);
+    assert.strictEqual(list.page, 1);
+    assert.strictEqual(list.hasMore, false);
+    assert.strictEqual(EMPTY_PAGED_LIST.items.length, 0, 'the empty list is never mutated');
+});
+
+(async () => {
+    for (const [name, fn] of tests) {
+        try {
+            await fn();
+            passed++;
+            console.log(`  ✓ ${name}`);
+        } catch (err) {
+            failed++;
+            console.error(`  ✗ ${name}\n      ${(err as Error).message}`);
+        }
+    }
+    console.log(`\n${passed} passed, ${failed} failed, ${tests.length} total`);
+    process.exit(failed === 0 ? 0 : 1);
+})();
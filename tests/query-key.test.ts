@@ -0,0 +1,59 @@
+/**
+ * Unit tests for query keys, prefix matching and staleness (SPEC §5.6).
+ *
+ * Exercises `src/query-key.ts` directly — the rules the query cache uses to
+ * de-duplicate, partition and invalidate entries.
+ *
+ * Run: npx tsc -p tests/tsconfig.test.json && node tests/out/tests/query-key.test.js
+ */
+import assert from 'node:assert';
+import { hashQueryKey, isQueryStale, matchesQueryKeyPrefix } from '../src/query-key';
+
+let passed = 0;
+let failed = 0;
+const tests: Array<[string, () => void | Promise<void>]> = [];
+const test = (name: string, fn: () => void | Promise<void>) => tests.push([name, fn]);
+
+test('hashQueryKey ignores object key order and undefined values', () => {
+    assert.strictEqual(
+        hashQueryKey(['projects', { b: 2, a: 1, c: undefined }]),
+        hashQueryKey(['projects', { a: 1, b: 2 }])
+    );
+    assert.notStrictEqual(hashQueryKey(['projects', { a: 1 }]), hashQueryKey(['projects', { a: 2 }]));
+});
+
+test('hashQueryKey partitions by tenant', () => {
+    assert.notStrictEqual(hashQueryKey(['projects'], 't1'), hashQueryKey(['projects'], 't2'));
+    assert.notStrictEqual(hashQueryKey(['projects'], 't1'), hashQueryKey(['projects']));
+});
+
+test('matchesQueryKeyPrefix matches element-wise from the start', () => {
+    const key = ['projects', { status: 'active' }, 3];
+    assert.strictEqual(matchesQueryKeyPrefix(key, []), true);
+    assert.strictEqual(matchesQueryKeyPrefix(key, ['projects']), true);
+    assert.strictEqual(matchesQueryKeyPrefix(key, ['projects', { status: 'active' }]), true);
+    assert.strictEqual(matchesQueryKeyPrefix(key, ['projects', { status: 'archived' }]), false);
+    assert.strictEqual(matchesQueryKeyPrefix(key, ['project']), false);
+    assert.strictEqual(matchesQueryKeyPrefix(['projects'], ['projects', 1]), false);
+});
+
+test('isQueryStale: never fetched / invalidated, inside and past the TTL', () => {
+    assert.strictEqual(isQueryStale(0, 60_000, 1_000), true);
+    assert.strictEqual(isQueryStale(1_000, 60_000, 30_000), false);
+    assert.strictEqual(isQueryStale(1_000, 60_000, 61_000), true);
+});
+
+(async () => {
+    for (const [name, fn] of tests) {
+        try {
+            await fn();
+            passed++;
+            console.log(`  ✓ ${name}`);
+        } catch (err) {
+            failed++;
+            console.error(`  ✗ ${name}\n      ${(err as Error).message}`);
+        }
+    }
+    console.log(`\n${passed} passed, ${failed} failed, ${tests.length} total`);
+    process.exit(failed === 0 ? 0 : 1);
+})();
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for query-string serialization (SPEC §5.2).
+ *
+ * Exercises `src/query-string.ts` directly. The `flatten` cases mirror the
+ * ApiConnectionService.buildQueryString spec, which delegates here.
+ *
+ * Run: npx tsc -p tests/tsconfig.test.json && node tests/out/tests/query-string.test.js
+ */
+import assert from 'node:assert';
+import { serializeQuery } from '../src/query-string';
+
+let passed = 0;
+let failed = 0;
+const tests: Array<[string, () => void | Promise<void>]> = [];
+const test = (name: string, fn: () => void | Promise<void>) => tests.push([name, fn]);
+
+// ── flatten (default) ────────────────────────────────────────────────────────
+
+test('flatten: empty input → empty string', () => {
+    assert.strictEqual(serializeQuery(undefined), '');
+    assert.strictEqual(serializeQuery(null), '');
+    assert.strictEqual(serializeQuery({}), '');
+});
+
+test('flatten: lifts nested object keys and skips null / undefined', () => {
+    assert.strictEqual(
+        serializeQuery({ start: 0, filters: { status: 'active', x: null }, q: undefined }),
+        '?start=0&status=active'
+    );
+});
+
+test('flatten: arrays stay a single comma-joined value', () => {
+    assert.strictEqual(serializeQuery({ ids: [1, 2] }), '?ids=1%2C2');
+});
+
+// ── brackets ─────────────────────────────────────────────────────────────────
+
+test('brackets: nested objects become key[inner]', () => {
+    assert.strictEqual(
+        serializeQuery({ filters: { status: 'active', range: { from: 1 } } }, 'brackets'),
+        '?filters%5Bstatus%5D=active&filters%5Brange%5D%5Bfrom%5D=1'
+    );
+});
+
+test('brackets: arrays become repeated key[]', () => {
+    assert.strictEqual(serializeQuery({ ids: [1, null, 2] }, 'brackets'), '?ids%5B%5D=1&ids%5B%5D=2');
+});
+
+test('brackets: dates are sent as ISO strings', () => {
+    assert.strictEqual(
+        serializeQuery({ since: new Date(Date.UTC(2026, 0, 2)) }, 'brackets'),
+        '?since=2026-01-02T00%3A00%3A00.000Z'
+    );
+});
+
+// ── repeat / comma / custom ──────────────────────────────────────────────────
+
+test('repeat: arrays become repeated plain keys, objects stay bracketed', () => {
+    assert.strictEqual(
+        serializeQuery({ ids: [1, 2], filters: { tags: ['x', 'y'] } }, 'repeat'),
+        '?ids=1&ids=2&filters%5Btags%5D=x&filters%5Btags%5D=y'
+    );
+});
+
+test('comma: arrays become one comma-joined value with each item encoded', () => {
+    assert.strictEqual(serializeQuery({ ids: [1, null, 'a,b'] }, 'comma'), '?ids=1,a%2Cb');
+    assert.strictEqual(serializeQuery({ ids: [] }, 'comma'), '');
+});
+
+test('options: objects and arrays are chosen separately', () => {
+    assert.strictEqual(
+        serializeQuery({ filters: { status: 'a', ids: [1, 2] } }, { objects: 'flatten', arrays: 'repeat' }),
+        '?status=a&ids=1&ids=2'
+    );
+    assert.strictEqual(serializeQuery({ a: { id: 1 }, b: { id: 2 } }, {}), '?a%5Bid%5D=1&b%5Bid%5D=2');
+});
+
+test('dates are ISO strings in every structured mode, including inside arrays', () => {
+    const day = new Date(Date.UTC(2026, 0, 2));
+    assert.strictEqual(serializeQuery({ on: [day] }, 'comma'), '?on=2026-01-02T00%3A00%3A00.000Z');
+    assert.strictEqual(serializeQuery({ range: { from: day } }, { objects: 'flatten' }), '?from=2026-01-02T00%3A00%3A00.000Z');
+});
+
+(async () => {
+    for (const [name, fn] of tests) {
+        try {
+            await fn();
+            passed++;
+            console.log(`  ✓ ${name}`);
+        } catch (err) {
+            failed++;
+            console.error(`  ✗ ${name}\n      ${(err as Error).message}`);
+        }
+    }
+    console.log(`\n${passed} passed, ${failed} failed, ${tests.length} total`);
+    process.exit(failed === 0 ? 0 : 1);
+})();
@@ -0,0 +1,194 @@
+/**
+ * Unit tests for the realtime connection (SPEC §5.10).
+ *
+ * Exercises `src/realtime.ts` directly with a fake socket — auth handshake,
+ * topics across reconnects, re-auth on token rotation and token renewal.
+ *
+ * Run: npx tsc -p tests/tsconfig.test.json && node tests/out/tests/realtime.test.js
+ */
+import assert from 'node:assert';
+import { RealtimeConnection, RealtimeConnectionOptions, RealtimeSocket, RealtimeState } from '../src/realtime';
+
+let passed = 0;
+let failed = 0;
+const tests: Array<[string, () => void | Promise<void>]> = [];
+const test = (name: string, fn: () => void | Promise<void>) => tests.push([name, fn]);
+
+class FakeSocket implements RealtimeSocket {
+    readyState = 0;
+    sent: any[] = [];
+    onopen: ((event: any) => void) | null = null;
+    onmessage: ((event: any) => void) | null = null;
+    onclose: ((event: any) => void) | null = null;
+    onerror: ((event: any) => void) | null = null;
+
+    send(data: string): void {
+        this.sent.push(JSON.parse(data));
+    }
+    close(): void {
+        this.readyState = 3;
+    }
+
+    // Server side
+    accept(): void {
+        this.readyState = 1;
+        this.onopen?.({});
+    }
+    reply(message: object): void {
+        this.onmessage?.({ data: JSON.stringify(message) });
+    }
+    drop(): void {
+        this.readyState = 3;
+        this.onclose?.({ code: 1006 });
+    }
+}
+
+function setup(overrides: Partial<RealtimeConnectionOptions> = {}) {
+    const sockets: FakeSocket[] = [];
+    const states: RealtimeState[] = [];
+    const messages: Array<[string, unknown]> = [];
+    const env = { token: 'jwt-1' as string | null };
+    const connection = new RealtimeConnection({
+        url: 'wss://rt.example.com',
+        createSocket: () => {
+            const socket = new FakeSocket();
+            sockets.push(socket);
+            return socket;
+        },
+        getToken: () => env.token,
+        baseDelayMs: 1,
+        maxDelayMs: 1,
+        onStateChange: state => states.push(state),
+        onMessage: (topic, data) => messages.push([topic, data]),
+        renewToken: async () => false,
+        random: () => 0,
+        ...overrides
+    });
+    return { connection, sockets, states, messages, env };
+}
+
+const tick = (ms = 5) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('authenticates on open and becomes open after auth_ok', () => {
+    const { connection, sockets, states } = setup();
+    connection.subscribe('orders');
+    connection.open();
+    const socket = sockets[0];
+    socket.accept();
+    assert.deepStrictEqual(socket.sent, [{ type: 'auth', token: 'jwt-1' }]);
+    assert.strictEqual(connection.state, 'connecting');
+
+    socket.reply({ type: 'auth_ok' });
+    assert.deepStrictEqual(socket.sent.slice(1), [{ type: 'subscribe', topic: 'orders' }]);
+    assert.deepStrictEqual(states, ['connecting', 'open']);
+});
+
+test('routes topic messages and only publishes while open', () => {
+    const { connection, sockets, messages } = setup();
+    connection.open();
+    assert.strictEqual(connection.publish('chat', 'early'), false);
+    sockets[0].accept();
+    sockets[0].reply({ type: 'auth_ok' });
+    sockets[0].reply({ type: 'message', topic: 'chat', data: { text: 'hi' } });
+    assert.deepStrictEqual(messages, [['chat', { text: 'hi' }]]);
+
+    assert.strictEqual(connection.publish('chat', 'hello'), true);
+    assert.deepStrictEqual(sockets[0].sent.at(-1), { type: 'publish', topic: 'chat', data: 'hello' });
+});
+
+test('reconnects with backoff and re-subscribes current topics', async () => {
+    const { connection, sockets, states } = setup();
+    connection.subscribe('a');
+    connection.open();
+    sockets[0].accept();
+    sockets[0].reply({ type: 'auth_ok' });
+
+    connection.subscribe('b');
+    connection.unsubscribe('a');
+    sockets[0].drop();
+    assert.strictEqual(connection.state, 'reconnecting');
+
+    await tick();
+    assert.strictEqual(sockets.length, 2);
+    sockets[1].accept();
+    sockets[1].reply({ type: 'auth_ok' });
+    assert.deepStrictEqual(sockets[1].sent, [{ type: 'auth', token: 'jwt-1' }, { type: 'subscribe', topic: 'b' }]);
+    assert.deepStrictEqual(states, ['connecting', 'open', 'reconnecting', 'open']);
+});
+
+test('reauthenticate sends a rotated token on the open socket', () => {
+    const { connection, sockets, env } = setup();
+    connection.open();
+    sockets[0].accept();
+    sockets[0].reply({ type: 'auth_ok' });
+
+    env.token = 'jwt-2';
+    connection.reauthenticate();
+    assert.deepStrictEqual(sockets[0].sent.at(-1), { type: 'auth', token: 'jwt-2' });
+    assert.strictEqual(sockets.length, 1);
+});
+
+test('waits for a token, and closes when the token is gone', () => {
+    const { connection, sockets, env } = setup();
+    env.token = null;
+    connection.open();
+    assert.strictEqual(sockets.length, 0);
+    assert.strictEqual(connection.state, 'disconnected');
+
+    env.token = 'jwt-1';
+    connection.reauthenticate();
+    assert.strictEqual(sockets.length, 1);
+
+    env.token = null;
+    connection.reauthenticate();
+    assert.strictEqual(sockets[0].readyState, 3);
+    assert.strictEqual(connection.state, 'disconnected');
+});
+
+test('auth_error renews the token once, then gives up', async () => {
+    let renewals = 0;
+    const { connection, sockets, env } = setup({
+        renewToken: async () => {
+            renewals++;
+            env.token = 'jwt-2';
+            return true;
+        }
+    });
+    connection.open();
+    sockets[0].accept();
+    sockets[0].reply({ type: 'auth_error' });
+    await tick(0);
+    assert.strictEqual(renewals, 1);
+    assert.deepStrictEqual(sockets[0].sent.at(-1), { type: 'auth', token: 'jwt-2' });
+
+    sockets[0].reply({ type: 'auth_error' });
+    await tick(0);
+    assert.strictEqual(renewals, 1);
+    assert.strictEqual(connection.state, 'disconnected');
+});
+
+test('close stops reconnecting', async () => {
+    const { connection, sockets } = setup();
+    connection.open();
+    sockets[0].accept();
+    sockets[0].drop();
+    connection.close();
+    await tick();
+    assert.strictEqual(sockets.length, 1);
+    assert.strictEqual(connection.state, 'disconnected');
+});
+
+(async () => {
+    for (const [name, fn] of tests) {
+        try {
+            await fn();
+            passed++;
+            console.log(`  ✓ ${name}`);
+        } catch (err) {
+            failed++;
+            console.error(`  ✗ ${name}\n      ${(err as Error).message}`);
+        }
+    }
+    console.log(`\n${passed} passed, ${failed} failed, ${tests.length} total`);
+    process.exit(failed === 0 ? 0 : 1);
+})();
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for per-call cancellation and timeouts (SPEC §5.2).
+ *
+ * Exercises `src/request-abort.ts` and the RetryInterceptor's abort handling
+ * directly — both are framework-free.
+ *
+ * Run: npx tsc -p tests/tsconfig.test.json && node tests/out/tests/request-abort.test.js
+ */
+import assert from 'node:assert';
+import { createRequestAbortScope } from '../src/request-abort';
+import { DEFAULT_RETRY_POLICY, RetryInterceptor } from '../src/retry-policy';
+import { ApiRequest, runInterceptorChain } from '../src/api-interceptor';
+
+let passed = 0;
+let failed = 0;
+const tests: Array<[string, () => void | Promise<void>]> = [];
+const test = (name: string, fn: () => void | Promise<void>) => tests.push([name, fn]);
+
+const tick = (ms = 0) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('no signal and no timeout → never aborts', async () => {
+    const scope = createRequestAbortScope();
+    await tick(5);
+    assert.strictEqual(scope.signal.aborted, false);
+    assert.strictEqual(scope.abortKind(), null);
+    scope.dispose();
+});
+
+test('external abort → cancelled, with the caller\'s reason', () => {
+    const external = new AbortController();
+    const scope = createRequestAbortScope(external.signal, 1000);
+    external.abort('route changed');
+    assert.strictEqual(scope.signal.aborted, true);
+    assert.strictEqual(scope.abortKind(), 'cancelled');
+    assert.strictEqual(scope.signal.reason, 'route changed');
+    scope.dispose();
+});
+
+test('an already-aborted signal cancels immediately', () => {
+    const external = new AbortController();
+    external.abort();
+    const scope = createRequestAbortScope(external.signal, 1000);
+    assert.strictEqual(scope.abortKind(), 'cancelled');
+    scope.dispose();
+});
+
+test('timeout → timeout, with a TimeoutError reason', async () => {
+    const scope = createRequestAbortScope(undefined, 5);
+    await tick(20);
+    assert.strictEqual(scope.abortKind(), 'timeout');
+    assert.strictEqual((scope.signal.reason as DOMException).name, 'TimeoutError');
+    scope.dispose();
+});
+
+test('the first trigger wins; dispose() stops the timer', async () => {
+    const external = new AbortController();
+    const scope = createRequestAbortScope(external.signal, 5);
+    await tick(20);
+    external.abort();
+    assert.strictEqual(scope.abortKind(), 'timeout');
+
+    const disposed = createRequestAbortScope(undefined, 5);
+    disposed.dispose();
+    await tick(20);
+    assert.strictEqual(disposed.abortKind(), null);
+});
+
+test('RetryInterceptor: aborting during backoff stops retrying', async () => {
+    const scope = createRequestAbortScope(undefined, 30);
+    let calls = 0;
+    const request: ApiRequest = {
+        url: 'https://api.test/items',
+        method: 'GET',
+        init: { headers: {}, signal: scope.signal },
+        context: {}
+    };
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1000, maxDelayMs: 1000 };
+
+    await assert.rejects(
+        runInterceptorChain([new RetryInterceptor(policy)], request, async () => {
+            calls++;
+            return new Response(null, { status: 503 });
+        }),
+        (reason: DOMException) => reason.name === 'TimeoutError'
+    );
+    assert.strictEqual(calls, 1);
+    scope.dispose();
+});
+
+(async () => {
+    for (const [name, fn] of tests) {
+        try {
+            await fn();
+            passed++;
+            console.log(`  ✓ ${name}`);
+        } catch (err) {
+            failed++;
+            console.error(`  ✗ ${name}\n      ${(err as Error).message}`);
+        }
+    }
+    console.log(`\n${passed} passed, ${failed} failed, ${tests.length} total`);
+    process.exit(failed === 0 ? 0 : 1);
+})();
@@ -0,0 +1,165 @@
+/**
+ * Unit tests for the retry policy helpers and RetryInterceptor (SPEC §5.2, §8.5).
+ *
+ * Exercises `src/retry-policy.ts` directly, driving the interceptor through
+ * `runInterceptorChain` with a fake transport — no Angular TestBed needed.
+ *
+ * Run: npx tsc -p tests/tsconfig.test.json && node tests/out/tests/retry-policy.test.js
+ */
+import assert from 'node:assert';
+import {
+    DEFAULT_RETRY_POLICY,
+    RETRY_OPTIONS,
+    RetryInterceptor,
+    RetryPolicy,
+    computeBackoffDelay,
+    isRetryableMethod,
+    parseRetryAfter
+} from '../src/retry-policy';
+import { ApiRequest, runInterceptorChain } from '../src/api-interceptor';
+
+let passed = 0;
+let failed = 0;
+const tests: Array<[string, () => void | Promise<void>]> = [];
+const test = (name: string, fn: () => void | Promise<void>) => tests.push([name, fn]);
+
+const fast: RetryPolicy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1, maxDelayMs: 5 };
+
+function makeRequest(method: string, context: Record<string, unknown> = {}): ApiRequest {
+    return { url: 'https://api.test/items', method, init: { method, headers: {} }, context };
+}
+
+/** Transport replaying `statuses` in order; a `null` entry rejects like a network error. */
+function scripted(statuses: Array<number | null>, seen: ApiRequest[] = []) {
+    return async (request: ApiRequest): Promise<Response> => {
+        seen.push(request);
+        const status = statuses[Math.min(seen.length - 1, statuses.length - 1)];
+        if (status === null) throw new TypeError('Failed to fetch');
+        return new Response(null, { status });
+    };
+}
+
+// ── Pure helpers ─────────────────────────────────────────────────────────────
+
+test('isRetryableMethod: idempotent methods retry, POST/PATCH need a key', () => {
+    for (const method of ['GET', 'head', 'PUT', 'DELETE']) {
+        assert.strictEqual(isRetryableMethod(method), true, method);
+    }
+    assert.strictEqual(isRetryableMethod('POST'), false);
+    assert.strictEqual(isRetryableMethod('PATCH'), false);
+    assert.strictEqual(isRetryableMethod('POST', 'key-1'), true);
+});
+
+test('computeBackoffDelay: doubles per attempt, capped, equal jitter', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 100, maxDelayMs: 1000 };
+    assert.strictEqual(computeBackoffDelay(1, policy, () => 0), 50);
+    assert.strictEqual(computeBackoffDelay(1, policy, () => 1), 100);
+    assert.strictEqual(computeBackoffDelay(3, policy, () => 1), 400);
+    assert.strictEqual(computeBackoffDelay(10, policy, () => 1), 1000);
+    assert.strictEqual(computeBackoffDelay(10, policy, () => 0), 500);
+});
+
+test('parseRetryAfter: delta-seconds, HTTP-date, and garbage', () => {
+    assert.strictEqual(parseRetryAfter('2'), 2000);
+    const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+    assert.strictEqual(parseRetryAfter('Wed, 21 Oct 2015 07:28:05 GMT', now), 5000);
+    assert.strictEqual(parseRetryAfter('Wed, 21 Oct 2015 07:27:00 GMT', now), 0);
+    assert.strictEqual(parseRetryAfter(null), null);
+    assert.strictEqual(parseRetryAfter('soon'), null);
+});
+
+// ── Interceptor ──────────────────────────────────────────────────────────────
+
+test('GET is retried on 503 until it succeeds', async () => {
+    const seen: ApiRequest[] = [];
+    const response = await runInterceptorChain([new RetryInterceptor(fast)], makeRequest('GET'), scripted([503, 503, 200], seen));
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual(seen.length, 3);
+});
+
+test('gives up after maxAttempts and returns the last response', async () => {
+    const seen: ApiRequest[] = [];
+    const response = await runInterceptorChain([new RetryInterceptor(fast)], makeRequest('GET'), scripted([502], seen));
+    assert.strictEqual(response.status, 502);
+    assert.strictEqual(seen.length, 3);
+});
+
+test('network errors are retried, then rethrown', async () => {
+    const seen: ApiRequest[] = [];
+    const ok = await runInterceptorChain([new RetryInterceptor(fast)], makeRequest('GET'), scripted([null, 200], seen));
+    assert.strictEqual(ok.status, 200);
+
+    await assert.rejects(
+        runInterceptorChain([new RetryInterceptor(fast)], makeRequest('GET'), scripted([null])),
+        /Failed to fetch/
+    );
+});
+
+test('POST without an idempotency key is not retried', async () => {
+    const seen: ApiRequest[] = [];
+    const response = await runInterceptorChain([new RetryInterceptor(fast)], makeRequest('POST'), scripted([503, 200], seen));
+    assert.strictEqual(response.status, 503);
+    assert.strictEqual(seen.length, 1);
+});
+
+test('POST with an idempotency key is retried and sends the key header', async () => {
+    const seen: ApiRequest[] = [];
+    const request = makeRequest('POST', { [RETRY_OPTIONS]: { idempotencyKey: 'order-42' } });
+    const response = await runInterceptorChain([new RetryInterceptor(fast)], request, scripted([503, 200], seen));
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual(seen.length, 2);
+    assert.ok(seen.every(r => r.init.headers['Idempotency-Key'] === 'order-42'));
+});
+
+test('POST with only an outbox key sends the key header but is not retried', async () => {
+    const seen: ApiRequest[] = [];
+    const request = makeRequest('POST', { [RETRY_OPTIONS]: { outboxKey: 'outbox-1' } });
+    const response = await runInterceptorChain([new RetryInterceptor(fast)], request, scripted([503, 200], seen));
+    assert.strictEqual(response.status, 503);
+    assert.strictEqual(seen.length, 1);
+    assert.strictEqual(seen[0].init.headers['Idempotency-Key'], 'outbox-1');
+});
+
+test('per-request override: false disables, maxAttempts replaces the global value', async () => {
+    const disabled: ApiRequest[] = [];
+    await runInterceptorChain([new RetryInterceptor(fast)],
+        makeRequest('GET', { [RETRY_OPTIONS]: { policy: false } }), scripted([503], disabled));
+    assert.strictEqual(disabled.length, 1);
+
+    const five: ApiRequest[] = [];
+    await runInterceptorChain([new RetryInterceptor(fast)],
+        makeRequest('GET', { [RETRY_OPTIONS]: { policy: { maxAttempts: 5 } } }), scripted([503], five));
+    assert.strictEqual(five.length, 5);
+});
+
+test('statuses outside retryOnStatus are returned untouched', async () => {
+    const seen: ApiRequest[] = [];
+    const response = await runInterceptorChain([new RetryInterceptor(fast)], makeRequest('GET'), scripted([500, 200], seen));
+    assert.strictEqual(response.status, 500);
+    assert.strictEqual(seen.length, 1);
+});
+
+test('a Retry-After longer than maxDelayMs gives up immediately', async () => {
+    let calls = 0;
+    const response = await runInterceptorChain([new RetryInterceptor(fast)], makeRequest('GET'), async () => {
+        calls++;
+        return new Response(null, { status: 503, headers: { 'Retry-After': '120' } });
+    });
+    assert.strictEqual(response.status, 503);
+    assert.strictEqual(calls, 1);
+});
+
+(async () => {
+    for (const [name, fn] of tests) {
+        try {
+            await fn();
+            passed++;
+            console.log(`  ✓ ${name}`);
+        } catch (err) {
+            failed++;
+            console.error(`  ✗ ${name}\n      ${(err as Error).message}`);
+        }
+    }
+    console.log(`\n${passed} passed, ${failed} failed, ${tests.length} total`);
+    process.exit(failed === 0 ? 0 : 1);
+})();
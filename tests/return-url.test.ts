@@ -0,0 +1,71 @@
+/**
+ * Unit tests for return-URL handling (SPEC §7.5).
+ *
+ * Exercises `src/return-url.ts` directly — the open-redirect checks and how a
+ * return URL is attached to a redirect target. The guard decisions that use
+ * them are covered in guard-logic.test.ts.
+ *
+ * Run: npx tsc -p tests/tsconfig.test.json && node tests/out/tests/return-url.test.js
+ */
+import assert from 'node:assert';
+import { safeReturnUrl, withReturnUrl } from '../src/return-url';
+
+let passed = 0;
+let failed = 0;
+const tests: Array<[string, () => void | Promise<void>]> = [];
+const test = (name: string, fn: () => void | Promise<void>) => tests.push([name, fn]);
+
+test('internal paths pass, with query and fragment', () => {
+    assert.strictEqual(safeReturnUrl('/orders/5'), '/orders/5');
+    assert.strictEqual(safeReturnUrl('/orders?status=open#top'), '/orders?status=open#top');
+    assert.strictEqual(safeReturnUrl('/'), '/');
+});
+
+test('external and ambiguous targets are refused', () => {
+    for (const candidate of [
+        'https://evil.example/',
+        '//evil.example/path',
+        '/\\evil.example',
+        '\\\\evil.example',
+        'javascript:alert(1)',
+        'orders',
+        '/\torders',
+        ' /orders',
+        ''
+    ]) {
+        assert.strictEqual(safeReturnUrl(candidate), null, candidate);
+    }
+    assert.strictEqual(safeReturnUrl(null), null);
+    assert.strictEqual(safeReturnUrl(['/orders']), null);
+});
+
+test('the login route is never a return target', () => {
+    assert.strictEqual(safeReturnUrl('/login', '/login'), null);
+    assert.strictEqual(safeReturnUrl('/login?returnUrl=%2Fx', '/login'), null);
+    assert.strictEqual(safeReturnUrl('/login/otp', '/login'), null);
+    assert.strictEqual(safeReturnUrl('/login-help', '/login'), '/login-help');
+});
+
+test('withReturnUrl encodes the URL and skips unsafe or disabled cases', () => {
+    assert.strictEqual(withReturnUrl('/login', '/orders?a=1', 'returnUrl'), '/login?returnUrl=%2Forders%3Fa%3D1');
+    assert.strictEqual(withReturnUrl('/login?mode=sso', '/orders', 'next'), '/login?mode=sso&next=%2Forders');
+    assert.strictEqual(withReturnUrl('/login', '/orders', ''), '/login');
+    assert.strictEqual(withReturnUrl('/login', '/orders', undefined), '/login');
+    assert.strictEqual(withReturnUrl('/login', '//evil.example', 'returnUrl'), '/login');
+    assert.strictEqual(withReturnUrl('/login', '/login', 'returnUrl', '/login'), '/login');
+});
+
+(async () => {
+    for (const [name, fn] of tests) {
+        try {
+            await fn();
+            passed++;
+            console.log(`  ✓ ${name}`);
+        } catch (err) {
+            failed++;
+            console.error(`  ✗ ${name}\n      ${(err as Error).message}`);
+        }
+    }
+    console.log(`\n${passed} passed, ${failed} failed, ${tests.length} total`);
+    process.exit(failed === 0 ? 0 : 1);
+})();
@@ -0,0 +1,207 @@
+/**
+ * Unit tests for cross-tab session sync (SPEC §8.5 `sessionSync`).
+ *
+ * Exercises `src/session-sync.ts` directly — delivery over BroadcastChannel,
+ * the `storage`-event fallback with a fake window / localStorage, and the
+ * localStorage lease `runExclusive` uses without the Web Locks API.
+ *
+ * Run: npx tsc -p tests/tsconfig.test.json && node tests/out/tests/session-sync.test.js
+ */
+import assert from 'node:assert';
+import { SessionSyncChannel, SessionSyncMessage } from '../src/session-sync';
+
+let passed = 0;
+let failed = 0;
+const tests: Array<[string, () => void | Promise<void>]> = [];
+const test = (name: string, fn: () => void | Promise<void>) => tests.push([name, fn]);
+
+const globals = globalThis as any;
+const nativeBroadcastChannel = globals.BroadcastChannel;
+
+type StorageListener = (event: { key: string | null; newValue: string | null }) => void;
+
+/**
+ * Fake localStorage. With `tab`, every write also fires a `storage` event on
+ * that window, as the browser does in the other tabs.
+ */
+function installStorage(tab?: { listeners: StorageListener[] }) {
+    const items = new Map<string, string>();
+    const fire = (key: string, newValue: string | null) => tab?.listeners.forEach(l => l({ key, newValue }));
+    globals.localStorage = {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => { items.set(key, value); fire(key, value); },
+        removeItem: (key: string) => { items.delete(key); fire(key, null); }
+    };
+    return items;
+}
+
+/** Fake window collecting `storage` listeners. */
+function installWindow() {
+    const tab = { listeners: [] as StorageListener[] };
+    globals.window = {
+        addEventListener: (type: string, listener: StorageListener) => {
+            if (type === 'storage') tab.listeners.push(listener);
+        },
+        removeEventListener: (type: string, listener: StorageListener) => {
+            tab.listeners = tab.listeners.filter(l => l !== listener);
+        }
+    };
+    return tab;
+}
+
+function reset(): void {
+    globals.BroadcastChannel = nativeBroadcastChannel;
+    delete globals.window;
+    delete globals.localStorage;
+}
+
+const nextTask = () => new Promise(resolve => setTimeout(resolve, 10));
+
+test('BroadcastChannel delivers to the other tabs, not the sender', async () => {
+    const a = new SessionSyncChannel('sync-test');
+    const b = new SessionSyncChannel('sync-test');
+    const receivedA: SessionSyncMessage[] = [];
+    const receivedB: SessionSyncMessage[] = [];
+    a.onMessage(m => receivedA.push(m));
+    b.onMessage(m => receivedB.push(m));
+    try {
+        a.post({ type: 'login', user: { id: '1' } });
+        await nextTask();
+        assert.deepStrictEqual(receivedB, [{ type: 'login', user: { id: '1' } }]);
+        assert.deepStrictEqual(receivedA, []);
+    } finally {
+        a.close();
+        b.close();
+    }
+});
+
+test('BroadcastChannel stops delivering after close()', async () => {
+    const a = new SessionSyncChannel('sync-test');
+    const b = new SessionSyncChannel('sync-test');
+    const received: SessionSyncMessage[] = [];
+    b.onMessage(m => received.push(m));
+    b.close();
+    a.post({ type: 'logout' });
+    await nextTask();
+    a.close();
+    assert.deepStrictEqual(received, []);
+});
+
+test('storage fallback: a write-and-remove reaches the other tab', () => {
+    try {
+        globals.BroadcastChannel = undefined;
+        // The sender has no window of its own, so only the receiver sees the event.
+        const sender = new SessionSyncChannel('sync-test');
+        const tab = installWindow();
+        const items = installStorage(tab);
+        const receiver = new SessionSyncChannel('sync-test');
+        const received: SessionSyncMessage[] = [];
+        receiver.onMessage(m => received.push(m));
+
+        sender.post({ type: 'refreshed', user: null });
+        sender.post({ type: 'refreshed', user: null });
+
+        assert.deepStrictEqual(received, [{ type: 'refreshed', user: null }, { type: 'refreshed', user: null }]);
+        assert.strictEqual(items.size, 0, 'the message key is removed right away');
+    } finally {
+        reset();
+    }
+});
+
+test('storage fallback: other keys and malformed payloads are ignored; close() unsubscribes', () => {
+    try {
+        globals.BroadcastChannel = undefined;
+        const tab = installWindow();
+        const receiver = new SessionSyncChannel('sync-test');
+        const received: SessionSyncMessage[] = [];
+        receiver.onMessage(m => received.push(m));
+
+        tab.listeners.forEach(l => l({ key: 'other', newValue: JSON.stringify({ message: { type: 'logout' } }) }));
+        tab.listeners.forEach(l => l({ key: 'sync-test', newValue: '{not json' }));
+        tab.listeners.forEach(l => l({ key: 'sync-test', newValue: null }));
+        assert.deepStrictEqual(received, []);
+
+        receiver.close();
+        assert.strictEqual(tab.listeners.length, 0);
+    } finally {
+        reset();
+    }
+});
+
+test('runExclusive: a live lease held by another tab skips the task', async () => {
+    try {
+        installStorage();
+        const a = new SessionSyncChannel('sync-test');
+        const b = new SessionSyncChannel('sync-test');
+        const runs: string[] = [];
+        let finishA!: () => void;
+
+        const first = a.runExclusive('renewal', () => new Promise<void>(resolve => {
+            runs.push('a');
+            finishA = resolve;
+        }));
+        await b.runExclusive('renewal', async () => { runs.push('b'); });
+        assert.deepStrictEqual(runs, ['a']);
+
+        finishA();
+        await first;
+        await b.runExclusive('renewal', async () => { runs.push('b'); });
+        assert.deepStrictEqual(runs, ['a', 'b']);
+        a.close();
+        b.close();
+    } finally {
+        reset();
+    }
+});
+
+test('runExclusive: an expired lease is taken over and released after a failing task', async () => {
+    try {
+        const items = installStorage();
+        items.set('sync-test:renewal', JSON.stringify({ owner: 'crashed-tab', expires: Date.now() - 1 }));
+        const a = new SessionSyncChannel('sync-test');
+        let ran = false;
+
+        await assert.rejects(a.runExclusive('renewal', async () => {
+            ran = true;
+            throw new Error('renewal failed');
+        }), /renewal failed/);
+
+        assert.ok(ran);
+        assert.strictEqual(items.has('sync-test:renewal'), false);
+        a.close();
+    } finally {
+        reset();
+    }
+});
+
+test('runExclusive: runs the task when storage is unavailable', async () => {
+    try {
+        globals.localStorage = {
+            getItem: () => { throw new Error('SecurityError'); },
+            setItem: () => { throw new Error('SecurityError'); },
+            removeItem: () => { throw new Error('SecurityError'); }
+        };
+        const a = new SessionSyncChannel('sync-test');
+        let ran = false;
+        await a.runExclusive('renewal', async () => { ran = true; });
+        assert.ok(ran);
+        a.close();
+    } finally {
+        reset();
+    }
+});
+
+(async () => {
+    for (const [name, fn] of tests) {
+        try {
+            await fn();
+            passed++;
+            console.log(`  ✓ ${name}`);
+        } catch (err) {
+            failed++;
+            console.error(`  ✗ ${name}\n      ${(err as Error).message}`);
+        }
+    }
+    console.log(`\n${passed} passed, ${failed} failed, ${tests.length} total`);
+    process.exit(failed === 0 ? 0 : 1);
+})();
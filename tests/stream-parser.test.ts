@@ -0,0 +1,73 @@
+/**
+ * Unit tests for the SSE and NDJSON stream parsers (SPEC §5.9).
+ *
+ * Exercises `src/stream-parser.ts` directly — fields, comments, multi-line
+ * data, ids, `retry:` and input split at arbitrary points.
+ *
+ * Run: npx tsc -p tests/tsconfig.test.json && node tests/out/tests/stream-parser.test.js
+ */
+import assert from 'node:assert';
+import { NdjsonParser, SseParser } from '../src/stream-parser';
+
+let passed = 0;
+let failed = 0;
+const tests: Array<[string, () => void | Promise<void>]> = [];
+const test = (name: string, fn: () => void | Promise<void>) => tests.push([name, fn]);
+
+test('SseParser dispatches on a blank line with event, data and id', () => {
+    const parser = new SseParser();
+    const messages = parser.push('event: progress\nid: 7\ndata: {"percent":40}\n\n');
+    assert.deepStrictEqual(messages, [{ event: 'progress', data: '{"percent":40}', id: '7' }]);
+    assert.strictEqual(parser.lastEventId, '7');
+});
+
+test('SseParser joins data lines, skips comments and defaults the event type', () => {
+    const parser = new SseParser();
+    const messages = parser.push(': keep-alive\ndata: line one\ndata:line two\n\n');
+    assert.deepStrictEqual(messages, [{ event: 'message', data: 'line one\nline two', id: null }]);
+});
+
+test('SseParser handles input split anywhere, CRLF included', () => {
+    const parser = new SseParser();
+    const stream = 'id: 1\r\ndata: a\r\n\r\nid: 2\r\ndata: b\r\n\r\n';
+    const messages = [];
+    for (const char of stream) messages.push(...parser.push(char));
+    assert.deepStrictEqual(messages.map(m => [m.id, m.data]), [['1', 'a'], ['2', 'b']]);
+});
+
+test('SseParser: ids persist, events without data are dropped, retry is read', () => {
+    const parser = new SseParser();
+    const messages = parser.push('id: 5\nevent: ping\n\nretry: 1500\ndata: x\n\n');
+    assert.deepStrictEqual(messages, [{ event: 'message', data: 'x', id: '5' }]);
+    assert.strictEqual(parser.retryMs, 1500);
+});
+
+test('NdjsonParser parses complete lines and flushes the last one', () => {
+    const parser = new NdjsonParser();
+    assert.deepStrictEqual(parser.push('{"token":"Hel'), []);
+    assert.deepStrictEqual(parser.push('lo"}\n\n{"token":" world"}\n{"done":'), [{ token: 'Hello' }, { token: ' world' }]);
+    assert.deepStrictEqual(parser.push('true}'), []);
+    assert.deepStrictEqual(parser.flush(), [{ done: true }]);
+    assert.throws(() => parser.push('not json\n'));
+});
+
+test('NdjsonParser hands each line to a custom parse', () => {
+    const parser = new NdjsonParser(line => line.toUpperCase());
+    assert.deepStrictEqual(parser.push('a\n\nb\nc'), ['A', 'B']);
+    assert.deepStrictEqual(parser.flush(), ['C']);
+});
+
+(async () => {
+    for (const [name, fn] of tests) {
+        try {
+            await fn();
+            passed++;
+            console.log(`  ✓ ${name}`);
+        } catch (err) {
+            failed++;
+            console.error(`  ✗ ${name}\n      ${(err as Error).message}`);
+        }
+    }
+    console.log(`\n${passed} passed, ${failed} failed, ${tests.length} total`);
+    process.exit(failed === 0 ? 0 : 1);
+})();
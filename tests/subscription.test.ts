@@ -0,0 +1,126 @@
+/**
+ * Unit tests for the subscription status model (SPEC §7.6).
+ *
+ * Exercises `src/subscription.ts` directly — reading plan, status, trial end
+ * and entitlements out of the status endpoint's data in the shapes servers
+ * send, and which responses are cached and for how long. featureGuard
+ * decisions are covered in guard-logic.test.ts.
+ *
+ * Run: npx tsc -p tests/tsconfig.test.json && node tests/out/tests/subscription.test.js
+ */
+import assert from 'node:assert';
+import {
+    EMPTY_SUBSCRIPTION,
+    SUBSCRIPTION_RESET_EVENTS,
+    isCacheableSnapshot,
+    isFreshSnapshot,
+    isSubscriptionActive,
+    readSnapshot,
+    readSubscription
+} from '../src/subscription';
+
+let passed = 0;
+let failed = 0;
+const tests: Array<[string, () => void | Promise<void>]> = [];
+const test = (name: string, fn: () => void | Promise<void>) => tests.push([name, fn]);
+
+test('reads the snake_case shape', () => {
+    const info = readSubscription({
+        plan: 'pro',
+        status: 'trialing',
+        trial_ends_at: '2026-11-01T00:00:00Z',
+        features: ['reports', 'api_access']
+    });
+    assert.deepStrictEqual(info, {
+        plan: 'pro',
+        status: 'trialing',
+        trialEndsAt: new Date('2026-11-01T00:00:00Z'),
+        features: ['reports', 'api_access']
+    });
+});
+
+test('reads plan objects, epoch trial ends and feature maps', () => {
+    const info = readSubscription({
+        plan: { code: 'team', name: 'Team' },
+        status: 'past-due',
+        trialEnd: 1_800_000_000,
+        entitlements: { reports: true, sso: false, audit_log: true }
+    });
+    assert.strictEqual(info.plan, 'team');
+    assert.strictEqual(info.status, 'past_due');
+    assert.strictEqual(info.trialEndsAt?.getTime(), 1_800_000_000_000);
+    assert.deepStrictEqual(info.features, ['reports', 'audit_log']);
+});
+
+test('normalises status spellings and drops unknown ones', () => {
+    assert.strictEqual(readSubscription({ status: 'CANCELLED' }).status, 'canceled');
+    assert.strictEqual(readSubscription({ status: 'trial' }).status, 'trialing');
+    assert.strictEqual(readSubscription({ status: 'paused' }).status, null);
+});
+
+test('missing or malformed data reads as no subscription', () => {
+    assert.deepStrictEqual(readSubscription(null), EMPTY_SUBSCRIPTION);
+    assert.deepStrictEqual(readSubscription({ trial_ends_at: 'soon', features: 'reports' }), EMPTY_SUBSCRIPTION);
+});
+
+test('isSubscriptionActive: trialing and active only', () => {
+    assert.strictEqual(isSubscriptionActive('trialing'), true);
+    assert.strictEqual(isSubscriptionActive('active'), true);
+    assert.strictEqual(isSubscriptionActive('past_due'), false);
+    assert.strictEqual(isSubscriptionActive(null), false);
+});
+
+test('readSnapshot: an ok response is parsed; a failure keeps its status and no info', () => {
+    const ok = readSnapshot({ status: 'ok', data: { plan: 'pro', features: ['reports'] } }, 1000);
+    assert.deepStrictEqual(ok.probe, { ok: true, httpStatus: 200, isNetworkError: false });
+    assert.strictEqual(ok.info.plan, 'pro');
+    assert.strictEqual(ok.fetchedAt, 1000);
+
+    const forbidden = readSnapshot({ status: 'error', data: { httpStatus: 403, plan: 'pro' } }, 1000);
+    assert.deepStrictEqual(forbidden.probe, { ok: false, httpStatus: 403, isNetworkError: false });
+    assert.strictEqual(forbidden.info, EMPTY_SUBSCRIPTION);
+
+    const offline = readSnapshot({ status: 'error', data: { isNetworkError: true } }, 1000);
+    assert.deepStrictEqual(offline.probe, { ok: false, httpStatus: null, isNetworkError: true });
+    assert.deepStrictEqual(readSnapshot({ status: 'error', data: null }, 1000).probe.httpStatus, null);
+});
+
+test('isCacheableSnapshot: ok and 4xx are cached; 5xx and network failures are retried', () => {
+    const snapshot = (data: unknown, status = 'error') => readSnapshot({ status, data }, 0);
+    assert.strictEqual(isCacheableSnapshot(snapshot({}, 'ok')), true);
+    assert.strictEqual(isCacheableSnapshot(snapshot({ httpStatus: 402 })), true);
+    assert.strictEqual(isCacheableSnapshot(snapshot({ httpStatus: 404 })), true);
+    assert.strictEqual(isCacheableSnapshot(snapshot({ httpStatus: 500 })), false);
+    assert.strictEqual(isCacheableSnapshot(snapshot({ httpStatus: 503 })), false);
+    assert.strictEqual(isCacheableSnapshot(snapshot({ isNetworkError: true })), false);
+});
+
+test('isFreshSnapshot: fresh strictly within the TTL', () => {
+    const snapshot = readSnapshot({ status: 'ok', data: {} }, 10_000);
+    assert.strictEqual(isFreshSnapshot(snapshot, 5_000, 14_999), true);
+    assert.strictEqual(isFreshSnapshot(snapshot, 5_000, 15_000), false);
+    assert.strictEqual(isFreshSnapshot(snapshot, 0, 10_000), false, 'a zero TTL never serves from cache');
+});
+
+test('tenant switch, logout and a cleared session drop the cache; sign-in does not', () => {
+    for (const type of ['tenantSelected', 'logout', 'sessionCleared']) {
+        assert.ok(SUBSCRIPTION_RESET_EVENTS.includes(type), type);
+    }
+    assert.strictEqual(SUBSCRIPTION_RESET_EVENTS.includes('login'), false);
+    assert.strictEqual(SUBSCRIPTION_RESET_EVENTS.includes('refreshed'), false);
+});
+
+(async () => {
+    for (const [name, fn] of tests) {
+        try {
+            await fn();
+            passed++;
+            console.log(`  ✓ ${name}`);
+        } catch (err) {
+            failed++;
+            console.error(`  ✗ ${name}\n      ${(err as Error).message}`);
+        }
+    }
+    console.log(`\n${passed} passed, ${failed} failed, ${tests.length} total`);
+    process.exit(failed === 0 ? 0 : 1);
+})();
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the proactive token-renewal scheduler (SPEC §8.5).
+ *
+ * Exercises `src/token-renewal.ts` directly — the scheduler is framework-free,
+ * so timing, catch-up and stop behaviour are pinned without Angular.
+ *
+ * Run: npx tsc -p tests/tsconfig.test.json && node tests/out/tests/token-renewal.test.js
+ */
+import assert from 'node:assert';
+import { TokenRenewalScheduler } from '../src/token-renewal';
+
+let passed = 0;
+let failed = 0;
+const tests: Array<[string, () => void | Promise<void>]> = [];
+const test = (name: string, fn: () => void | Promise<void>) => tests.push([name, fn]);
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+const tick = (ms = 0) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('renews immediately when exp is already within the skew window', async () => {
+    let renewals = 0;
+    let exp = nowSeconds() + 30;
+    const scheduler = new TokenRenewalScheduler({
+        skewSeconds: 60,
+        getExpiry: () => exp,
+        renew: async () => { renewals++; exp = nowSeconds() + 3600; }
+    });
+    scheduler.schedule();
+    await tick();
+    assert.strictEqual(renewals, 1);
+    scheduler.stop();
+});
+
+test('does not renew before the skew window opens', async () => {
+    let renewals = 0;
+    const scheduler = new TokenRenewalScheduler({
+        skewSeconds: 60,
+        getExpiry: () => nowSeconds() + 3600,
+        renew: async () => { renewals++; }
+    });
+    scheduler.schedule();
+    await tick(20);
+    assert.strictEqual(renewals, 0);
+    scheduler.stop();
+});
+
+test('does not loop when the renewed token is still inside the skew window', async () => {
+    let renewals = 0;
+    const exp = nowSeconds() + 10; // server keeps issuing a token shorter than the skew
+    const scheduler = new TokenRenewalScheduler({
+        skewSeconds: 60,
+        getExpiry: () => exp,
+        renew: async () => { renewals++; }
+    });
+    scheduler.schedule();
+    await tick(20);
+    assert.strictEqual(renewals, 1);
+    scheduler.stop();
+});
+
+test('stop() cancels a pending renewal', async () => {
+    let renewals = 0;
+    const scheduler = new TokenRenewalScheduler({
+        skewSeconds: 0,
+        getExpiry: () => Date.now() / 1000 + 0.02, // due in ~20ms
+        renew: async () => { renewals++; }
+    });
+    scheduler.schedule();
+    scheduler.stop();
+    await tick(50);
+    assert.strictEqual(renewals, 0);
+});
+
+test('no token (no exp) → nothing scheduled', async () => {
+    let renewals = 0;
+    const scheduler = new TokenRenewalScheduler({
+        skewSeconds: 60,
+        getExpiry: () => null,
+        renew: async () => { renewals++; }
+    });
+    scheduler.schedule();
+    await tick(10);
+    assert.strictEqual(renewals, 0);
+    scheduler.stop();
+});
+
+(async () => {
+    for (const [name, fn] of tests) {
+        try {
+            await fn();
+            passed++;
+            console.log(`  ✓ ${name}`);
+        } catch (err) {
+            failed++;
+            console.error(`  ✗ ${name}\n      ${(err as Error).message}`);
+        }
+    }
+    console.log(`\n${passed} passed, ${failed} failed, ${tests.length} total`);
+    process.exit(failed === 0 ? 0 : 1);
+})();
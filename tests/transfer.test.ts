@@ -0,0 +1,141 @@
+/**
+ * Unit tests for the upload / download helpers (SPEC §5.4).
+ *
+ * Exercises `src/transfer.ts` directly — Content-Disposition parsing, multipart
+ * body building and progress reporting, without a browser.
+ *
+ * Run: npx tsc -p tests/tsconfig.test.json && node tests/out/tests/transfer.test.js
+ */
+import assert from 'node:assert';
+import {
+    TransferProgress,
+    parseContentDispositionFilename,
+    parseXhrHeaders,
+    readBodyWithProgress,
+    toFormData,
+    toProgress,
+    xhrTransport
+} from '../src/transfer';
+
+let passed = 0;
+let failed = 0;
+const tests: Array<[string, () => void | Promise<void>]> = [];
+const test = (name: string, fn: () => void | Promise<void>) => tests.push([name, fn]);
+
+test('parseContentDispositionFilename: quoted, bare, missing', () => {
+    assert.strictEqual(parseContentDispositionFilename('attachment; filename="report 2024.pdf"'), 'report 2024.pdf');
+    assert.strictEqual(parseContentDispositionFilename('attachment; filename=data.csv'), 'data.csv');
+    assert.strictEqual(parseContentDispositionFilename('attachment; filename="a \\"b\\".txt"'), 'a "b".txt');
+    assert.strictEqual(parseContentDispositionFilename('inline'), null);
+    assert.strictEqual(parseContentDispositionFilename(null), null);
+});
+
+test('parseContentDispositionFilename prefers the RFC 5987 filename*', () => {
+    assert.strictEqual(
+        parseContentDispositionFilename(`attachment; filename="naive.txt"; filename*=UTF-8''na%C3%AFve%20r%C3%A9sum%C3%A9.txt`),
+        'naïve résumé.txt'
+    );
+    // Malformed encoding falls back to the plain filename.
+    assert.strictEqual(parseContentDispositionFilename(`attachment; filename*=UTF-8''%E0%A4%A; filename="x.txt"`), 'x.txt');
+});
+
+test('toFormData: single file under the field name, fields, repeated arrays', async () => {
+    const file = new Blob(['hello'], { type: 'text/plain' });
+    const single = toFormData(file, 'upload');
+    assert.strictEqual(await (single.get('upload') as Blob).text(), 'hello');
+
+    const form = toFormData({ note: 'Invoice', count: 2, tags: ['a', 'b'], skipped: undefined, attachment: file });
+    assert.strictEqual(form.get('note'), 'Invoice');
+    assert.strictEqual(form.get('count'), '2');
+    assert.deepStrictEqual(form.getAll('tags'), ['a', 'b']);
+    assert.strictEqual(form.has('skipped'), false);
+    assert.ok(form.get('attachment') instanceof Blob);
+
+    const existing = new FormData();
+    assert.strictEqual(toFormData(existing), existing);
+});
+
+test('toProgress: fraction only with a known total', () => {
+    assert.deepStrictEqual(toProgress(50, 200), { loaded: 50, total: 200, fraction: 0.25 });
+    assert.deepStrictEqual(toProgress(50, null), { loaded: 50, total: null, fraction: null });
+    assert.deepStrictEqual(toProgress(50, 0), { loaded: 50, total: null, fraction: null });
+});
+
+test('readBodyWithProgress reports each chunk and keeps the content type', async () => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+            controller.enqueue(encoder.encode('abc'));
+            controller.enqueue(encoder.encode('defg'));
+            controller.close();
+        }
+    });
+    const response = new Response(body, { headers: { 'Content-Type': 'text/csv', 'Content-Length': '7' } });
+
+    const seen: TransferProgress[] = [];
+    const blob = await readBodyWithProgress(response, p => seen.push(p));
+
+    assert.strictEqual(await blob.text(), 'abcdefg');
+    assert.strictEqual(blob.type, 'text/csv');
+    assert.deepStrictEqual(seen.map(p => p.loaded), [0, 3, 7]);
+    assert.strictEqual(seen[seen.length - 1].fraction, 1);
+});
+
+test('parseXhrHeaders splits getAllResponseHeaders() output', () => {
+    const headers = parseXhrHeaders('content-type: application/json\r\ncontent-disposition: attachment; filename="a:b.txt"\r\n');
+    assert.strictEqual(headers.get('Content-Type'), 'application/json');
+    assert.strictEqual(headers.get('Content-Disposition'), 'attachment; filename="a:b.txt"');
+});
+
+test('xhrTransport builds body-less responses for 204, 205 and 304', async () => {
+    class FakeXhr {
+        static status = 200;
+        status = 0;
+        statusText = '';
+        response: unknown = null;
+        responseType = '';
+        withCredentials = false;
+        upload: Record<string, unknown> = {};
+        onload: (() => void) | null = null;
+        open(): void {}
+        setRequestHeader(): void {}
+        getAllResponseHeaders(): string {
+            return 'etag: "v1"';
+        }
+        send(): void {
+            this.status = FakeXhr.status;
+            this.response = new Blob(['ignored']);
+            this.onload?.();
+        }
+    }
+    const globals = globalThis as any;
+    const native = globals.XMLHttpRequest;
+    globals.XMLHttpRequest = FakeXhr;
+    try {
+        const send = xhrTransport();
+        for (const status of [204, 205, 304]) {
+            FakeXhr.status = status;
+            const response = await send({ url: '/files/1', method: 'PUT', init: { headers: {} }, context: {} });
+            assert.strictEqual(response.status, status);
+            assert.strictEqual(response.body, null, String(status));
+            assert.strictEqual(response.headers.get('etag'), '"v1"');
+        }
+    } finally {
+        globals.XMLHttpRequest = native;
+    }
+});
+
+(async () => {
+    for (const [name, fn] of tests) {
+        try {
+            await fn();
+            passed++;
+            console.log(`  ✓ ${name}`);
+        } catch (err) {
+            failed++;
+            console.error(`  ✗ ${name}\n      ${(err as Error).message}`);
+        }
+    }
+    console.log(`\n${passed} passed, ${failed} failed, ${tests.length} total`);
+    process.exit(failed === 0 ? 0 : 1);
+})();
@@ -0,0 +1,259 @@
+#!/usr/bin/env node
+/**
+ * stonescriptphp-contracts — generate typed endpoint contracts (SPEC §5.5) from a
+ * StoneScriptPHP route manifest.
+ *
+ * Usage:
+ *   stonescriptphp-contracts <manifest.json> [--out <file.ts>] [--name <exportName>] [--import <module>]
+ *
+ * The manifest mirrors `routes.php` — routes grouped by HTTP method, keyed by
+ * path template — with JSON Schema types for each route's query, body and
+ * response, and shared DTO schemas under `definitions`:
+ *
+ * ```json
+ * {
+ *   "definitions": {
+ *     "Project": { "type": "object", "properties": { "id": { "type": "integer" } }, "required": ["id"] }
+ *   },
+ *   "routes": {
+ *     "GET": {
+ *       "/projects/{id}": { "handler": "GetProjectRoute", "response": { "$ref": "#/definitions/Project" } }
+ *     }
+ *   }
+ * }
+ * ```
+ *
+ * The generated file exports one interface per definition and a contract map for
+ * `createApiClient`. Regenerate it whenever the backend routes change, so the
+ * TypeScript compiler catches drift.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+
+// ── Manifest format ──────────────────────────────────────────────────────────
+
+/** The JSON Schema subset the generator understands. */
+export interface JsonSchema {
+    $ref?: string;
+    type?: string | string[];
+    enum?: Array<string | number | boolean | null>;
+    nullable?: boolean;
+    items?: JsonSchema;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    description?: string;
+}
+
+export interface RouteManifestEntry {
+    /** Route class, e.g. `GetProjectRoute` → contract name `getProject`. */
+    handler?: string;
+    /** Explicit contract name; overrides the one derived from `handler`. */
+    name?: string;
+    query?: JsonSchema;
+    body?: JsonSchema;
+    response?: JsonSchema;
+    description?: string;
+}
+
+export interface RouteManifest {
+    definitions?: Record<string, JsonSchema>;
+    /** HTTP method → path template → route. */
+    routes: Partial<Record<string, Record<string, RouteManifestEntry>>>;
+}
+
+export interface GenerateOptions {
+    /** Name of the exported contract map. @default 'apiContracts' */
+    exportName?: string;
+    /** Module `defineEndpoint` / `typed` are imported from. @default '@progalaxyelabs/ngx-stonescriptphp-client' */
+    importFrom?: string;
+    /** Shown in the header comment. */
+    source?: string;
+}
+
+const METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+// ── Generator ────────────────────────────────────────────────────────────────
+
+/** Generate the contracts module source for `manifest`. */
+export function generateContracts(manifest: RouteManifest, options: GenerateOptions = {}): string {
+    const exportName = options.exportName ?? 'apiContracts';
+    const importFrom = options.importFrom ?? '@progalaxyelabs/ngx-stonescriptphp-client';
+    const definitions = manifest.definitions ?? {};
+
+    const lines: string[] = [
+        `// Generated by stonescriptphp-contracts${options.source ? ` from ${options.source}` : ''}. Do not edit.`,
+        `import { defineEndpoint, typed } from '${importFrom}';`,
+        ''
+    ];
+
+    for (const name of Object.keys(definitions).sort()) {
+        assertIdentifier(name, 'definition');
+        const schema = definitions[name];
+        if (schema.description) lines.push(`/** ${schema.description} */`);
+        if (isObjectSchema(schema) && schema.properties) {
+            lines.push(`export interface ${name} ${objectType(schema, definitions, 0)}`, '');
+        } else {
+            lines.push(`export type ${name} = ${schemaToType(schema, definitions, 0)};`, '');
+        }
+    }
+
+    const names = new Set<string>();
+    lines.push(`export const ${exportName} = {`);
+    for (const method of Object.keys(manifest.routes)) {
+        const upper = method.toUpperCase();
+        if (!METHODS.includes(upper)) {
+            throw new Error(`Unsupported HTTP method "${method}" in route manifest`);
+        }
+        const routes = manifest.routes[method] ?? {};
+        for (const path of Object.keys(routes)) {
+            const route = routes[path];
+            const name = route.name ?? contractName(upper, path, route.handler);
+            assertIdentifier(name, `contract for ${upper} ${path}`);
+            if (names.has(name)) {
+                throw new Error(`Duplicate contract name "${name}" (${upper} ${path}); set "name" on one of the routes`);
+            }
+            names.add(name);
+
+            const fields = [`method: '${upper}'`, `path: ${quote(path)}`];
+            for (const key of ['query', 'body', 'response'] as const) {
+                const schema = route[key];
+                if (schema) fields.push(`${key}: typed<${schemaToType(schema, definitions, 2)}>()`);
+            }
+            if (route.description) lines.push(`    /** ${route.description} */`);
+            lines.push(`    ${name}: defineEndpoint({`, ...fields.map((f, i) => `        ${f}${i < fields.length - 1 ? ',' : ''}`), '    }),');
+        }
+    }
+    if (names.size > 0) {
+        // Drop the trailing comma after the last contract.
+        lines[lines.length - 1] = '    })';
+    }
+    lines.push('};', '');
+
+    return lines.join('\n');
+}
+
+/**
+ * `GetProjectRoute` → `getProject`. Without a handler, falls back to the method
+ * and the static path segments: `GET /projects/{id}/notes` → `getProjectsNotes`.
+ */
+export function contractName(method: string, path: string, handler?: string): string {
+    if (handler) {
+        const base = handler.split('\\').pop()!.replace(/Route$/, '');
+        return base.charAt(0).toLowerCase() + base.slice(1);
+    }
+    const words = path.split('/')
+        .filter(segment => segment && !segment.startsWith('{'))
+        .flatMap(segment => segment.split(/[^A-Za-z0-9]+/))
+        .filter(Boolean);
+    return method.toLowerCase() + words.map(w => w.charAt(0).toUpperCase() + w.slice(1)).join('');
+}
+
+/** Render a schema as a TypeScript type expression. */
+export function schemaToType(schema: JsonSchema, definitions: Record<string, JsonSchema>, depth: number): string {
+    let type: string;
+    if (schema.$ref) {
+        const name = schema.$ref.replace(/^#\/definitions\//, '');
+        if (!(name in definitions)) throw new Error(`Unknown $ref "${schema.$ref}"`);
+        type = name;
+    } else if (schema.enum) {
+        type = schema.enum.map(value => typeof value === 'string' ? quote(value) : String(value)).join(' | ');
+    } else if (Array.isArray(schema.type)) {
+        type = schema.type.map(t => schemaToType({ ...schema, type: t, nullable: false }, definitions, depth)).join(' | ');
+    } else {
+        switch (schema.type) {
+            case 'string': type = 'string'; break;
+            case 'integer':
+            case 'number': type = 'number'; break;
+            case 'boolean': type = 'boolean'; break;
+            case 'null': type = 'null'; break;
+            case 'array': {
+                const items = schema.items ? schemaToType(schema.items, definitions, depth) : 'unknown';
+                type = /[|&]/.test(items) ? `Array<${items}>` : `${items}[]`;
+                break;
+            }
+            case 'object':
+                type = objectType(schema, definitions, depth);
+                break;
+            default:
+                type = 'unknown';
+        }
+    }
+    return schema.nullable ? `${type} | null` : type;
+}
+
+function objectType(schema: JsonSchema, definitions: Record<string, JsonSchema>, depth: number): string {
+    const properties = schema.properties ?? {};
+    const keys = Object.keys(properties);
+    if (keys.length === 0) {
+        const extra = schema.additionalProperties;
+        return typeof extra === 'object' ? `Record<string, ${schemaToType(extra, definitions, depth)}>` : 'Record<string, unknown>';
+    }
+    const required = new Set(schema.required ?? []);
+    const indent = '    '.repeat(depth + 1);
+    const members = keys.map(key => {
+        const prop = properties[key];
+        const doc = prop.description ? `${indent}/** ${prop.description} */\n` : '';
+        const name = IDENTIFIER.test(key) ? key : quote(key);
+        return `${doc}${indent}${name}${required.has(key) ? '' : '?'}: ${schemaToType(prop, definitions, depth + 1)};`;
+    });
+    return `{\n${members.join('\n')}\n${'    '.repeat(depth)}}`;
+}
+
+function isObjectSchema(schema: JsonSchema): boolean {
+    return schema.type === 'object' && !schema.nullable;
+}
+
+function quote(value: string): string {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function assertIdentifier(name: string, what: string): void {
+    if (!IDENTIFIER.test(name)) throw new Error(`Invalid ${what} name "${name}"`);
+}
+
+// ── CLI ──────────────────────────────────────────────────────────────────────
+
+const USAGE = 'Usage: stonescriptphp-contracts <manifest.json> [--out <file.ts>] [--name <exportName>] [--import <module>]';
+
+function main(argv: string[]): number {
+    const args = [...argv];
+    const options: GenerateOptions = {};
+    let manifestPath: string | undefined;
+    let outPath: string | undefined;
+
+    while (args.length) {
+        const arg = args.shift()!;
+        if (arg === '--out') outPath = args.shift();
+        else if (arg === '--name') options.exportName = args.shift();
+        else if (arg === '--import') options.importFrom = args.shift();
+        else if (arg === '--help' || arg === '-h') {
+            console.log(USAGE);
+            return 0;
+        } else manifestPath = arg;
+    }
+
+    if (!manifestPath) {
+        console.error(USAGE);
+        return 1;
+    }
+
+    try {
+        const manifest = JSON.parse(readFileSync(manifestPath, 'utf8')) as RouteManifest;
+        const source = generateContracts(manifest, { ...options, source: manifestPath.split(/[\\/]/).pop() });
+        if (outPath) {
+            writeFileSync(outPath, source);
+            console.log(`Wrote ${outPath}`);
+        } else {
+            process.stdout.write(source);
+        }
+        return 0;
+    } catch (err) {
+        console.error(`stonescriptphp-contracts: ${(err as Error).message}`);
+        return 1;
+    }
+}
+
+if (require.main === module) {
+    process.exit(main(process.argv.slice(2)));
+}